@@ -30,6 +30,29 @@ interface AnalyticsData {
   };
 }
 
+interface CostBreakdown {
+  key: string;
+  label: string;
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+}
+
+interface CostSummary {
+  days: number;
+  totalCostUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+  byDay: CostBreakdown[];
+  byModel: CostBreakdown[];
+  byConversation: CostBreakdown[];
+  byUser?: CostBreakdown[];
+}
+
+const formatCost = (costUsd: number) => (costUsd > 0 && costUsd < 0.01 ? '<$0.01' : `$${costUsd.toFixed(2)}`);
+
 export default function AnalyticsPage() {
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData>({
     webVitals: {},
@@ -40,6 +63,8 @@ export default function AnalyticsPage() {
   });
 
   const [isLoading, setIsLoading] = useState(true);
+  const [costs, setCosts] = useState<CostSummary | null>(null);
+  const [costsError, setCostsError] = useState<string | null>(null);
 
   useEffect(() => {
     // Track page view
@@ -139,7 +164,26 @@ export default function AnalyticsPage() {
       }
     };
 
+    // Team-wide spend is admin-only; other visitors get a hint instead
+    const loadCosts = async () => {
+      try {
+        const response = await fetch('/api/usage?scope=all&days=30');
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setCosts(result.costs);
+        } else {
+          setCostsError(response.status === 401 || response.status === 403
+            ? 'Sign in with an admin account to see token costs.'
+            : result.error || 'Failed to load token costs');
+        }
+      } catch (error) {
+        console.error('Failed to load token costs:', error);
+        setCostsError('Failed to load token costs');
+      }
+    };
+
     loadRealAnalyticsData();
+    loadCosts();
   }, []);
 
   const getScoreColor = (score: number) => {
@@ -321,6 +365,80 @@ export default function AnalyticsPage() {
           </div>
         </div>
 
+        {/* Token Costs */}
+        <div className="bg-gray-900 rounded-lg p-6 border border-gray-800 mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold">Token Costs</h2>
+            {costs && <div className="text-sm text-gray-400">Last {costs.days} days</div>}
+          </div>
+
+          {!costs ? (
+            <p className="text-gray-400">{costsError || 'Loading token costs...'}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Estimated Spend</div>
+                  <div className="text-3xl font-bold text-green-400">{formatCost(costs.totalCostUsd)}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Tokens (in / out)</div>
+                  <div className="text-3xl font-bold text-blue-400">
+                    {costs.promptTokens.toLocaleString()} / {costs.completionTokens.toLocaleString()}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-400 mb-1">Model Calls</div>
+                  <div className="text-3xl font-bold text-purple-400">{costs.requests.toLocaleString()}</div>
+                </div>
+              </div>
+
+              {costs.byDay.length > 0 && (
+                <div className="mb-8">
+                  <h3 className="text-lg font-semibold mb-4">Daily Spend</h3>
+                  <div className="flex items-end gap-1 h-32">
+                    {costs.byDay.map((day) => {
+                      const max = Math.max(...costs.byDay.map((d) => d.costUsd), Number.EPSILON);
+                      return (
+                        <div
+                          key={day.key}
+                          className="flex-1 bg-green-500/70 rounded-t"
+                          style={{ height: `${Math.max((day.costUsd / max) * 100, 2)}%` }}
+                          title={`${day.label}: ${formatCost(day.costUsd)} (${day.requests} calls)`}
+                        />
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                {[
+                  { title: 'By Model', rows: costs.byModel },
+                  { title: 'Top Users', rows: costs.byUser || [] },
+                  { title: 'Top Conversations', rows: costs.byConversation },
+                ].map(({ title, rows }) => (
+                  <div key={title}>
+                    <h3 className="text-lg font-semibold mb-4">{title}</h3>
+                    {rows.length === 0 ? (
+                      <p className="text-sm text-gray-500">No usage recorded</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {rows.map((row) => (
+                          <div key={row.key} className="flex justify-between items-center">
+                            <span className="text-gray-300 truncate mr-4">{row.label}</span>
+                            <span className="text-green-400 font-semibold whitespace-nowrap">{formatCost(row.costUsd)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Performance Insights */}
         <div className="bg-gray-900 rounded-lg p-6 border border-gray-800">
           <h2 className="text-xl font-bold mb-6">Performance Insights</h2>
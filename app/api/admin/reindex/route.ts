@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getQuotaTier } from '@/lib/usage/quotas';
+import { reindexDocuments } from '@/lib/ai/reindexing';
+
+// Most documents re-indexed per request, so a call stays within the function timeout
+const MAX_BATCH = 50;
+
+// POST endpoint (admins only) that re-chunks and re-embeds documents in
+// batches, skipping unchanged chunks. Body: { documentIds?, all?, afterId?,
+// limit? }; repeat with afterId = nextAfterId until it is null.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    if (getQuotaTier(session.user) !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { documentIds, all, afterId, limit } = body ?? {};
+
+    if (documentIds !== undefined && (!Array.isArray(documentIds) || !documentIds.every(Number.isInteger))) {
+      return NextResponse.json(
+        { error: 'documentIds must be an array of document ids' },
+        { status: 400 }
+      );
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0 || limit > MAX_BATCH)) {
+      return NextResponse.json(
+        { error: `Invalid limit (1-${MAX_BATCH})` },
+        { status: 400 }
+      );
+    }
+    if (afterId !== undefined && !Number.isInteger(afterId)) {
+      return NextResponse.json(
+        { error: 'Invalid afterId' },
+        { status: 400 }
+      );
+    }
+
+    const { results, nextAfterId } = await reindexDocuments({ documentIds, all: all === true, afterId, limit });
+
+    return NextResponse.json({
+      success: true,
+      results,
+      reindexed: results.filter(result => result.status === 'reindexed').length,
+      embedded: results.reduce((total, result) => total + result.embedded, 0),
+      nextAfterId,
+    });
+  } catch (error) {
+    console.error('[Reindex] Failed to re-index documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-index documents', details: error instanceof Error ? error.message : undefined },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { CoreMessage } from 'ai';
+import { NextRequest } from 'next/server';
+import { auth } from '@/auth';
+import { getConversationWithMessages } from '@/lib/db/conversations';
+import { buildDocumentContext, type DocumentContext } from '@/lib/ai/optimized-documents';
+import { buildContextWindow, estimateTokens } from '@/lib/ai/context-window';
+import { buildSystemPrompt, EXPLANATION_LEVELS, type ExplanationLevel } from '@/lib/ai/prompt-builder';
+import { getModelDefinition } from '@/lib/ai/model-registry';
+import { isSearchDocumentsToolEnabled, listSearchableCollections, searchDocumentsToolPrompt } from '@/lib/ai/tools/searchDocumentsTool';
+import { visualizationToolPrompts } from '../visualization_tools';
+
+// Debug view of the system prompt /api/chat would send for the next turn of a
+// conversation: GET /api/chat/prompt?conversationId=...&model=...&explanationLevel=...&preflightSearch=false
+// Nothing is written back, so the summary shown is the one currently stored.
+export async function GET(req: NextRequest): Promise<Response> {
+  const session = await auth();
+  const userId = session?.user?.id;
+  if (!userId) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const conversationId = searchParams.get('conversationId');
+  const mode = searchParams.get('mode') === 'generate' ? 'generate' : 'chat';
+  const explanationLevel = searchParams.get('explanationLevel') as ExplanationLevel | null;
+  const preflightSearch = searchParams.get('preflightSearch') !== 'false';
+
+  if (!conversationId) {
+    return new Response(JSON.stringify({ error: 'conversationId is required' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (explanationLevel && !EXPLANATION_LEVELS.includes(explanationLevel)) {
+    return new Response(JSON.stringify({ error: `Invalid explanationLevel: ${explanationLevel}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const conversation = await getConversationWithMessages(conversationId, userId);
+    if (!conversation) {
+      return new Response(JSON.stringify({ error: 'Conversation not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const modelId = searchParams.get('model') || conversation.model;
+    const definition = getModelDefinition(modelId);
+    if (!definition) {
+      return new Response(JSON.stringify({ error: `Unknown model: ${modelId}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const messages: CoreMessage[] = conversation.messages
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => ({ role: message.role as 'user' | 'assistant', content: message.content }));
+
+    const lastUserMessage = messages.filter(message => message.role === 'user').pop();
+    const { context, sources, rewrite }: DocumentContext = preflightSearch && lastUserMessage && typeof lastUserMessage.content === 'string'
+      ? await buildDocumentContext(lastUserMessage.content, userId, conversation.collectionIds, messages.slice(0, messages.lastIndexOf(lastUserMessage)))
+      : { context: '', sources: [] };
+
+    const searchCollections = mode === 'chat' && isSearchDocumentsToolEnabled()
+      ? await listSearchableCollections(userId, conversation.collectionIds)
+      : null;
+
+    const promptOptions = {
+      mode: mode as 'chat' | 'generate',
+      model: definition,
+      toolPrompts: mode === 'chat'
+        ? {
+            ...visualizationToolPrompts,
+            ...(searchCollections && { searchDocuments: searchDocumentsToolPrompt(searchCollections) }),
+          }
+        : undefined,
+      preferences: explanationLevel ? { explanationLevel } : {},
+      ragContext: context,
+    };
+
+    // No summarizer: show what would be sent without updating the stored summary
+    const contextWindow = await buildContextWindow({
+      messages,
+      modelId,
+      fixedPrompt: buildSystemPrompt(promptOptions).system,
+      state: { summary: conversation.summary, summaryMessageCount: conversation.summaryMessageCount },
+    });
+    const prompt = buildSystemPrompt({ ...promptOptions, summary: contextWindow.summary });
+
+    return new Response(JSON.stringify({
+      conversationId,
+      model: modelId,
+      mode,
+      system: prompt.system,
+      sections: prompt.sections.map(section => ({
+        id: section.id,
+        estimatedTokens: estimateTokens(section.content, modelId),
+      })),
+      messageCount: contextWindow.messages.length,
+      totalMessages: messages.length,
+      estimatedTokens: contextWindow.estimatedTokens,
+      budget: contextWindow.budget,
+      sources,
+      retrievalQueries: rewrite ?? null,
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[Prompt Debug] Error building prompt:', error);
+    return new Response(JSON.stringify({ error: 'Failed to build prompt' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
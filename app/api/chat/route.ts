@@ -1,8 +1,14 @@
-import { streamText, CoreMessage } from 'ai';
+import { streamText, createDataStreamResponse, CoreMessage } from 'ai';
+import { randomUUID } from 'crypto';
 import { NextRequest } from 'next/server';
 import { z } from 'zod';
-import { searchDocumentsOptimized, detectSimpleQuery } from '../../../lib/ai/optimized-documents';
-import { visualizationTools } from './visualization_tools';
+import { buildDocumentContext, type DocumentContext } from '../../../lib/ai/optimized-documents';
+import { recordChunkRetrievals } from '../../../lib/ai/documents';
+import { SOURCES_ANNOTATION, type SourcesAnnotation } from '../../../lib/ai/citations';
+import { MAX_SELECTED_COLLECTIONS, parseCollectionIds, sameCollections } from '../../../lib/ai/collections';
+import { createSearchDocumentsTool, isSearchDocumentsToolEnabled, listSearchableCollections, searchDocumentsToolPrompt } from '../../../lib/ai/tools/searchDocumentsTool';
+import { visualizationTools, visualizationToolPrompts } from './visualization_tools';
+import { createVisualizationTokenTransform } from '../../../lib/ai/visualization-tokens';
 import { trackAPIPerformanceDetailed } from '../../../lib/analytics/api-performance-middleware';
 import { auth } from '@/auth';
 import { 
@@ -10,254 +16,34 @@ import {
   saveMessage, 
   generateConversationTitle,
   getConversationById,
-  saveToolInvocation
+  getConversationMessage,
+  saveToolInvocation,
+  updateConversation,
+  updateConversationSummary,
+  embedMessage
 } from '@/lib/db/conversations';
 import { saveToLocalStorage } from '@/lib/chat/migration';
 import { getModelConfig as getLazyModelConfig } from '@/lib/ai/lazy-models';
+import { DEFAULT_MODEL_ID, getModelDefinition, isKnownModel } from '@/lib/ai/model-registry';
+import { streamWithFailover, getFallbackChain, type FailoverAttempt } from '@/lib/ai/provider-failover';
+import { buildContextWindow, summarizeMessages, type ConversationSummaryState } from '@/lib/ai/context-window';
+import { buildSystemPrompt, EXPLANATION_LEVELS, type PromptPreferences } from '@/lib/ai/prompt-builder';
+import { consumeQuota, quotaExceededResponse, quotaHeaders } from '@/lib/usage/quotas';
+import { recordUsage } from '@/lib/usage/cost-ledger';
 
 // Allow streaming responses up to 60 seconds
 export const maxDuration = 60;
 
 // getModelConfig will now be the primary way to get a configured model instance
-async function getModelConfigLocal(modelId: string, mode: string = 'chat') {
-  let baseSystem = '';
-
-  if (mode === 'generate') {
-    baseSystem = `You are an expert React developer who excels at creating clean, accessible, and responsive UI components. You're helping a user create React components based on their prompts. Always generate the most minimal, clean React code that fulfills the requirements. Use TypeScript type annotations when appropriate. Always use modern React patterns (e.g., functional components, hooks). Format the JSX beautifully.\r\n\r\nWhen generating code, invoke the 'generateReactComponent' tool to provide the complete, ready-to-use component. Each component should be:\r\n1. Complete and self-contained\r\n2. Well-typed with TypeScript\r\n3. Using modern React patterns\r\n4. Following best practices for accessibility and responsiveness`;
-  } else { // 'chat' mode
-    baseSystem = `You are a helpful STEM assistant. Focus on providing accurate, educational information about science, technology, engineering, and mathematics. Explain concepts clearly and provide examples where appropriate. If you're unsure about something, acknowledge the limits of your knowledge instead of making up information.
-
-## CRITICAL: MATHEMATICAL FORMATTING REQUIREMENTS
-
-**MANDATORY**: ALL mathematical expressions MUST use dollar sign delimiters - NEVER use parentheses or brackets!
-
-WRONG: (f(x)), (\\frac{dy}{dx}), [ \\frac{dy}{dx} = f'(x) ]
-CORRECT: $f(x)$, $\\frac{dy}{dx}$, $$\\frac{dy}{dx} = f'(x)$$
-
-**INLINE MATH**: Use single dollar signs for math within sentences:
-- Variables: Use $x$, $y$, $f(x)$, $g(x)$
-- Simple expressions: Use $E = mc^2$, $F = ma$, $\\frac{dy}{dx}$
-- Constants: Use $\\pi$, $e$, $\\alpha$, $\\beta$
-
-**BLOCK MATH**: Use double dollar signs for standalone equations:
-- Important formulas: Use $$\\frac{dy}{dx} = f'(g(x)) \\cdot g'(x)$$
-- Complex expressions: Use $$\\int_a^b f(x) dx = F(b) - F(a)$$
-
-**EXAMPLES OF CORRECT FORMATTING**:
-The chain rule formula is $\\frac{dy}{dx} = \\frac{df}{dg} \\cdot \\frac{dg}{dx}$.
-For a composite function $h(x) = f(g(x))$, we have: $$h'(x) = f'(g(x)) \\cdot g'(x)$$
-Where $f'(g(x))$ is the derivative of the outer function and $g'(x)$ is the derivative of the inner function.
-
-## TEXT FORMATTING GUIDELINES
-
-### Mathematical Elements (Remember: Always use $ delimiters!)
-- Fractions: $\frac{numerator}{denominator}$
-- Square roots: $\sqrt{x}$, $\sqrt[n]{x}$
-- Subscripts/superscripts: $x_1^2$, $H_2O$
-- Integrals: $\int_a^b f(x) dx$
-- Derivatives: $\frac{d}{dx}$, $\frac{\partial f}{\partial x}$
-- Greek letters: $\alpha$, $\beta$, $\gamma$, $\Delta$, $\Omega$
-- Functions: $\sin(x)$, $\cos(x)$, $\log(x)$, $\ln(x)$
-- Chemistry: $\text{H}_2\text{SO}_4$, $\text{CaCO}_3$
-
-### Content Structure
-- Use clear headers (# ## ###) for organization
-- Format lists with proper bullets or numbers
-- Use code blocks with language specification
-- Include tables when comparing data
-- Use **bold** for key terms, *italics* for emphasis
-- Define all mathematical variables when introduced
-- Include units for physical quantities
-- Break complex derivations into clear steps
-
-**REMINDER**: Every single mathematical expression, variable, or formula MUST be wrapped in dollar signs!
-
-## DOCUMENT CONTENT vs OCR TOOL USAGE - CRITICAL DISTINCTION
-
-### **UPLOADED DOCUMENT CONTENT (PDFs, TXT, DOC files)**
-- When users upload PDF, TXT, DOC, or DOCX files, the text content is **automatically extracted and processed**
-- This extracted text is **already available to you** through the RAG context system
-- **DO NOT use the OCR tool for uploaded documents** - the content is already accessible
-- If a user asks about content from an uploaded document, refer to the RAG context that's provided
-- The document content appears in your system context as "Related context from uploaded documents:"
-
-### **OCR TOOL - FOR IMAGES ONLY**
-- Use the 'performOCR' tool **ONLY** for extracting text from **images**:
-  * Screenshots of documents, websites, or applications
-  * Photos of handwritten notes, whiteboards, or printed text
-  * Scanned images in formats like JPG, PNG, GIF, BMP, WEBP
-  * Images containing mathematical formulas, equations, or diagrams
-- **NEVER use OCR for uploaded PDF/DOC files** - their text is already extracted during upload
-- OCR is for visual content that needs text extraction, not for processed documents
-
-### **When to Use Each:**
-**Use document content (no tool needed):** User asks "What does my uploaded paper say about..." or references uploaded documents
-**Use OCR tool:** User shares a screenshot, photo, or image file and asks you to extract text from it
-
-Example scenarios:
-- ✅ User uploads PDF → Content automatically available via RAG
-- ✅ User shares screenshot of equation → Use performOCR tool
-- ✅ User uploads image of handwritten notes → Use performOCR tool
-- ❌ User uploads PDF → DO NOT use performOCR tool
-
-When a user asks about molecules, chemical structures, or wants to see a 3D molecular visualization, you MUST call the 'displayMolecule3D' tool. Do NOT generate text tokens like [NEEDS_VISUALIZATION]. Instead, directly call the tool.
-
-For molecule visualization:
-- Tool name: displayMolecule3D
-- Required parameters: identifierType ('pdb' or 'smiles'), identifier (the actual SMILES string or PDB ID)
-- Optional: description
-
-Example: If user asks about ethanol (CCO), call displayMolecule3D with:
-{
-  "identifierType": "smiles", 
-  "identifier": "CCO", 
-  "description": "3D model of Ethanol"
-}
-
-For physics simulations and mechanics demonstrations, use the 'displayPhysicsSimulation' tool:
-
-PREDEFINED PHYSICS SCENARIOS:
-- "collision_demo" - Demonstrates elastic/inelastic collisions with conservation of momentum
-- "spring_system" - Shows simple harmonic motion and spring dynamics
-- "projectile_motion" - Demonstrates parabolic trajectory under gravity
-- "inclined_plane" - Forces and motion on angled surfaces
-- "pendulum" - Simple pendulum with customizable parameters
-- "falling_objects" - Objects falling under gravity with different properties
-
-NATURAL LANGUAGE TO PHYSICS MAPPING:
-- "Two balls colliding" or "collision" → collision_demo
-- "Mass on a spring" or "harmonic motion" → spring_system  
-- "Ball rolling down a ramp" → inclined_plane
-- "Projectile" or "trajectory" → projectile_motion
-- "Pendulum" or "oscillation" → pendulum
-- "Falling" or "gravity" → falling_objects
-
-For predefined scenarios, use minimal parameters:
-{
-  "simulationType": "collision_demo",
-  "simConfig": {},
-  "metadata": {
-    "title": "Collision Demonstration",
-    "description": "Watch two objects collide and observe momentum conservation"
-  }
-}
-
-For custom physics scenarios, use the full configuration system:
-{
-  "simulationType": "custom_matter_js_setup",
-  "simConfig": {
-    "objects": [
-      {
-        "id": "ball1",
-        "type": "ball",
-        "position": {"x": 100, "y": 200},
-        "velocity": {"x": 2, "y": 0},
-        "dimensions": {"radius": 15},
-        "properties": {"mass": 1, "color": "#ff6b6b"}
-      }
-    ],
-    "environment": {
-      "gravity": {"x": 0, "y": 0.98},
-      "boundaries": {"ground": true, "walls": true}
-    }
-  },
-  "metadata": {
-    "title": "Custom Physics Simulation",
-    "educational_context": "Demonstrates specific physics principles"
-  }
-}
-
-Object types: "ball", "box", "polygon"
-Colors: Use hex codes like "#ff6b6b", "#4ecdc4", "#9b59b6"
-Always include educational_context in metadata to explain the physics concept.
-
-For mathematical function plotting:
-- For 2D functions (single variable): use 'plotFunction2D' tool
-  * Required: functionString (math.js syntax), variable (name and range)
-  * Optional: plotType ('line' or 'scatter'), title
-  * Example: sin(x) from -π to π would be:
-    {
-      "functionString": "sin(x)",
-      "variable": {"name": "x", "range": [-3.14159, 3.14159]},
-      "plotType": "line",
-      "title": "Sine Wave"
-    }
-
-- For 3D functions (two variables): use 'plotFunction3D' tool  
-  * Required: functionString (math.js syntax), variables (array of 2 variables with names and ranges)
-  * Optional: plotType ('surface' or 'contour'), title
-  * Example: sin(x)*cos(y) would be:
-    {
-      "functionString": "sin(x) * cos(y)",
-      "variables": [
-        {"name": "x", "range": [-5, 5]},
-        {"name": "y", "range": [-5, 5]}
-      ],
-      "plotType": "surface",
-      "title": "3D Plot of sin(x)*cos(y)"
-    }
-
-For general charts and plots with raw data, use the 'displayPlotlyChart' tool with data array and optional layout object.
-
-IMPORTANT: 
-- Always use the actual tool calls, never generate text tokens or placeholders
-- Call each tool only ONCE per response - do not repeat tool calls
-- After calling a tool, provide a brief explanation of what was displayed
-- For physics, always explain the educational concept being demonstrated
-- CRITICAL: Use ONLY dollar signs for mathematical expressions - NEVER parentheses or brackets!
-- Structure responses with clear headers, proper markdown formatting, and logical flow
-- Use appropriate emphasis, lists, and code blocks to enhance readability`;
+async function getModelConfigLocal(modelId: string) {
+  const definition = getModelDefinition(modelId);
+  if (!definition) {
+    throw new Error(`Unknown model id: ${modelId}`);
   }
 
   // Use lazy loaded model config
   const model = await getLazyModelConfig(modelId);
-  
-  switch (modelId) {
-    case 'gemini-2.5-flash':
-      return {
-        model,
-        system: `${baseSystem}\n\nYou are powered by Gemini 2.5 Flash.`,
-      };
-    case 'deepseek-reasoner': {
-      // DeepSeek Reasoner excels at math/science but does not support native tool calling.
-      // Use special text tokens for visualizations.
-      const reasonerSystem = baseSystem.replace(
-        'Do NOT generate text tokens like [NEEDS_VISUALIZATION]. Instead, directly call the tool.',
-        'Since you do not support native tool calling, you MUST use special text tokens for visualizations and tools.'
-      );
-      return {
-        model,
-        system: `${reasonerSystem}\n\nYou are powered by DeepSeek V3.2 Reasoner with advanced mathematical reasoning capabilities.
-
-## SPECIAL TOKEN SYSTEM FOR VISUALIZATIONS
-
-Since you do not support native function calling, use these special text tokens:
-
-**For 3D Molecular Visualization:**
-[NEEDS_VISUALIZATION:{"type":"molecule3D","identifier":"SMILES_OR_PDB_ID","identifierType":"smiles_or_pdb","description":"Brief description"}]
-
-**For 2D Function Plotting:**
-[NEEDS_VISUALIZATION:{"type":"plot2D","functionString":"sin(x)","variable":{"name":"x","range":[-3.14,3.14]},"title":"Plot Title"}]
-
-**For 3D Function Plotting:**
-[NEEDS_VISUALIZATION:{"type":"plot3D","functionString":"sin(x)*cos(y)","variables":[{"name":"x","range":[-5,5]},{"name":"y","range":[-5,5]}],"title":"3D Plot Title"}]
-
-**For Physics Simulations:**
-[NEEDS_VISUALIZATION:{"type":"physics","simulationType":"collision_demo","metadata":{"title":"Physics Demo","description":"Description"}}]
-
-**For Custom Charts:**
-[NEEDS_VISUALIZATION:{"type":"plotly","data":[{"x":[1,2,3],"y":[1,4,9],"type":"scatter"}],"title":"Chart Title"}]
-
-IMPORTANT: Always use these exact token formats when users request visualizations, molecular structures, plots, or physics simulations.`,
-      };
-    }
-    default:
-      // DeepSeek V3.2 (deepseek-chat) supports native tool calling
-      return {
-        model,
-        system: `${baseSystem}\n\nYou are powered by DeepSeek V3.2.`,
-      };
-  }
+  return { model, definition };
 }
 
 function errorHandler(error: unknown): string {
@@ -278,90 +64,33 @@ function errorHandler(error: unknown): string {
   }
 }
 
-// Helper function for comprehensive tool signal extraction
-function extractAllToolSignals(text: string): Array<{pattern: string, match: string, fullMatch: string}> {
-  const signals = [];
-  const patterns = [
-    /\[NEEDS_VISUALIZATION:({.*?})\]/g,
-    /displayMolecule3D\([^)]*\)/g,
-    /plotFunction[23]D\([^)]*\)/g,
-    /displayPlotlyChart\([^)]*\)/g,
-    /displayPhysicsSimulation\([^)]*\)/g,
-    /performOCR\([^)]*\)/g
-  ];
-  
-  for (const pattern of patterns) {
-    const matches = [...text.matchAll(pattern)];
-    signals.push(...matches.map(m => ({ 
-      pattern: pattern.source, 
-      match: m[0],
-      fullMatch: m[1] || m[0] // Extract JSON content if available
-    })));
-  }
-  
-  return signals;
-}
-
-// Enhanced function to detect tool signals during streaming
-function detectEarlyToolSignals(token: string) {
-  const detectedSignals = [];
-  
-  // Pattern 1: [NEEDS_VISUALIZATION:{...}] format
-  if (token.includes('[NEEDS_VISUALIZATION')) {
-    const visualizationPattern = /\[NEEDS_VISUALIZATION:({.*?})\]/;
-    const match = token.match(visualizationPattern);
-    if (match) {
-      try {
-        const signal = JSON.parse(match[1]);
-        detectedSignals.push({
-          type: 'needs_visualization',
-          signal,
-          rawMatch: match[0]
-        });
-      } catch (err) {
-        console.warn('[Early Tool Detection] Failed to parse NEEDS_VISUALIZATION signal:', err);
-      }
-    }
-  }
-
-  // Pattern 2: Direct tool function calls
-  const toolPatterns = [
-    { name: 'displayMolecule3D', pattern: /displayMolecule3D.*?identifier["\s]*:["\s]*([^"}\s,]+)/ },
-    { name: 'plotFunction2D', pattern: /plotFunction2D.*?functionString["\s]*:["\s]*([^"}\s,]+)/ },
-    { name: 'plotFunction3D', pattern: /plotFunction3D.*?functionString["\s]*:["\s]*([^"}\s,]+)/ },
-    { name: 'displayPlotlyChart', pattern: /displayPlotlyChart/ },
-    { name: 'displayPhysicsSimulation', pattern: /displayPhysicsSimulation.*?simulationType["\s]*:["\s]*([^"}\s,]+)/ },
-    { name: 'performOCR', pattern: /performOCR/ }
-  ];
-
-  for (const { name, pattern } of toolPatterns) {
-    if (pattern.test(token)) {
-      const match = token.match(pattern);
-      detectedSignals.push({
-        type: 'tool_function_call',
-        toolName: name,
-        rawMatch: match ? match[0] : token,
-        extractedParam: match && match[1] ? match[1] : undefined
-      });
-    }
-  }
-
-  return detectedSignals;
-}
-
 async function chatHandler(req: NextRequest): Promise<Response> {
   const body = await req.json();
   
   const {
     messages, 
-    model: modelId = 'deepseek-chat',
+    model: modelId = DEFAULT_MODEL_ID,
     mode = 'chat',
     conversationId,
+    preferences = {},
+    branch,
+    collectionIds,
+    preflightSearch = true,
   }: { 
     messages: CoreMessage[], 
     model?: string, 
     mode?: 'chat' | 'generate',
     conversationId?: string,
+    preferences?: PromptPreferences,
+    // Edit a saved user message or regenerate a saved assistant reply. The
+    // client sends the history up to the fork point (plus the edited message).
+    branch?: { type: 'edit' | 'regenerate', messageId: string },
+    // Limit retrieval to these document collections; [] or null searches every
+    // accessible document. Omitted: the conversation's saved selection.
+    collectionIds?: number[] | null,
+    // Search the documents for the last user message before the model runs.
+    // Models with tool calling can also search on their own with searchDocuments.
+    preflightSearch?: boolean,
   } = body;
 
   // Add validation for messages
@@ -395,6 +124,55 @@ async function chatHandler(req: NextRequest): Promise<Response> {
     });
   }
 
+  if (preferences.explanationLevel && !EXPLANATION_LEVELS.includes(preferences.explanationLevel)) {
+    return new Response(JSON.stringify({ 
+      error: `Invalid explanationLevel: ${preferences.explanationLevel}` 
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (typeof preflightSearch !== 'boolean') {
+    return new Response(JSON.stringify({ 
+      error: 'preflightSearch must be a boolean' 
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (branch && (!['edit', 'regenerate'].includes(branch.type) || typeof branch.messageId !== 'string')) {
+    return new Response(JSON.stringify({ 
+      error: 'branch must be { type: "edit" | "regenerate", messageId: string }' 
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const selectedCollectionIds = collectionIds === undefined || collectionIds === null
+    ? collectionIds
+    : parseCollectionIds(collectionIds);
+  if (selectedCollectionIds === null && collectionIds !== null) {
+    return new Response(JSON.stringify({ 
+      error: `collectionIds must be an array of at most ${MAX_SELECTED_COLLECTIONS} collection ids` 
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  if (!isKnownModel(modelId)) {
+    console.error('[Chat API] Unknown model id:', modelId);
+    return new Response(JSON.stringify({ 
+      error: `Unknown model: ${modelId}` 
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
   // Get authentication session
   const session = await auth();
   const userId = session?.user?.id;
@@ -403,8 +181,64 @@ async function chatHandler(req: NextRequest): Promise<Response> {
   let currentConversationId = conversationId;
   let isNewConversation = false;
 
+  // If we have a conversation ID, verify access
+  let summaryState: ConversationSummaryState = { summary: null, summaryMessageCount: 0 };
+  let retrievalCollectionIds = selectedCollectionIds?.length ? selectedCollectionIds : null;
+  let savedCollectionIds: number[] | null = null;
+  if (currentConversationId && userId) {
+    try {
+      const conversation = await getConversationById(currentConversationId, userId);
+      if (!conversation) {
+        console.warn('[Chat API] Conversation not found or access denied:', currentConversationId);
+        currentConversationId = undefined;
+      } else {
+        summaryState = { summary: conversation.summary, summaryMessageCount: conversation.summaryMessageCount };
+        savedCollectionIds = conversation.collectionIds;
+      }
+    } catch (error) {
+      console.error('[Chat API] Error verifying conversation access:', error);
+      currentConversationId = undefined;
+    }
+  }
+
+  // Edits and regenerations fork the message tree: the new message is saved
+  // alongside the one it replaces, under the same parent
+  let forkParentId: string | null | undefined;
+  let summaryReset = false;
+  if (branch && currentConversationId && userId) {
+    let target;
+    try {
+      target = await getConversationMessage(currentConversationId, branch.messageId);
+    } catch (error) {
+      console.error('[Chat API] Error loading message to branch from:', error);
+    }
+
+    if (!target || target.role !== (branch.type === 'edit' ? 'user' : 'assistant')) {
+      return new Response(JSON.stringify({ 
+        error: `Message to ${branch.type} not found` 
+      }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    forkParentId = target.parentId;
+
+    // A summary reaching past the fork point describes the abandoned branch
+    const forkIndex = branch.type === 'edit' ? messages.length - 1 : messages.length;
+    if (summaryState.summaryMessageCount > forkIndex) {
+      summaryState = { summary: null, summaryMessageCount: 0 };
+      summaryReset = true;
+    }
+  }
+
+  // Requests rejected by the checks above don't use up quota
+  const quota = await consumeQuota(req, session?.user, 'queries');
+  if (!quota.allowed) {
+    return quotaExceededResponse(quota);
+  }
+
   // If we have a user and no conversation ID, create a new conversation
-  if (userId && !currentConversationId && messages.length > 0) {
+  if (userId && !conversationId && messages.length > 0) {
     try {
       // Convert CoreMessage to Message format for title generation
       const messagesForTitle = messages.map((msg, index) => ({
@@ -417,9 +251,11 @@ async function chatHandler(req: NextRequest): Promise<Response> {
       const conversation = await createConversation({
         userId,
         title,
-        model: modelId
+        model: modelId,
+        collectionIds: selectedCollectionIds?.length ? selectedCollectionIds : null
       });
       currentConversationId = conversation.id;
+      savedCollectionIds = conversation.collectionIds;
       isNewConversation = true;
     } catch (error) {
       console.error('[Chat API] Failed to create conversation:', error);
@@ -427,57 +263,121 @@ async function chatHandler(req: NextRequest): Promise<Response> {
     }
   }
 
-  // If we have a conversation ID, verify access
-  if (currentConversationId && userId) {
+  // A collection selection sent with the request replaces the saved one
+  if (selectedCollectionIds === undefined) {
+    retrievalCollectionIds = savedCollectionIds;
+  } else if (currentConversationId && userId && !sameCollections(savedCollectionIds, retrievalCollectionIds)) {
     try {
-      const conversation = await getConversationById(currentConversationId, userId);
-      if (!conversation) {
-        console.warn('[Chat API] Conversation not found or access denied:', currentConversationId);
-        currentConversationId = undefined;
-      }
+      await updateConversation(currentConversationId, { collectionIds: retrievalCollectionIds }, userId);
     } catch (error) {
-      console.error('[Chat API] Error verifying conversation access:', error);
-      currentConversationId = undefined;
+      console.error('[Chat API] Failed to save collection selection:', error);
     }
   }
 
+  // Saved rows use the ids the client sees: conversation pages generate UUIDs
+  // for user messages, and the assistant id is streamed to the client
+  const clientMessageId = (messages[messages.length - 1] as { id?: unknown }).id;
+  const messageIds = {
+    user: z.string().uuid().safeParse(clientMessageId).success ? clientMessageId as string : randomUUID(),
+    assistant: randomUUID(),
+  };
+
   const lastUserMessage = messages
     .filter((message: CoreMessage) => message.role === 'user')
     .pop();
   
-  let context = '';
-  if (process.env.RAG_ENABLED === 'true' && lastUserMessage && typeof lastUserMessage.content === 'string') {
-    try {
-      // Fast path for simple queries (no RAG needed)
-      const isSimpleQuery = detectSimpleQuery(lastUserMessage.content);
-      
-      if (!isSimpleQuery) {
-        const relevantDocs = await searchDocumentsOptimized(lastUserMessage.content, 3, userId);
-
-        if (relevantDocs && relevantDocs.length > 0) {
-          context = `Here is some relevant information that may help answer the question:\n\n` +
-            relevantDocs.map((doc) => {
-              return `Document: \"${doc.title}\"\nContent: ${doc.content}\n`;
-            }).join('\n');
+  // Sources are numbered as in the prompt, so [n] in the answer maps back to a
+  // chunk. searchDocuments calls append to the same list.
+  // Earlier turns let follow-up questions be rewritten into standalone queries
+  const { context, sources, rewrite }: DocumentContext = preflightSearch && lastUserMessage && typeof lastUserMessage.content === 'string'
+    ? await buildDocumentContext(lastUserMessage.content, userId, retrievalCollectionIds, messages.slice(0, messages.lastIndexOf(lastUserMessage)))
+    : { context: '', sources: [] };
+  // Hit counts shown in the document viewer; not worth delaying the answer for
+  recordChunkRetrievals(sources.map(source => source.chunkId)).catch(error => {
+    console.error('[Chat API] Failed to record chunk retrievals:', error);
+  });
+
+  const searchCollections = mode === 'chat' && isSearchDocumentsToolEnabled()
+    ? await listSearchableCollections(userId, retrievalCollectionIds)
+    : null;
+  const searchDocumentsTool = searchCollections && createSearchDocumentsTool({
+    userId,
+    collectionIds: retrievalCollectionIds,
+    collections: searchCollections,
+    sources,
+  });
+  const chatTools = searchDocumentsTool
+    ? { ...visualizationTools, searchDocuments: searchDocumentsTool }
+    : visualizationTools;
+
+  const promptOptions = {
+    mode,
+    toolPrompts: mode === 'chat'
+      ? {
+          ...visualizationToolPrompts,
+          ...(searchCollections && { searchDocuments: searchDocumentsToolPrompt(searchCollections) }),
         }
-      }
+      : undefined,
+    preferences,
+    ragContext: context,
+  };
+
+  // Fit the history into the requested model's token budget. Persisted
+  // conversations fold older turns into a rolling summary; anonymous chats
+  // just drop them.
+  const primaryConfig = await getModelConfigLocal(modelId);
+  const persistedConversationId = userId ? currentConversationId : undefined;
+  const contextWindow = await buildContextWindow({
+    messages,
+    modelId,
+    fixedPrompt: buildSystemPrompt({ ...promptOptions, model: primaryConfig.definition }).system,
+    state: summaryState,
+    summarizer: persistedConversationId
+      ? async (previousSummary, newMessages) => {
+          const { summary, usage } = await summarizeMessages(primaryConfig.model, previousSummary, newMessages);
+          await recordUsage({
+            userId,
+            conversationId: persistedConversationId,
+            modelId,
+            kind: 'summary',
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+          });
+          return summary;
+        }
+      : undefined,
+  });
+
+  if ((contextWindow.summaryChanged || summaryReset) && persistedConversationId) {
+    try {
+      await updateConversationSummary(persistedConversationId, contextWindow.summary, contextWindow.summaryMessageCount);
     } catch (error) {
-      console.error('[RAG] Error searching documents:', error);
+      console.error('[Chat API] Failed to save conversation summary:', error);
     }
   }
 
-      const modelConfig = await getModelConfigLocal(modelId, mode);
-  
-  const systemPromptWithContext = context 
-    ? `${modelConfig.system}\n\n${context}`
-    : modelConfig.system;
+  // Populated once a model in the fallback chain starts streaming; read by onFinish
+  let failoverAttempts: FailoverAttempt[] = [];
 
-  try {
-    const result = await streamText({
-      model: modelConfig.model as any,
-      system: systemPromptWithContext,
-      messages: messages,
-      maxSteps: mode === 'generate' ? 5 : 3,
+  const startStream = async (activeModelId: string, abortSignal: AbortSignal) => {
+    const modelConfig = await getModelConfigLocal(activeModelId);
+    // Rebuilt per model: tool guidance differs for models without tool calling
+    const prompt = buildSystemPrompt({
+      ...promptOptions,
+      model: modelConfig.definition,
+      summary: contextWindow.summary,
+    });
+
+    return streamText({
+      model: modelConfig.model,
+      system: prompt.system,
+      messages: contextWindow.messages,
+      // Document searches take steps of their own before the answer
+      maxSteps: mode === 'generate' || searchDocumentsTool ? 5 : 3,
+      // Retries are handled by streamWithFailover so they can fall back across providers
+      maxRetries: 0,
+      abortSignal,
+      experimental_generateMessageId: () => messageIds.assistant,
       tools: mode === 'generate' ? { 
         generateReactComponent: {
           description: 'Generate a React component based on the user request',
@@ -490,16 +390,40 @@ async function chatHandler(req: NextRequest): Promise<Response> {
             return { jsx, componentName, description, timestamp: new Date().toISOString() };
           }
         }
-      } : visualizationTools,
-      onFinish: async ({ text, toolCalls, toolResults, finishReason, usage, steps }) => {
+      } : modelConfig.definition.capabilities.toolCalling ? chatTools : undefined,
+      // Models without native tool calling emit [NEEDS_VISUALIZATION:{...}] tokens,
+      // which are turned into tool calls/results as the stream passes through
+      experimental_transform: mode === 'chat' && !modelConfig.definition.capabilities.toolCalling
+        ? createVisualizationTokenTransform(visualizationTools)
+        : undefined,
+      onFinish: async ({ text, finishReason, usage, steps }) => {
+        let assistantMessageId: string | undefined;
+        // toolCalls/toolResults only cover the last step, and the tool call
+        // usually happens in an earlier one, so collect them from every step
+        // (typed loosely: the tool set differs between chat and generate mode)
+        const stepToolCalls = steps.flatMap((step, stepIndex) =>
+          (step.toolCalls as Array<{ toolCallId: string; toolName: string; args: unknown }>)
+            .map(toolCall => ({ toolCall, step: stepIndex }))
+        );
+        const toolResultsById = new Map(
+          steps
+            .flatMap(step => step.toolResults as Array<{ toolCallId: string; result: unknown }>)
+            .map(toolResult => [toolResult.toolCallId, toolResult])
+        );
+
         try {
           // Save conversation to database if authenticated
-          if (currentConversationId && userId && text) {
+          if (currentConversationId && userId && (text || stepToolCalls.length > 0)) {
             try {
               const lastUserMsg = messages[messages.length - 1];
-              if (lastUserMsg && lastUserMsg.role === 'user') {
-                await saveMessage({
+              let userMessage: { id: string, content: string } | undefined;
+              // A regenerated reply hangs off the user message that is already saved
+              if (branch?.type !== 'regenerate' && lastUserMsg && lastUserMsg.role === 'user') {
+                userMessage = await saveMessage({
+                  id: messageIds.user,
                   conversationId: currentConversationId,
+                  // Otherwise continues the active branch
+                  parentId: branch?.type === 'edit' ? forkParentId : undefined,
                   role: 'user',
                   content: typeof lastUserMsg.content === 'string' ? lastUserMsg.content : JSON.stringify(lastUserMsg.content),
                   parts: Array.isArray(lastUserMsg.content) ? lastUserMsg.content : undefined,
@@ -508,31 +432,50 @@ async function chatHandler(req: NextRequest): Promise<Response> {
               }
 
               const assistantMessage = await saveMessage({
+                id: messageIds.assistant,
                 conversationId: currentConversationId,
+                parentId: branch?.type === 'regenerate' ? forkParentId : undefined,
                 role: 'assistant',
                 content: text,
                 tokenUsage: usage,
                 metadata: {
                   finishReason,
                   stepCount: steps?.length,
+                  model: activeModelId,
+                  requestedModel: modelId,
+                  failoverAttempts: failoverAttempts.length > 0 ? failoverAttempts : undefined,
+                  // Section ids make prompt experiments comparable across saved messages
+                  promptSections: prompt.sections.map(section => section.id),
+                  // Restored as a sources annotation when the conversation is loaded
+                  sources: sources.length > 0 ? sources : undefined,
+                  // What the pre-flight search actually looked for, for debugging retrieval
+                  retrievalQueries: rewrite,
                   timestamp: new Date().toISOString()
                 }
               });
 
-              if (toolCalls && toolCalls.length > 0 && assistantMessage) {
-                for (let i = 0; i < toolCalls.length; i++) {
-                  const toolCall = toolCalls[i] as any;
-                  const toolResult = toolResults?.[i] as any;
+              assistantMessageId = assistantMessage?.id;
+
+              if (assistantMessage) {
+                for (const { toolCall, step } of stepToolCalls) {
+                  const toolResult = toolResultsById.get(toolCall.toolCallId);
 
                   await saveToolInvocation({
                     messageId: assistantMessage.id,
-                    toolName: toolCall.toolName || toolCall.name || 'unknown',
-                    parameters: toolCall.args || toolCall.parameters,
+                    toolCallId: toolCall.toolCallId,
+                    step,
+                    toolName: toolCall.toolName,
+                    parameters: toolCall.args,
                     result: toolResult?.result,
-                    executionTime: toolResult?.executionTime
                   });
                 }
               }
+
+              // No-op unless semantic conversation search is enabled
+              await Promise.all([
+                userMessage ? embedMessage(userMessage.id, userMessage.content) : undefined,
+                assistantMessage ? embedMessage(assistantMessage.id, text) : undefined,
+              ]);
             } catch (dbError) {
               console.error('[Chat API] Error saving to database:', dbError);
               if (!userId) {
@@ -550,21 +493,45 @@ async function chatHandler(req: NextRequest): Promise<Response> {
               }
             }
           }
-
-          // Process text tokens for models that don't support native tool calling
-          if (text) {
-            extractAllToolSignals(text);
-          }
         } catch (error) {
           console.error('[Chat API] Error in onFinish:', error);
         }
+
+        // Anonymous and unsaved chats are billed too, just without a conversation
+        await recordUsage({
+          userId,
+          conversationId: currentConversationId && userId ? currentConversationId : null,
+          messageId: assistantMessageId,
+          modelId: activeModelId,
+          kind: 'chat',
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
+        });
       }
     });
+  };
 
-    const response = result.toDataStreamResponse({ 
-      getErrorMessage: errorHandler
+  try {
+    const { result, modelId: modelUsed, attempts } = await streamWithFailover(
+      getFallbackChain(modelId),
+      startStream
+    );
+    failoverAttempts = attempts;
+
+    const response = createDataStreamResponse({
+      execute: dataStream => {
+        if (sources.length > 0) {
+          const annotation: SourcesAnnotation = { type: SOURCES_ANNOTATION, sources };
+          dataStream.writeMessageAnnotation(annotation);
+        }
+        result.mergeIntoDataStream(dataStream);
+      },
+      onError: errorHandler,
     });
 
+    // Report which model actually served the request (may differ after failover)
+    response.headers.set('X-Model-Used', modelUsed);
+
     // Add conversation ID to response headers if available
     if (currentConversationId) {
       response.headers.set('X-Conversation-Id', currentConversationId);
@@ -572,11 +539,14 @@ async function chatHandler(req: NextRequest): Promise<Response> {
     if (isNewConversation) {
       response.headers.set('X-New-Conversation', 'true');
     }
+    for (const [name, value] of Object.entries(quotaHeaders(quota))) {
+      response.headers.set(name, value);
+    }
 
     return response;
 
   } catch (error) {
-    console.error('Error in enhanced streamText call:', error);
+    console.error('Error in enhanced streamText call (all fallback models failed):', error);
     
     const message = errorHandler(error);
     return new Response(JSON.stringify({ error: message }), {
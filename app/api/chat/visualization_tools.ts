@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { tool } from 'ai';
 import { physicsSimulationTool } from '../../../lib/ai/tools/physicsSimulationTool';
 import { executeOCR, ocrToolSchema } from '../../../lib/ai/tools/ocrTool';
+import type { ToolPromptFragment } from '../../../lib/ai/prompt-builder';
 
 // Helper function to get proper props for molecule viewer (updated for advanced options)
 async function getPropsForMoleculeViewer(
@@ -307,4 +308,139 @@ export const visualizationTools = {
   displayPlotlyChart,
   displayPhysicsSimulation,
   performOCR,
-}; 
\ No newline at end of file
+}; 
+
+// System prompt guidance for each tool, assembled by lib/ai/prompt-builder.ts.
+// `token` is the text-token variant for models without native tool calling.
+export const visualizationToolPrompts: Record<keyof typeof visualizationTools, ToolPromptFragment> = {
+  displayMolecule3D: {
+    native: `When a user asks about molecules, chemical structures, or wants to see a 3D molecular visualization, you MUST call the 'displayMolecule3D' tool. Do NOT generate text tokens like [NEEDS_VISUALIZATION]. Instead, directly call the tool.
+
+For molecule visualization:
+- Tool name: displayMolecule3D
+- Required parameters: identifierType ('pdb' or 'smiles'), identifier (the actual SMILES string or PDB ID)
+- Optional: description
+
+Example: If user asks about ethanol (CCO), call displayMolecule3D with:
+{
+  "identifierType": "smiles", 
+  "identifier": "CCO", 
+  "description": "3D model of Ethanol"
+}`,
+    token: `**For 3D Molecular Visualization:**
+[NEEDS_VISUALIZATION:{"type":"molecule3D","identifier":"SMILES_OR_PDB_ID","identifierType":"smiles_or_pdb","description":"Brief description"}]`,
+  },
+  plotFunction2D: {
+    native: `For mathematical function plotting of 2D functions (single variable), use the 'plotFunction2D' tool:
+  * Required: functionString (math.js syntax), variable (name and range)
+  * Optional: plotType ('line' or 'scatter'), title
+  * Example: sin(x) from -π to π would be:
+    {
+      "functionString": "sin(x)",
+      "variable": {"name": "x", "range": [-3.14159, 3.14159]},
+      "plotType": "line",
+      "title": "Sine Wave"
+    }`,
+    token: `**For 2D Function Plotting:**
+[NEEDS_VISUALIZATION:{"type":"plot2D","functionString":"sin(x)","variable":{"name":"x","range":[-3.14,3.14]},"title":"Plot Title"}]`,
+  },
+  plotFunction3D: {
+    native: `For 3D functions (two variables), use the 'plotFunction3D' tool:
+  * Required: functionString (math.js syntax), variables (array of 2 variables with names and ranges)
+  * Optional: plotType ('surface' or 'contour'), title
+  * Example: sin(x)*cos(y) would be:
+    {
+      "functionString": "sin(x) * cos(y)",
+      "variables": [
+        {"name": "x", "range": [-5, 5]},
+        {"name": "y", "range": [-5, 5]}
+      ],
+      "plotType": "surface",
+      "title": "3D Plot of sin(x)*cos(y)"
+    }`,
+    token: `**For 3D Function Plotting:**
+[NEEDS_VISUALIZATION:{"type":"plot3D","functionString":"sin(x)*cos(y)","variables":[{"name":"x","range":[-5,5]},{"name":"y","range":[-5,5]}],"title":"3D Plot Title"}]`,
+  },
+  displayPlotlyChart: {
+    native: `For general charts and plots with raw data, use the 'displayPlotlyChart' tool with data array and optional layout object.`,
+    token: `**For Custom Charts:**
+[NEEDS_VISUALIZATION:{"type":"plotly","data":[{"x":[1,2,3],"y":[1,4,9],"type":"scatter"}],"title":"Chart Title"}]`,
+  },
+  displayPhysicsSimulation: {
+    native: `For physics simulations and mechanics demonstrations, use the 'displayPhysicsSimulation' tool:
+
+PREDEFINED PHYSICS SCENARIOS:
+- "collision_demo" - Demonstrates elastic/inelastic collisions with conservation of momentum
+- "spring_system" - Shows simple harmonic motion and spring dynamics
+- "projectile_motion" - Demonstrates parabolic trajectory under gravity
+- "inclined_plane" - Forces and motion on angled surfaces
+- "pendulum" - Simple pendulum with customizable parameters
+- "falling_objects" - Objects falling under gravity with different properties
+
+NATURAL LANGUAGE TO PHYSICS MAPPING:
+- "Two balls colliding" or "collision" → collision_demo
+- "Mass on a spring" or "harmonic motion" → spring_system  
+- "Ball rolling down a ramp" → inclined_plane
+- "Projectile" or "trajectory" → projectile_motion
+- "Pendulum" or "oscillation" → pendulum
+- "Falling" or "gravity" → falling_objects
+
+For predefined scenarios, use minimal parameters:
+{
+  "simulationType": "collision_demo",
+  "simConfig": {},
+  "metadata": {
+    "title": "Collision Demonstration",
+    "description": "Watch two objects collide and observe momentum conservation"
+  }
+}
+
+For custom physics scenarios, use the full configuration system:
+{
+  "simulationType": "custom_matter_js_setup",
+  "simConfig": {
+    "objects": [
+      {
+        "id": "ball1",
+        "type": "ball",
+        "position": {"x": 100, "y": 200},
+        "velocity": {"x": 2, "y": 0},
+        "dimensions": {"radius": 15},
+        "properties": {"mass": 1, "color": "#ff6b6b"}
+      }
+    ],
+    "environment": {
+      "gravity": {"x": 0, "y": 0.98},
+      "boundaries": {"ground": true, "walls": true}
+    }
+  },
+  "metadata": {
+    "title": "Custom Physics Simulation",
+    "educational_context": "Demonstrates specific physics principles"
+  }
+}
+
+Object types: "ball", "box", "polygon"
+Colors: Use hex codes like "#ff6b6b", "#4ecdc4", "#9b59b6"
+Always include educational_context in metadata to explain the physics concept.`,
+    token: `**For Physics Simulations:**
+[NEEDS_VISUALIZATION:{"type":"physics","simulationType":"collision_demo","metadata":{"title":"Physics Demo","description":"Description"}}]`,
+  },
+  performOCR: {
+    native: `## OCR TOOL - FOR IMAGES ONLY
+
+- Use the 'performOCR' tool **ONLY** for extracting text from **images**:
+  * Screenshots of documents, websites, or applications
+  * Photos of handwritten notes, whiteboards, or printed text
+  * Scanned images in formats like JPG, PNG, GIF, BMP, WEBP
+  * Images containing mathematical formulas, equations, or diagrams
+- **NEVER use OCR for uploaded PDF/DOC files** - their text is already extracted during upload
+- OCR is for visual content that needs text extraction, not for processed documents
+
+Example scenarios:
+- ✅ User uploads PDF → Content automatically available via RAG
+- ✅ User shares screenshot of equation → Use performOCR tool
+- ✅ User uploads image of handwritten notes → Use performOCR tool
+- ❌ User uploads PDF → DO NOT use performOCR tool`,
+  },
+};
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getCollection, removeCollectionDocument } from '@/lib/ai/collections';
+
+// DELETE endpoint (owner only) removing a document from a collection. The
+// document itself is kept.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; documentId: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id, documentId: documentIdParam } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to manage collections' },
+        { status: 401 }
+      );
+    }
+
+    const collectionId = parseInt(id);
+    const documentId = parseInt(documentIdParam);
+    if (isNaN(collectionId) || isNaN(documentId)) {
+      return NextResponse.json(
+        { error: 'Invalid collection or document ID' },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getCollection(collectionId, session.user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collection.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can remove documents from this collection' },
+        { status: 403 }
+      );
+    }
+
+    if (!await removeCollectionDocument(collectionId, documentId)) {
+      return NextResponse.json(
+        { error: 'Document is not in this collection' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, collectionId, documentId });
+  } catch (error) {
+    console.error('[Collections] Failed to remove document:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove document from collection' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { addCollectionDocument, getCollection } from '@/lib/ai/collections';
+
+// POST endpoint (owner only) adding a document to a collection. Body:
+// { documentId }. The document must be one the owner can search: their own,
+// public or anonymous.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to manage collections' },
+        { status: 401 }
+      );
+    }
+
+    const collectionId = parseInt(id);
+    if (isNaN(collectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid collection ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const documentId = body?.documentId;
+    if (!Number.isInteger(documentId)) {
+      return NextResponse.json(
+        { error: 'documentId must be a document id' },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getCollection(collectionId, session.user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collection.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can add documents to this collection' },
+        { status: 403 }
+      );
+    }
+
+    if (!await addCollectionDocument(collectionId, documentId, session.user.id)) {
+      return NextResponse.json(
+        { error: 'Document not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, collectionId, documentId }, { status: 201 });
+  } catch (error) {
+    console.error('[Collections] Failed to add document:', error);
+    return NextResponse.json(
+      { error: 'Failed to add document to collection' },
+      { status: 500 }
+    );
+  }
+}
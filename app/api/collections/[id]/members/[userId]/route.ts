@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { getCollection, removeCollectionMember } from '@/lib/ai/collections';
+
+// DELETE endpoint that stops sharing a collection with a user. The owner can
+// remove any member; members can remove themselves.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id, userId } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to manage collections' },
+        { status: 401 }
+      );
+    }
+
+    const collectionId = parseInt(id);
+    if (isNaN(collectionId) || !z.string().uuid().safeParse(userId).success) {
+      return NextResponse.json(
+        { error: 'Invalid collection or user ID' },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getCollection(collectionId, session.user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collection.role !== 'owner' && userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Only the owner can remove other members' },
+        { status: 403 }
+      );
+    }
+
+    if (!await removeCollectionMember(collectionId, userId)) {
+      return NextResponse.json(
+        { error: 'User is not a member of this collection' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, collectionId, userId });
+  } catch (error) {
+    console.error('[Collections] Failed to remove member:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { addCollectionMember, findUserByEmail, getCollection } from '@/lib/ai/collections';
+
+// POST endpoint (owner only) sharing a collection with a registered user.
+// Body: { email }. Members can read and search the collection's documents.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to share collections' },
+        { status: 401 }
+      );
+    }
+
+    const collectionId = parseInt(id);
+    if (isNaN(collectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid collection ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const email = body?.email;
+    if (typeof email !== 'string' || !email.trim()) {
+      return NextResponse.json(
+        { error: 'email is required' },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getCollection(collectionId, session.user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collection.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can share this collection' },
+        { status: 403 }
+      );
+    }
+
+    const member = await findUserByEmail(email);
+    if (!member) {
+      return NextResponse.json(
+        { error: 'No user with that email address' },
+        { status: 404 }
+      );
+    }
+    if (member.userId === collection.ownerId) {
+      return NextResponse.json(
+        { error: 'The owner already has access to this collection' },
+        { status: 400 }
+      );
+    }
+
+    await addCollectionMember(collectionId, member.userId);
+    return NextResponse.json({ success: true, member }, { status: 201 });
+  } catch (error) {
+    console.error('[Collections] Failed to share collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to share collection' },
+      { status: 500 }
+    );
+  }
+}
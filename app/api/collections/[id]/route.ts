@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import {
+  deleteCollection,
+  getCollection,
+  getCollectionDocuments,
+  getCollectionMembers,
+  updateCollection,
+  validateCollectionInput,
+} from '@/lib/ai/collections';
+
+// GET endpoint returning a collection with its documents; the owner also gets
+// the members it is shared with
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id } = await params;
+
+    const collectionId = parseInt(id);
+    if (isNaN(collectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid collection ID' },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getCollection(collectionId, session?.user?.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+
+    const [documents, members] = await Promise.all([
+      getCollectionDocuments(collectionId),
+      collection.role === 'owner' ? getCollectionMembers(collectionId) : undefined,
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      collection: { ...collection, documents, members }
+    });
+  } catch (error) {
+    console.error('[Collections] Failed to fetch collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch collection' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH endpoint (owner only). Body: { name?, description?, isPublic? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to update collections' },
+        { status: 401 }
+      );
+    }
+
+    const collectionId = parseInt(id);
+    if (isNaN(collectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid collection ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { name, description, isPublic } = body ?? {};
+    const invalid = validateCollectionInput({ name, description, isPublic }, false);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const collection = await getCollection(collectionId, session.user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collection.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can update this collection' },
+        { status: 403 }
+      );
+    }
+
+    const updated = await updateCollection(collectionId, { name, description, isPublic });
+    return NextResponse.json({
+      success: true,
+      collection: { ...updated, role: collection.role, documentCount: collection.documentCount }
+    });
+  } catch (error) {
+    console.error('[Collections] Failed to update collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to update collection' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE endpoint (owner only). The documents themselves are kept.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id } = await params;
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to delete collections' },
+        { status: 401 }
+      );
+    }
+
+    const collectionId = parseInt(id);
+    if (isNaN(collectionId)) {
+      return NextResponse.json(
+        { error: 'Invalid collection ID' },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getCollection(collectionId, session.user.id);
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+    if (collection.role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can delete this collection' },
+        { status: 403 }
+      );
+    }
+
+    await deleteCollection(collectionId);
+    return NextResponse.json({
+      success: true,
+      message: `Collection "${collection.name}" deleted`
+    });
+  } catch (error) {
+    console.error('[Collections] Failed to delete collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete collection' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { createCollection, listCollections, validateCollectionInput } from '@/lib/ai/collections';
+
+// GET endpoint listing the collections the user can select: their own, those
+// shared with them and public ones. Anonymous users get public collections.
+export async function GET() {
+  try {
+    const session = await auth();
+    const collections = await listCollections(session?.user?.id);
+
+    return NextResponse.json({
+      success: true,
+      collections,
+      count: collections.length
+    });
+  } catch (error) {
+    console.error('[Collections] Failed to list collections:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch collections' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint creating a collection. Body: { name, description?, isPublic? }
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to create collections' },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { name, description, isPublic } = body ?? {};
+    const invalid = validateCollectionInput({ name, description, isPublic }, true);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const collection = await createCollection(session.user.id, { name, description, isPublic });
+    return NextResponse.json(
+      { success: true, collection: { ...collection, role: 'owner', documentCount: 0 } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('[Collections] Failed to create collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to create collection' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest } from 'next/server'
 import { auth } from '@/auth'
 import { 
+  getConversationById,
   getConversationWithMessages, 
   updateConversation, 
   deleteConversation, 
-  archiveConversation 
+  archiveConversation,
+  listBranches,
+  switchBranch,
+  type ConversationData
 } from '@/lib/db/conversations'
 
 export async function GET(
@@ -19,6 +23,25 @@ export async function GET(
     // For authenticated users, verify ownership
     const userId = session?.user?.id
 
+    // ?branches=<messageId> lists every alternative at that message's position
+    const branchesOf = new URL(request.url).searchParams.get('branches')
+    if (branchesOf) {
+      const conversation = await getConversationById(conversationId, userId)
+      if (!conversation) {
+        return new Response(JSON.stringify({ error: 'Conversation not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      const branches = await listBranches(conversationId, branchesOf)
+      return new Response(JSON.stringify({ branches }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    // messages is the active branch only, root first
     const conversationWithMessages = await getConversationWithMessages(
       conversationId, 
       userId // This will enforce ownership check if userId is provided
@@ -61,11 +84,59 @@ export async function PUT(
 
     const { id: conversationId } = await params
     const body = await request.json()
-    const { title, isArchived } = body
+    const { title, isArchived, summary, activeMessageId } = body
+
+    // Switching branches replaces the active path rather than editing fields
+    if (activeMessageId !== undefined) {
+      if (typeof activeMessageId !== 'string') {
+        return new Response(JSON.stringify({ error: 'activeMessageId must be a string' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      const conversation = await getConversationById(conversationId, session.user.id)
+      const path = conversation ? await switchBranch(conversationId, activeMessageId) : null
+      if (!path) {
+        return new Response(JSON.stringify({ error: 'Message not found' }), {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+
+      // Re-read so the response reflects a summary cleared by the switch
+      return new Response(JSON.stringify({ 
+        conversation: await getConversationWithMessages(conversationId, session.user.id)
+      }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
 
-    const updateData: any = {}
+    const conversation = await getConversationById(conversationId, session.user.id)
+    if (!conversation) {
+      return new Response(JSON.stringify({ error: 'Conversation not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const updateData: Partial<ConversationData> = {}
     if (title !== undefined) updateData.title = title
     if (isArchived !== undefined) updateData.isArchived = isArchived
+    if (summary !== undefined) {
+      if (summary !== null && typeof summary !== 'string') {
+        return new Response(JSON.stringify({ error: 'Summary must be a string or null' }), {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        })
+      }
+      // An edited summary keeps covering the same turns; clearing it lets the
+      // next request rebuild it from the full history
+      updateData.summary = summary?.trim() || null
+      updateData.summaryUpdatedAt = new Date()
+      if (!updateData.summary) updateData.summaryMessageCount = 0
+    }
 
     if (Object.keys(updateData).length === 0) {
       return new Response(JSON.stringify({ error: 'No valid fields to update' }), {
@@ -74,7 +145,7 @@ export async function PUT(
       })
     }
 
-    const updatedConversation = await updateConversation(conversationId, updateData)
+    const updatedConversation = await updateConversation(conversationId, updateData, session.user.id)
 
     if (!updatedConversation) {
       return new Response(JSON.stringify({ error: 'Conversation not found' }), {
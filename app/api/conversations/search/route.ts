@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/auth'
+import { searchMessages } from '@/lib/db/conversations'
+
+// GET /api/conversations/search?q=...&mode=text|semantic&model=...&from=...&to=...&hasToolResults=true&limit=20
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim()
+    if (!query) {
+      return new Response(JSON.stringify({ error: 'q is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return new Response(JSON.stringify({ error: 'from and to must be ISO dates' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : undefined
+
+    const { mode, results } = await searchMessages(session.user.id, {
+      query,
+      mode: searchParams.get('mode') === 'semantic' ? 'semantic' : 'text',
+      model: searchParams.get('model') || undefined,
+      from,
+      to,
+      hasToolResults: searchParams.get('hasToolResults') === 'true',
+      limit: limit && !isNaN(limit) ? limit : undefined,
+    })
+
+    return new Response(JSON.stringify({ mode, results }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (error) {
+    console.error('Error searching conversations:', error)
+    return new Response(JSON.stringify({ error: 'Failed to search conversations' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+}
@@ -2,7 +2,101 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { db } from '@/lib/db';
 import { documents, chunks } from '@/lib/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray, asc, sql } from 'drizzle-orm';
+import { documentReadableBy } from '@/lib/ai/collections';
+import { documentCacheScopes } from '@/lib/ai/documents';
+import { ragCache } from '@/lib/ai/smart-rag-cache';
+
+// GET endpoint for the document viewer: the extracted text, page offsets and
+// chunk boundaries with their retrieval counts. Readable by the owner and, for
+// public, anonymous or shared documents, by anyone who can search them.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const { id: documentId } = await params;
+    const userId = session?.user?.id;
+
+    const docId = parseInt(documentId);
+    if (isNaN(docId)) {
+      return NextResponse.json(
+        { error: 'Invalid document ID' },
+        { status: 400 }
+      );
+    }
+
+    const [document] = await db
+      .select({
+        id: documents.id,
+        userId: documents.userId,
+        title: documents.title,
+        content: documents.content,
+        isPublic: documents.isPublic,
+        version: documents.version,
+        chunkingOptions: documents.chunkingOptions,
+        createdAt: documents.createdAt,
+        updatedAt: documents.updatedAt,
+      })
+      .from(documents)
+      .where(and(
+        eq(documents.id, docId),
+        documentReadableBy(userId)
+      ));
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    const [documentChunks, [newerVersion]] = await Promise.all([
+      db
+        .select({
+          id: chunks.id,
+          startOffset: chunks.startOffset,
+          endOffset: chunks.endOffset,
+          pageNumber: chunks.pageNumber,
+          sectionPath: chunks.sectionPath,
+          tokenCount: chunks.tokenCount,
+          ocrConfidence: chunks.ocrConfidence,
+          retrievalCount: chunks.retrievalCount,
+          lastRetrievedAt: chunks.lastRetrievedAt,
+          // Chunks stored before offsets were kept can't be located in the text
+          content: sql<string | null>`case when ${chunks.startOffset} is null then ${chunks.content} end`,
+        })
+        .from(chunks)
+        .where(eq(chunks.documentId, docId))
+        .orderBy(sql`${chunks.startOffset} asc nulls last`, asc(chunks.id)),
+      // Superseded versions keep their text but no chunks
+      db
+        .select({ id: documents.id })
+        .from(documents)
+        .where(eq(documents.previousVersionId, docId))
+        .limit(1),
+    ]);
+
+    const { chunkingOptions, userId: ownerId, ...rest } = document;
+    return NextResponse.json({
+      success: true,
+      document: {
+        ...rest,
+        isOwner: !!userId && ownerId === userId,
+        pageOffsets: chunkingOptions?.pageOffsets ?? null,
+        newerVersionId: newerVersion?.id ?? null,
+      },
+      chunks: documentChunks,
+    });
+  } catch (error) {
+    console.error('Error fetching document:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document' },
+      { status: 500 }
+    );
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
@@ -44,15 +138,31 @@ export async function DELETE(
       );
     }
 
+    // Earlier versions of the document go with it
+    const versionIds = [docId];
+    let previousVersionId = document.previousVersionId;
+    while (previousVersionId !== null && !versionIds.includes(previousVersionId)) {
+      versionIds.push(previousVersionId);
+      const [previous] = await db
+        .select({ previousVersionId: documents.previousVersionId })
+        .from(documents)
+        .where(eq(documents.id, previousVersionId));
+      previousVersionId = previous?.previousVersionId ?? null;
+    }
+
+    // Looked up first: the collection memberships go with the document
+    const cacheScopes = await documentCacheScopes(versionIds);
+
     // Delete associated chunks first (due to foreign key constraint)
     await db
       .delete(chunks)
-      .where(eq(chunks.documentId, docId));
+      .where(inArray(chunks.documentId, versionIds));
 
     // Delete the document
     await db
       .delete(documents)
-      .where(eq(documents.id, docId));
+      .where(inArray(documents.id, versionIds));
+    await ragCache.invalidate(cacheScopes);
 
     return NextResponse.json({
       success: true,
@@ -125,6 +235,10 @@ export async function PATCH(
       );
     }
 
+    // Searches of everyone who could see the document before the change, and
+    // everyone's once it is public
+    const cacheScopes = await documentCacheScopes([docId]);
+
     const [updatedDocument] = await db
       .update(documents)
       .set({
@@ -133,6 +247,7 @@ export async function PATCH(
       })
       .where(eq(documents.id, docId))
       .returning();
+    await ragCache.invalidate(updatedDocument.isPublic ? 'all' : cacheScopes);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { getIngestionJob, retryIngestionJob, runIngestionQueue, type IngestionJob } from '@/lib/ai/ingestion';
+
+// Jobs of anonymous uploads are reachable by anyone holding the job id. Ids
+// that aren't UUIDs can't name a job, and would fail the uuid column lookup.
+async function findAccessibleJob(jobId: string): Promise<IngestionJob | null> {
+  if (!z.string().uuid().safeParse(jobId).success) return null;
+  const session = await auth();
+  const job = await getIngestionJob(jobId);
+  if (!job) return null;
+  if (job.userId && job.userId !== session?.user?.id) return null;
+  return job;
+}
+
+// GET endpoint for an ingestion job's status and progress
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await findAccessibleJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Ingestion job not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    // Pick the job up if the instance that queued it went away
+    if (job.status === 'queued') {
+      after(() => runIngestionQueue());
+    }
+
+    return NextResponse.json({ success: true, job });
+  } catch (error) {
+    console.error('Error fetching ingestion job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ingestion job' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST endpoint to retry a failed ingestion job
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const job = await findAccessibleJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Ingestion job not found or access denied' },
+        { status: 404 }
+      );
+    }
+
+    if (job.status !== 'failed') {
+      return NextResponse.json(
+        { error: `Only failed jobs can be retried (job is ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    const retried = await retryIngestionJob(job.id);
+    if (!retried) {
+      return NextResponse.json(
+        { error: 'The uploaded file is no longer available. Please upload it again.' },
+        { status: 410 }
+      );
+    }
+    after(() => runIngestionQueue());
+
+    return NextResponse.json({
+      success: true,
+      job: retried,
+      message: `Retrying "${retried.fileName}"`
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error retrying ingestion job:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry ingestion job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { listIngestionJobs } from '@/lib/ai/ingestion';
+
+// GET endpoint to list the user's recent ingestion jobs
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required to view ingestion jobs' },
+        { status: 401 }
+      );
+    }
+
+    const jobs = await listIngestionJobs(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      count: jobs.length
+    });
+  } catch (error) {
+    console.error('Error fetching ingestion jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ingestion jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,52 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { addDocument } from '../../../lib/ai/documents';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createIngestionJob, runIngestionQueue } from '../../../lib/ai/ingestion';
+import { findExtractor, supportedExtensions } from '../../../lib/ai/extractors';
+import { isLatestVersion } from '../../../lib/ai/documents';
+import { getEmbeddingProvider } from '../../../lib/ai/embedding';
 import { trackAPIPerformance } from '../../../lib/analytics/api-performance-middleware';
 import { auth } from '@/auth';
 import { db } from '@/lib/db';
 import { documents } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
-import pdf from 'pdf-parse';
-
-// Text sanitization function to remove problematic characters for PostgreSQL
-function sanitizeTextForDatabase(text: string): string {
-  if (!text || typeof text !== 'string') {
-    return '';
-  }
-
-  try {
-    // Remove null bytes (0x00) and other control characters that PostgreSQL can't handle
-    let sanitized = text
-      // Remove null bytes
-      .replace(/\x00/g, '')
-      // Remove other problematic control characters but keep common ones like \n, \r, \t
-      .replace(/[\x01-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
-      // Normalize Unicode and handle potential encoding issues
-      .normalize('NFKC')
-      // Remove any remaining problematic sequences
-      .replace(/\uFFFD/g, '') // Replace unicode replacement characters
-      .replace(/\0/g, ''); // Additional null byte cleanup
-
-    // Ensure the text is valid UTF-8 by encoding and decoding
-    const buffer = Buffer.from(sanitized, 'utf8');
-    sanitized = buffer.toString('utf8');
-
-    // Trim excessive whitespace but preserve paragraph structure
-    sanitized = sanitized
-      .replace(/\r\n/g, '\n') // Normalize line endings
-      .replace(/\r/g, '\n')
-      .replace(/\n{3,}/g, '\n\n') // Limit consecutive newlines
-      .trim();
-
-    return sanitized;
-  } catch (error) {
-    console.error('Error sanitizing text:', error);
-    // If sanitization fails, try basic cleanup
-    return text
-      .replace(/\x00/g, '')
-      .replace(/[\x01-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
-      .trim();
-  }
-}
+import { consumeQuota, quotaExceededResponse, quotaHeaders } from '@/lib/usage/quotas';
 
 // GET endpoint to list user's documents
 async function getDocumentsHandler(req: NextRequest) {
@@ -65,11 +27,16 @@ async function getDocumentsHandler(req: NextRequest) {
         id: documents.id,
         title: documents.title,
         isPublic: documents.isPublic,
+        version: documents.version,
         createdAt: documents.createdAt,
         updatedAt: documents.updatedAt,
       })
       .from(documents)
-      .where(eq(documents.userId, session.user.id))
+      // Only the latest version of each document
+      .where(and(
+        eq(documents.userId, session.user.id),
+        isLatestVersion()
+      ))
       .orderBy(documents.createdAt);
 
     return NextResponse.json({
@@ -113,6 +80,19 @@ async function documentsHandler(req: NextRequest) {
       );
     }
 
+    // Fail now rather than after the upload is queued
+    try {
+      getEmbeddingProvider();
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: 'Embeddings are not configured.',
+          details: error instanceof Error ? error.message : undefined
+        },
+        { status: 503 }
+      );
+    }
+
     const formData = await req.formData();
     const file = formData.get('file') as File;
     
@@ -123,14 +103,15 @@ async function documentsHandler(req: NextRequest) {
       );
     }
 
-    // Validate file type
-    const allowedTypes = ['text/plain', 'application/pdf', 
-                         'application/msword', 
-                         'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    
-    if (!allowedTypes.includes(file.type) && !file.name.match(/\.(txt|pdf|doc|docx)$/i)) {
+    // Validate file type against the registered extractors
+    if (!findExtractor(file.name, file.type)) {
       return NextResponse.json(
-        { error: 'Unsupported file type. Please upload PDF, TXT, DOC, or DOCX files.' },
+        {
+          error: `Unsupported file type. Supported formats: ${supportedExtensions().join(', ')}`,
+          details: file.name.toLowerCase().endsWith('.doc')
+            ? 'Legacy Word .doc files are not supported. Save the file as .docx or PDF.'
+            : undefined
+        },
         { status: 400 }
       );
     }
@@ -144,125 +125,42 @@ async function documentsHandler(req: NextRequest) {
       );
     }
 
-    // Extract text content based on file type
-    let fileContent: string;
-    let processingMethod: string;
-    
-    try {
-      if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
-        // Handle PDF files by extracting text
-        processingMethod = 'PDF text extraction';
-        const arrayBuffer = await file.arrayBuffer();
-        const pdfData = await pdf(arrayBuffer);
-        
-        // Clean the extracted text to remove null bytes and problematic characters
-        const rawText = pdfData.text || '';
-        fileContent = sanitizeTextForDatabase(rawText);
-        
-        // Verify that we actually extracted meaningful content
-        if (!fileContent.trim()) {
-          return NextResponse.json(
-            { 
-              error: 'No readable text could be extracted from the PDF.',
-              details: 'The PDF may be image-based, corrupted, or password-protected. Please try a different PDF or convert it to text format.'
-            },
-            { status: 400 }
-          );
-        }
-        
-        console.log(`PDF processed: ${pdfData.numpages} pages, ${rawText.length} raw characters, ${fileContent.length} cleaned characters`);
-        
-      } else if (file.type === 'text/plain' || file.name.toLowerCase().endsWith('.txt')) {
-        // Handle text files normally - also sanitize to be safe
-        processingMethod = 'Text file reading';
-        const rawText = await file.text();
-        fileContent = sanitizeTextForDatabase(rawText);
-        
-      } else if (file.name.toLowerCase().match(/\.(doc|docx)$/)) {
-        // Read as text (limited support for binary Word docs)
-        processingMethod = 'Document file reading (limited support)';
-        try {
-          const rawText = await file.text();
-          fileContent = sanitizeTextForDatabase(rawText);
-        } catch (error) {
-          return NextResponse.json(
-            { 
-              error: 'Word document processing not fully supported yet.',
-              details: 'Please convert to PDF or TXT format for best results.'
-            },
-            { status: 400 }
-          );
-        }
-        
-      } else {
-        // Fallback to text reading - also sanitize
-        processingMethod = 'Generic text extraction';
-        const rawText = await file.text();
-        fileContent = sanitizeTextForDatabase(rawText);
-      }
-      
-    } catch (extractionError) {
-      console.error('File content extraction error:', extractionError);
-      return NextResponse.json(
-        { 
-          error: 'Failed to extract text from file.',
-          details: extractionError instanceof Error ? extractionError.message : 'File format may not be supported or file may be corrupted.'
-        },
-        { status: 400 }
-      );
-    }
-    
-    // Validate content
-    if (!fileContent.trim()) {
-      return NextResponse.json(
-        { error: 'File appears to be empty or no text could be extracted.' },
-        { status: 400 }
-      );
-    }
-
-    // Additional validation to ensure content is safe for database storage
-    if (fileContent.includes('\x00')) {
-      return NextResponse.json(
-        { 
-          error: 'Text extraction failed - file contains binary data.',
-          details: 'The extracted text contains null bytes that cannot be stored in the database. This may indicate the file is corrupted or contains binary content.'
-        },
-        { status: 400 }
-      );
+    const quota = await consumeQuota(req, session?.user, 'uploads');
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota);
     }
 
-    // Use filename as title
-    const title = file.name;
-    
-    console.log(`Processing document: ${title}, Method: ${processingMethod}, Content length: ${fileContent.length} characters`);
-    
-    // Add document to database with embeddings and user context
+    // Extraction, chunking and embedding run in the background; the client
+    // polls statusUrl for progress
     const userId = session?.user?.id || null; // Allow anonymous uploads but track them
-    const documentId = await addDocument(title, fileContent, userId);
-    
-    // Check if addDocument actually succeeded
-    if (!documentId) {
-      return NextResponse.json(
-        { 
-          error: 'Failed to process document. Database connection or embedding generation failed.',
-          details: 'Please check your DATABASE_URL and OPENAI_API_KEY configuration.'
-        },
-        { status: 500 }
-      );
-    }
-    
-    return NextResponse.json({ 
-      success: true, 
-      documentId,
-      message: `Document "${title}" uploaded and processed successfully`,
+    const job = await createIngestionJob({
+      userId,
+      fileName: file.name,
+      fileType: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+    after(() => runIngestionQueue());
+
+    // A file the user already uploaded completes at once with the stored document
+    const duplicate = job.outcome === 'duplicate';
+    console.log(duplicate
+      ? `Duplicate document: ${file.name}, Job: ${job.id}, Document: ${job.documentId}`
+      : `Queued document: ${file.name}, Job: ${job.id}, Size: ${file.size} bytes`);
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/documents/jobs/${job.id}`,
+      duplicate,
+      documentId: job.documentId,
+      message: duplicate
+        ? `Document "${file.name}" was already uploaded`
+        : `Document "${file.name}" uploaded and queued for processing`,
       fileSize: file.size,
-      charactersProcessed: fileContent.length,
-      processingMethod,
       userContext: userId ? 'authenticated' : 'anonymous',
-      privacyNote: userId ? 'This document is private to your account' : 'This document is anonymous and may be accessible to other users',
-      extractedTextPreview: fileContent.length > 500 ? fileContent.substring(0, 500) + '...' : fileContent,
-      hasMoreContent: fileContent.length > 500
-    });
+      privacyNote: userId ? 'This document is private to your account' : 'This document is anonymous and may be accessible to other users'
+    }, { status: duplicate ? 200 : 202, headers: quotaHeaders(quota) });
   } catch (error) {
     console.error('Error uploading document:', error);
     
@@ -276,7 +174,7 @@ async function documentsHandler(req: NextRequest) {
         details = 'Please check your DATABASE_URL configuration in .env.local';
       } else if (error.message.includes('OpenAI') || error.message.includes('embedding')) {
         errorMessage = 'AI processing failed';
-        details = 'Please check your OPENAI_API_KEY configuration in .env.local';
+        details = 'Please check your embedding provider configuration (RAG_EMBEDDING_PROVIDER) in .env.local';
       } else if (error.message.includes('invalid byte sequence') || error.message.includes('UTF8') || error.message.includes('null value') || error.message.includes('0x00')) {
         errorMessage = 'File encoding issue - null bytes detected';
         details = 'The file contains binary data (null bytes) that cannot be stored in PostgreSQL. This often happens with corrupted PDFs or files that contain embedded binary content. Try: 1) Re-saving the PDF, 2) Converting to a different format, or 3) Using a different PDF viewer to export as text.';
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { executeOCR } from '../../../lib/ai/tools/ocrTool';
 import { trackAPIPerformance } from '../../../lib/analytics/api-performance-middleware';
+import { consumeQuota, quotaExceededResponse, quotaHeaders } from '../../../lib/usage/quotas';
+import { auth } from '@/auth';
 
 async function ocrHandler(req: NextRequest) {
   try {
@@ -32,6 +34,12 @@ async function ocrHandler(req: NextRequest) {
       );
     }
 
+    const session = await auth();
+    const quota = await consumeQuota(req, session?.user, 'ocr');
+    if (!quota.allowed) {
+      return quotaExceededResponse(quota);
+    }
+
     // Convert file to base64
     const arrayBuffer = await file.arrayBuffer();
     const base64Data = Buffer.from(arrayBuffer).toString('base64');
@@ -63,7 +71,7 @@ async function ocrHandler(req: NextRequest) {
       originalSize: result.originalSize,
       optimizedSize: result.optimizedSize,
       message: `Successfully extracted text from "${file.name}"`
-    });
+    }, { headers: quotaHeaders(quota) });
 
   } catch (error: unknown) {
     console.error('OCR processing error:', error);
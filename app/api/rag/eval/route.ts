@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { z } from 'zod';
+import { auth } from '@/auth';
+import { getQuotaTier } from '@/lib/usage/quotas';
+import { createEmbeddingProvider } from '@/lib/ai/embedding-providers';
+import {
+  compareEvalRuns,
+  getEvalRun,
+  listEvalRuns,
+  MAX_EVAL_K,
+  parseEvalDataset,
+  previousEvalRun,
+  readEvalDataset,
+  resolveEvalPath,
+  runEval,
+  saveEvalRun,
+  type EvalDataset,
+} from '@/lib/ai/rag-eval';
+
+const MAX_LIST = 100;
+
+const bodySchema = z.object({
+  // Inline dataset, or a dataset file inside the project (e.g. test/eval/stem-basics.json)
+  dataset: z.unknown().optional(),
+  datasetPath: z.string().min(1).optional(),
+  mode: z.enum(['offline', 'database']).optional(),
+  k: z.number().int().min(1).max(MAX_EVAL_K).optional(),
+  label: z.string().max(255).optional(),
+  options: z.object({
+    vectorWeight: z.number().min(0).optional(),
+    lexicalWeight: z.number().min(0).optional(),
+    similarityThreshold: z.number().min(-1).max(1).optional(),
+    rrfK: z.number().positive().optional(),
+  }).optional(),
+  chunking: z.object({
+    chunkTokens: z.number().int().min(16).max(8192).optional(),
+    overlapTokens: z.number().int().min(0).max(4096).optional(),
+  }).optional(),
+  save: z.boolean().optional().default(true),
+}).refine(body => (body.dataset === undefined) !== (body.datasetPath === undefined), 'Provide either dataset or datasetPath');
+
+async function requireAdmin() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  if (getQuotaTier(session.user) !== 'admin') {
+    return { response: NextResponse.json({ error: 'Admin access required' }, { status: 403 }) };
+  }
+  return { userId: session.user.id };
+}
+
+// POST endpoint (admins only) that runs a golden question set and reports
+// recall@k, MRR and nDCG@k. Body: { dataset | datasetPath, mode?, k?, label?,
+// options?, chunking?, save? }. Offline runs index the dataset's own corpus
+// with the local embedding provider, like scripts/rag-eval.ts, and work without
+// RAG_ENABLED; unlike the script, they extract and rerank with the deployment's
+// settings (PDF OCR, llm reranker). Database runs search the documents the
+// admin can see. Saved runs are compared with the previous run of the same
+// dataset and mode.
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (admin.response) return admin.response;
+
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message ?? 'Invalid request' },
+        { status: 400 }
+      );
+    }
+    const body = parsed.data;
+
+    const root = process.cwd();
+    let dataset: EvalDataset;
+    let baseDir = root;
+    try {
+      if (body.datasetPath) {
+        const file = resolveEvalPath(body.datasetPath, root, root);
+        dataset = await readEvalDataset(file);
+        baseDir = path.dirname(file);
+      } else {
+        dataset = parseEvalDataset(body.dataset);
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid evaluation dataset' },
+        { status: 400 }
+      );
+    }
+
+    const mode = body.mode ?? (dataset.documents.length > 0 ? 'offline' : 'database');
+    if (mode === 'offline' && dataset.documents.length === 0) {
+      return NextResponse.json(
+        { error: 'Offline evaluation needs the dataset to list its corpus documents' },
+        { status: 400 }
+      );
+    }
+    if (mode === 'database' && process.env.RAG_ENABLED !== 'true') {
+      return NextResponse.json(
+        { error: 'RAG is not enabled' },
+        { status: 400 }
+      );
+    }
+
+    const run = await runEval(dataset, {
+      mode,
+      k: body.k,
+      label: body.label,
+      search: body.options,
+      chunking: body.chunking,
+      embeddingProvider: mode === 'offline' ? createEmbeddingProvider('local') : undefined,
+      userId: admin.userId,
+      baseDir,
+      root,
+    });
+
+    if (!body.save) {
+      return NextResponse.json({ success: true, run });
+    }
+
+    const stored = await saveEvalRun(run, admin.userId);
+    const baseline = await previousEvalRun(stored.dataset, mode, stored.id);
+
+    return NextResponse.json({
+      success: true,
+      run: stored,
+      comparison: baseline ? compareEvalRuns(run, { ...baseline, mode: baseline.mode as typeof mode }) : null,
+    });
+  } catch (error) {
+    console.error('[RAG Eval] Evaluation failed:', error);
+    return NextResponse.json(
+      { error: 'Evaluation failed', details: error instanceof Error ? error.message : undefined },
+      { status: 500 }
+    );
+  }
+}
+
+// GET endpoint (admins only): stored runs, latest first (?dataset=, ?limit=),
+// or a single run with its per-question results (?id=)
+export async function GET(req: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (admin.response) return admin.response;
+
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get('id');
+    if (id !== null) {
+      const runId = parseInt(id, 10);
+      if (isNaN(runId)) {
+        return NextResponse.json({ error: 'Invalid run ID' }, { status: 400 });
+      }
+      const run = await getEvalRun(runId);
+      if (!run) {
+        return NextResponse.json({ error: 'Evaluation run not found' }, { status: 404 });
+      }
+      return NextResponse.json({ run });
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    if (isNaN(limit) || limit <= 0 || limit > MAX_LIST) {
+      return NextResponse.json({ error: `Invalid limit (1-${MAX_LIST})` }, { status: 400 });
+    }
+
+    const runs = await listEvalRuns(searchParams.get('dataset'), limit);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('[RAG Eval] Failed to list evaluation runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list evaluation runs', details: error instanceof Error ? error.message : undefined },
+      { status: 500 }
+    );
+  }
+}
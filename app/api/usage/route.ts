@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getQuotaTier, getUsageSnapshot } from '@/lib/usage/quotas';
+import { getCostSummary } from '@/lib/usage/cost-ledger';
+
+// Quota usage and token costs for the signed-in user. Admins can pass
+// ?scope=all for team-wide cost rollups (used by the analytics dashboard).
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const scope = searchParams.get('scope') === 'all' ? 'all' : 'user';
+    const days = parseInt(searchParams.get('days') || '30', 10);
+
+    if (isNaN(days) || days <= 0 || days > 365) {
+      return NextResponse.json(
+        { error: 'Invalid days parameter (1-365)' },
+        { status: 400 }
+      );
+    }
+
+    if (scope === 'all') {
+      if (getQuotaTier(session.user) !== 'admin') {
+        return NextResponse.json(
+          { error: 'Admin access required' },
+          { status: 403 }
+        );
+      }
+
+      const costs = await getCostSummary({ days });
+      return NextResponse.json({ success: true, scope, costs });
+    }
+
+    const [usage, costs] = await Promise.all([
+      getUsageSnapshot(session.user),
+      getCostSummary({ userId: session.user.id, days }),
+    ]);
+    return NextResponse.json({ success: true, scope, usage, costs });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo, ChangeEvent } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useState, useEffect, useCallback, useMemo, useRef, ChangeEvent } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import { useChat, Message as VercelMessage } from '@ai-sdk/react';
+import type { ToolInvocation } from 'ai';
 import ChatInput from '../../../components/ChatInput';
 import ChatMessages from '../../../components/ChatMessages';
 import { ChatGPTLayout } from '../../../components/chat/ChatGPTLayout';
@@ -12,11 +13,11 @@ import { toast } from 'sonner';
 import { track } from '@vercel/analytics';
 import { ChatFlowTracker, trackError } from '@/lib/analytics/event-tracking';
 import { RealDataCollector } from '@/lib/analytics/real-data-collector';
-import { TypingIndicator } from '../../../components/ui/LoadingStates';
 import { useAppStore } from '@/lib/store/app-store';
+import { DEFAULT_MODEL_ID, isKnownModel } from '@/lib/ai/model-registry';
+import { sourcesToAnnotations } from '@/lib/ai/citations';
 
 type Message = VercelMessage;
-type ModelType = 'grok-3-mini' | 'gemini-1.5-flash-latest' | 'gpt-4o' | 'claude-3-haiku-20240307' | 'o4-mini';
 
 interface ConversationData {
   id: string
@@ -24,19 +25,46 @@ interface ConversationData {
   model: string
   createdAt: string
   updatedAt: string
+  activeLeafId?: string | null
+  collectionIds?: number[] | null
+  // The active branch, root first
   messages: Array<{
     id: string
+    parentId?: string | null
+    siblingIds?: string[]
     role: 'user' | 'assistant' | 'system'
     content: string
     createdAt: string
     parts?: any[]
+    // Restored from tool_invocations so visualizations render again
+    toolInvocations?: ToolInvocation[]
     tokenUsage?: any
     metadata?: any
   }>
 }
 
+type StoredMessage = ConversationData['messages'][number];
+
+function toChatMessages(stored: StoredMessage[]): Message[] {
+  return stored.map((msg) => ({
+    id: msg.id,
+    role: msg.role,
+    content: msg.content,
+    parts: msg.parts || [{ type: 'text' as const, text: msg.content }],
+    toolInvocations: msg.toolInvocations,
+    annotations: sourcesToAnnotations(msg.metadata),
+    createdAt: new Date(msg.createdAt),
+  }));
+}
+
+function toBranches(stored: StoredMessage[]): Record<string, string[]> {
+  return Object.fromEntries(stored.map((msg) => [msg.id, msg.siblingIds ?? [msg.id]]));
+}
+
 export default function ConversationPage() {
   const params = useParams();
+  // Set when arriving from a sidebar search result
+  const focusMessageId = useSearchParams().get('message') ?? undefined;
   const router = useRouter();
   const { data: session } = useSession();
   const conversationId = params.id as string;
@@ -53,15 +81,35 @@ export default function ConversationPage() {
   );
   const [sessionStartTime] = useState<number>(Date.now());
   const realDataCollector = RealDataCollector.getInstance();
+  const [branches, setBranches] = useState<Record<string, string[]>>({});
+  // Undefined until the conversation loads, so its saved selection is kept
+  const [collectionIds, setCollectionIds] = useState<number[] | undefined>(undefined);
+  // Edit/regenerate in flight: the message it replaces and, for edits, the new
+  // user message id (a regenerated reply's id is only known once it streams)
+  const pendingForkRef = useRef<{ replacedId: string; newId?: string } | null>(null);
+
+  const addBranch = useCallback((replacedId: string, newId: string) => {
+    setBranches((previous) => {
+      const siblingIds = [...(previous[replacedId] ?? [replacedId]), newId];
+      return { ...previous, ...Object.fromEntries(siblingIds.map((id) => [id, siblingIds])) };
+    });
+  }, []);
 
   const chatBody = useMemo(() => ({
     model: selectedModel,
     conversationId: conversationId,
-  }), [selectedModel, conversationId]);
+    collectionIds,
+  }), [selectedModel, conversationId, collectionIds]);
 
   const onFinishHandler = useCallback((message: Message) => {
     console.log('[ConversationPage] onFinish called with message:', message);
     track('ChatResponded', { model: selectedModel, messageId: message.id });
+
+    const fork = pendingForkRef.current;
+    if (fork) {
+      pendingForkRef.current = null;
+      addBranch(fork.replacedId, fork.newId ?? message.id);
+    }
     
     const responseTime = performance.now() - ((window as unknown as { lastMessageTime?: number }).lastMessageTime || 0);
     ChatFlowTracker.aiResponseReceived({
@@ -101,10 +149,11 @@ export default function ConversationPage() {
       tool_count: message.toolInvocations?.length || 0,
       conversationId: conversationId,
     }, `/chat/${conversationId}`);
-  }, [selectedModel, conversationId, realDataCollector]);
+  }, [selectedModel, conversationId, realDataCollector, addBranch]);
 
   const onErrorHandler = useCallback((err: Error) => {
     console.error('[ConversationPage] Chat error from onError callback:', err);
+    pendingForkRef.current = null;
     toast.error(`Chat error: ${err.message}`);
     track('ChatError', { model: selectedModel, error: err.message, conversationId });
     trackError(err, 'ConversationPage', true);
@@ -127,6 +176,10 @@ export default function ConversationPage() {
     id: conversationId,
     onFinish: onFinishHandler,
     onError: onErrorHandler,
+    // Ids are sent along and reused for the saved rows, so messages sent in
+    // this session can be edited without reloading
+    generateId: () => crypto.randomUUID(),
+    sendExtraMessageFields: true,
   });
 
   useEffect(() => {
@@ -145,20 +198,26 @@ export default function ConversationPage() {
         }
 
         const data = await response.json();
-        const conversation = data.conversation;
+        let conversation = data.conversation;
+
+        // A search result may sit on a branch other than the active one
+        if (focusMessageId && !conversation.messages.some((msg: StoredMessage) => msg.id === focusMessageId)) {
+          const switched = await fetch(`/api/conversations/${conversationId}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ activeMessageId: focusMessageId }),
+          });
+          if (switched.ok) {
+            conversation = (await switched.json()).conversation;
+          }
+        }
         
         setConversationData(conversation);
-        setSelectedModel(conversation.model as ModelType || 'grok-3-mini');
-        
-        const convertedMessages: Message[] = conversation.messages.map((msg: any) => ({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          parts: msg.parts || [{ type: 'text' as const, text: msg.content }],
-          createdAt: new Date(msg.createdAt),
-        }));
+        setSelectedModel(isKnownModel(conversation.model) ? conversation.model : DEFAULT_MODEL_ID);
+        setCollectionIds(conversation.collectionIds ?? []);
         
-        setMessages(convertedMessages);
+        setMessages(toChatMessages(conversation.messages));
+        setBranches(toBranches(conversation.messages));
         
         realDataCollector.storeUserEvent('conversation_loaded', {
           conversationId,
@@ -178,7 +237,7 @@ export default function ConversationPage() {
     if (conversationId && setMessages) {
       loadConversation();
     }
-  }, [conversationId, router, realDataCollector, setMessages, setSelectedModel]);
+  }, [conversationId, focusMessageId, router, realDataCollector, setMessages, setSelectedModel]);
 
   const handleFileUploadCallback = useCallback((files: File[]) => {
     if (!files || files.length === 0) {
@@ -210,6 +269,56 @@ export default function ConversationPage() {
     originalHandleSubmit(e, options);
   };
 
+  const handleSwitchBranch = useCallback(async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ activeMessageId: messageId }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to switch branch');
+      }
+
+      const data = await response.json();
+      setMessages(toChatMessages(data.conversation.messages));
+      setBranches(toBranches(data.conversation.messages));
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      toast.error('Failed to switch branch');
+    }
+  }, [conversationId, setMessages]);
+
+  // Both forks resend the history up to the replaced message; the server saves
+  // the new message next to it instead of overwriting it
+  const handleEditMessage = useCallback((messageId: string, content: string) => {
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1) return;
+
+    const newId = crypto.randomUUID();
+    pendingForkRef.current = { replacedId: messageId, newId };
+    (window as unknown as { lastMessageTime?: number }).lastMessageTime = performance.now();
+    track('MessageEdited', { model: selectedModel, conversationId });
+
+    setMessages(messages.slice(0, index));
+    append({ id: newId, role: 'user', content }, { body: { branch: { type: 'edit', messageId } } });
+  }, [messages, setMessages, append, selectedModel, conversationId]);
+
+  const handleRegenerate = useCallback((messageId: string) => {
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1) return;
+
+    pendingForkRef.current = { replacedId: messageId };
+    (window as unknown as { lastMessageTime?: number }).lastMessageTime = performance.now();
+    track('MessageRegenerated', { model: selectedModel, conversationId });
+
+    setMessages(messages.slice(0, index));
+    reload({ body: { branch: { type: 'regenerate', messageId } } });
+  }, [messages, setMessages, reload, selectedModel, conversationId]);
+
+  // Branches are only saved for signed-in users
+  const canBranch = !!session?.user;
+
   if (isLoadingConversation) {
     return (
       <ChatGPTLayout currentConversationId={conversationId}>
@@ -236,9 +345,16 @@ export default function ConversationPage() {
             </div>
           </div>
         ) : (
-          <ChatMessages messages={messages} />
+          <ChatMessages
+            messages={messages}
+            branches={branches}
+            onSwitchBranch={canBranch ? handleSwitchBranch : undefined}
+            onEditMessage={canBranch ? handleEditMessage : undefined}
+            onRegenerate={canBranch ? handleRegenerate : undefined}
+            focusMessageId={focusMessageId}
+            isLoading={isLoading}
+          />
         )}
-        {isLoading && messages.length > 0 && <TypingIndicator />}
       </ChatMainArea>
       <div className="p-4 bg-background-secondary">
         <ChatInput
@@ -248,6 +364,8 @@ export default function ConversationPage() {
           isLoading={isLoading}
           stop={stop}
           onFileUpload={handleFileUploadCallback}
+          collectionIds={collectionIds}
+          onCollectionsChange={setCollectionIds}
         />
       </div>
     </ChatGPTLayout>
@@ -10,6 +10,8 @@ import { ChatMessages } from '../../components/chat-messages';
 import { ChatInput } from '../../components/chat-input';
 import { ChatSidebar } from '../../components/chat-sidebar';
 import { WelcomeScreen } from '../../components/welcome-screen';
+import { DEFAULT_MODEL_ID } from '../../lib/ai/model-registry';
+import { describeJob, waitForIngestionJob } from '../../lib/ai/ingestion-client';
 
 type Message = VercelMessage;
 
@@ -40,10 +42,11 @@ function saveSessions(sessions: ChatSession[]) {
 
 export default function ChatPage() {
   const [chatId, setChatId] = useState<string>('');
-  const [selectedModel, setSelectedModel] = useState('deepseek-chat');
+  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL_ID);
   const [isUploading, setIsUploading] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [collectionIds, setCollectionIds] = useState<number[]>([]);
 
   const {
     messages,
@@ -58,7 +61,7 @@ export default function ChatPage() {
     setInput,
   } = useChat({
     api: '/api/chat',
-    body: { model: selectedModel },
+    body: { model: selectedModel, collectionIds },
     id: chatId,
     onFinish: (message) => {
       track('ChatResponded', { model: selectedModel, messageId: message.id });
@@ -208,11 +211,21 @@ export default function ChatPage() {
               });
               toast.success(`OCR completed for ${file.name}`);
             } else {
+              // The document is searchable once its ingestion job completes
+              const toastId = toast.loading(`Processing ${file.name}...`);
+              const job = await waitForIngestionJob(result.jobId, (update) => {
+                toast.loading(`${file.name}: ${describeJob(update)}`, { id: toastId });
+              });
+              toast.dismiss(toastId);
+              if (job.status === 'failed') {
+                throw new Error(job.error || 'Processing failed');
+              }
+
               toast.success(`${file.name} uploaded successfully!`);
               append({
                 id: uuidv4(),
                 role: 'user',
-                content: `I have uploaded the document "${file.name}". Please summarize its key points. (Context: Document just uploaded, ID: ${result.documentId})`,
+                content: `I have uploaded the document "${file.name}". Please summarize its key points. (Context: Document just uploaded, ID: ${job.documentId})`,
                 parts: [
                   {
                     type: 'text',
@@ -287,6 +300,8 @@ export default function ChatPage() {
           disabled={isUploading}
           onFileUpload={handleFileUpload}
           isUploading={isUploading}
+          collectionIds={collectionIds}
+          onCollectionsChange={setCollectionIds}
         />
       </div>
     </div>
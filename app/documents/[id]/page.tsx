@@ -0,0 +1,322 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { Button } from '@/components/ui/button';
+import { Typography } from '@/components/ui/Typography';
+import { Card } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/badge';
+import MarkdownRenderer from '@/components/MarkdownRenderer';
+
+interface ViewerDocument {
+  id: number;
+  title: string;
+  content: string;
+  isPublic: boolean;
+  isOwner: boolean;
+  version: number;
+  pageOffsets: number[] | null;
+  newerVersionId: number | null;
+  createdAt: string;
+}
+
+interface ViewerChunk {
+  id: number;
+  startOffset: number | null;
+  endOffset: number | null;
+  pageNumber: number | null;
+  sectionPath: string[] | null;
+  tokenCount: number | null;
+  ocrConfidence: number | null;
+  retrievalCount: number;
+  // Only for chunks without offsets
+  content: string | null;
+}
+
+// A run of text that starts at a chunk or page boundary
+interface Segment {
+  start: number;
+  end: number;
+  chunk: ViewerChunk | null;
+  chunkStart: boolean;
+  // 1-based pages starting at this segment (several when pages are empty)
+  pagesStarting: number[];
+}
+
+// Splits the text at every chunk start and page start. Overlapping chunks are
+// shown from where each one starts; text no chunk covers has no chunk.
+function segmentDocument(content: string, chunks: ViewerChunk[], pageOffsets: number[] | null): Segment[] {
+  const located = chunks.filter((chunk) => chunk.startOffset !== null && chunk.endOffset !== null);
+  const chunkStarts = new Map<number, ViewerChunk>();
+  for (const chunk of located) {
+    if (!chunkStarts.has(chunk.startOffset!)) chunkStarts.set(chunk.startOffset!, chunk);
+  }
+
+  const boundaries = new Set<number>([0, content.length, ...chunkStarts.keys(), ...(pageOffsets ?? [])]);
+  const offsets = [...boundaries]
+    .filter((offset) => offset >= 0 && offset <= content.length)
+    .sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  let current: ViewerChunk | null = null;
+  for (let i = 0; i < offsets.length - 1; i++) {
+    const start = offsets[i];
+    const starting = chunkStarts.get(start);
+    if (starting) current = starting;
+    else if (current && current.endOffset! <= start) current = null;
+
+    segments.push({
+      start,
+      end: offsets[i + 1],
+      chunk: current,
+      chunkStart: !!starting,
+      pagesStarting: (pageOffsets ?? []).flatMap((offset, page) => (offset === start ? [page + 1] : [])),
+    });
+  }
+  return segments;
+}
+
+export default function DocumentViewerPage() {
+  const params = useParams();
+  const documentId = params.id as string;
+  // Set when arriving from a citation
+  const chunkParam = useSearchParams().get('chunk');
+  const targetChunkId = chunkParam ? parseInt(chunkParam, 10) : null;
+
+  const [document, setDocument] = useState<ViewerDocument | null>(null);
+  const [chunks, setChunks] = useState<ViewerChunk[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showChunks, setShowChunks] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const loadDocument = async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/documents/${documentId}`);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || 'Failed to load document');
+          return;
+        }
+        setDocument(data.document);
+        setChunks(data.chunks ?? []);
+      } catch {
+        setError('Failed to load document');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadDocument();
+  }, [documentId]);
+
+  const segments = useMemo(
+    () => (document ? segmentDocument(document.content, chunks, document.pageOffsets) : []),
+    [document, chunks]
+  );
+  const unlocatedChunks = chunks.filter((chunk) => chunk.startOffset === null);
+  const pageCount = document?.pageOffsets?.length ?? 0;
+  const totalHits = chunks.reduce((total, chunk) => total + chunk.retrievalCount, 0);
+  const chunkNumbers = useMemo(() => new Map(chunks.map((chunk, index) => [chunk.id, index + 1])), [chunks]);
+  const targetChunk = chunks.find((chunk) => chunk.id === targetChunkId);
+
+  // Deep links scroll to the cited chunk once the text is rendered
+  useEffect(() => {
+    if (!targetChunk) return;
+    const element = window.document.getElementById(`chunk-${targetChunk.id}`);
+    element?.scrollIntoView({ block: 'center' });
+  }, [targetChunk, segments]);
+
+  // Track the page in view for the page navigation
+  useEffect(() => {
+    if (pageCount < 2 || !contentRef.current) return;
+    const markers = contentRef.current.querySelectorAll<HTMLElement>('[data-page]');
+    const observer = new IntersectionObserver((entries) => {
+      const visible = entries.filter((entry) => entry.isIntersecting);
+      if (visible.length > 0) {
+        setCurrentPage(Math.min(...visible.map((entry) => Number((entry.target as HTMLElement).dataset.page))));
+      }
+    }, { rootMargin: '0px 0px -70% 0px' });
+    markers.forEach((marker) => observer.observe(marker));
+    return () => observer.disconnect();
+  }, [pageCount, segments]);
+
+  const goToPage = (page: number) => {
+    const target = Math.min(Math.max(page, 1), pageCount);
+    setCurrentPage(target);
+    window.document.getElementById(`page-${target}`)?.scrollIntoView({ block: 'start' });
+  };
+
+  const describeChunk = (chunk: ViewerChunk) => [
+    `Chunk ${chunkNumbers.get(chunk.id)}`,
+    chunk.pageNumber ? `p. ${chunk.pageNumber}` : null,
+    chunk.sectionPath?.length ? chunk.sectionPath.join(' › ') : null,
+    chunk.tokenCount ? `${chunk.tokenCount} tokens` : null,
+    chunk.ocrConfidence !== null ? `OCR ${Math.round(chunk.ocrConfidence * 100)}%` : null,
+    `${chunk.retrievalCount} ${chunk.retrievalCount === 1 ? 'hit' : 'hits'}`,
+  ].filter(Boolean).join(' · ');
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+  return (
+    <AppLayout showSidebar={false}>
+      <div className="min-h-screen bg-neutral-950 text-white">
+        {/* Header */}
+        <div className="sticky top-0 z-10 border-b border-neutral-800 bg-neutral-950/95 backdrop-blur px-6 py-4 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <Link href="/documents" className="text-xs text-neutral-500 hover:text-neutral-300">
+              ← Documents
+            </Link>
+            <Typography variant="h2" className="text-white text-xl font-semibold truncate">
+              {document?.title ?? 'Document'}
+            </Typography>
+            {document && (
+              <p className="text-neutral-500 text-sm mt-0.5">
+                {formatDate(document.createdAt)}
+                {document.version > 1 && ` · version ${document.version}`}
+                {` · ${chunks.length} chunks · ${totalHits} ${totalHits === 1 ? 'hit' : 'hits'}`}
+              </p>
+            )}
+          </div>
+          {document && (
+            <div className="flex items-center gap-2 shrink-0">
+              {pageCount > 1 && (
+                <div className="flex items-center gap-1 text-sm text-neutral-400">
+                  <Button size="sm" variant="ghost" onClick={() => goToPage(currentPage - 1)} disabled={currentPage <= 1}>
+                    ‹
+                  </Button>
+                  <span>Page</span>
+                  <select
+                    value={currentPage}
+                    onChange={(e) => goToPage(Number(e.target.value))}
+                    className="bg-neutral-900 border border-neutral-700 rounded px-1 py-0.5 text-white"
+                  >
+                    {Array.from({ length: pageCount }, (_, index) => (
+                      <option key={index + 1} value={index + 1}>{index + 1}</option>
+                    ))}
+                  </select>
+                  <span>of {pageCount}</span>
+                  <Button size="sm" variant="ghost" onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= pageCount}>
+                    ›
+                  </Button>
+                </div>
+              )}
+              {chunks.length > 0 && (
+                <Button size="sm" variant="outline" onClick={() => setShowChunks(!showChunks)}>
+                  {showChunks ? 'Hide chunks' : 'Show chunks'}
+                </Button>
+              )}
+              <Badge variant={document.isPublic ? 'default' : 'secondary'} className="text-xs">
+                {document.isPublic ? 'Public' : 'Private'}
+              </Badge>
+            </div>
+          )}
+        </div>
+
+        <div className="max-w-3xl mx-auto px-6 py-8 space-y-4">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3, 4].map((i) => (
+                <div key={i} className="h-24 rounded-lg bg-neutral-800 animate-pulse" />
+              ))}
+            </div>
+          ) : error || !document ? (
+            <Card className="border-neutral-800 bg-neutral-900 p-8 text-center">
+              <p className="text-neutral-400 text-sm">{error ?? 'Document not found'}</p>
+            </Card>
+          ) : (
+            <>
+              {document.newerVersionId && (
+                <Card className="border-amber-700/50 bg-amber-950/30 p-4 text-sm text-amber-200">
+                  A newer version of this document exists.{' '}
+                  <Link href={`/documents/${document.newerVersionId}`} className="underline">
+                    Open the latest version
+                  </Link>
+                </Card>
+              )}
+              {targetChunkId !== null && !targetChunk && (
+                <Card className="border-neutral-800 bg-neutral-900 p-4 text-sm text-neutral-400">
+                  The cited passage is no longer part of this document. It may have been re-indexed or replaced by a newer version.
+                </Card>
+              )}
+
+              <div ref={contentRef}>
+                {segments.map((segment) => {
+                  const highlighted = !!targetChunk && segment.chunk?.id === targetChunk.id;
+                  return (
+                    <div key={segment.start}>
+                      {segment.pagesStarting.map((page) => (
+                        <div
+                          key={page}
+                          id={`page-${page}`}
+                          data-page={page}
+                          className="scroll-mt-24 mt-6 mb-2 flex items-center gap-3 text-xs text-neutral-500"
+                        >
+                          <div className="h-px flex-1 bg-neutral-800" />
+                          Page {page}
+                          <div className="h-px flex-1 bg-neutral-800" />
+                        </div>
+                      ))}
+                      {showChunks && segment.chunkStart && segment.chunk && (
+                        <div
+                          id={`chunk-${segment.chunk.id}`}
+                          className={`scroll-mt-24 mt-4 text-xs ${highlighted ? 'text-amber-300' : 'text-blue-400/80'}`}
+                        >
+                          {describeChunk(segment.chunk)}
+                        </div>
+                      )}
+                      <div
+                        className={`rounded-r ${
+                          showChunks && segment.chunk ? 'border-l-2 pl-4' : ''
+                        } ${
+                          highlighted
+                            ? 'border-amber-400 bg-amber-400/10'
+                            : segment.chunk ? 'border-blue-500/40' : ''
+                        }`}
+                      >
+                        {/* Anchor for deep links while chunk labels are hidden */}
+                        {!showChunks && segment.chunkStart && segment.chunk && (
+                          <span id={`chunk-${segment.chunk.id}`} className="block scroll-mt-24" />
+                        )}
+                        <MarkdownRenderer content={document.content.slice(segment.start, segment.end)} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Chunks stored before offsets were recorded can't be placed in the text */}
+              {showChunks && unlocatedChunks.length > 0 && (
+                <div className="pt-6 border-t border-neutral-800 space-y-3">
+                  <Typography variant="h3" className="text-neutral-300 text-sm font-medium">
+                    Chunks without position ({unlocatedChunks.length})
+                  </Typography>
+                  {unlocatedChunks.map((chunk) => (
+                    <div
+                      key={chunk.id}
+                      id={`chunk-${chunk.id}`}
+                      className={`scroll-mt-24 rounded-lg border px-4 py-3 ${
+                        chunk.id === targetChunkId ? 'border-amber-400 bg-amber-400/10' : 'border-neutral-800 bg-neutral-900'
+                      }`}
+                    >
+                      <p className="text-xs text-blue-400/80 mb-2">{describeChunk(chunk)}</p>
+                      <MarkdownRenderer content={chunk.content ?? ''} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </AppLayout>
+  );
+}
@@ -3,6 +3,7 @@
 export const dynamic = 'force-dynamic';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { useSession } from 'next-auth/react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { Button } from '@/components/ui/button';
@@ -10,11 +11,13 @@ import { Typography } from '@/components/ui/Typography';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { DOCUMENT_EXTENSIONS, describeJob, isActiveJob, isSupportedDocument, retryIngestion, type IngestionJobView } from '@/lib/ai/ingestion-client';
 
 interface UserDocument {
   id: number;
   title: string;
   isPublic: boolean;
+  version: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -25,6 +28,7 @@ export default function DocumentsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
+  const [jobs, setJobs] = useState<IngestionJobView[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const fetchDocuments = useCallback(async () => {
@@ -43,14 +47,50 @@ export default function DocumentsPage() {
     }
   }, []);
 
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await fetch('/api/documents/jobs');
+      if (!res.ok) return;
+      const data = await res.json();
+      const next: IngestionJobView[] = data.jobs ?? [];
+      setJobs((prev) => {
+        // A job finishing since the last poll means a new document to list
+        const finished = next.some((job) =>
+          job.status === 'completed' && prev.some((p) => p.id === job.id && isActiveJob(p))
+        );
+        if (finished) fetchDocuments();
+        return next;
+      });
+    } catch {
+      // Polling again shortly
+    }
+  }, [fetchDocuments]);
+
   useEffect(() => {
     fetchDocuments();
-  }, [fetchDocuments]);
+    fetchJobs();
+  }, [fetchDocuments, fetchJobs]);
+
+  const hasActiveJobs = jobs.some(isActiveJob);
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(fetchJobs, 1500);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, fetchJobs]);
+
+  const retryJob = async (job: IngestionJobView) => {
+    try {
+      const retried = await retryIngestion(job.id);
+      setJobs((prev) => prev.map((j) => (j.id === retried.id ? retried : j)));
+      toast.info(`Retrying "${job.fileName}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Retry failed');
+    }
+  };
 
   const uploadFile = useCallback(async (file: File) => {
-    const allowed = /\.(pdf|txt|doc|docx)$/i;
-    if (!allowed.test(file.name)) {
-      toast.error('Only PDF, TXT, DOC, and DOCX files are supported');
+    if (!isSupportedDocument(file.name)) {
+      toast.error('Only PDF, Word (.docx), EPUB, HTML, LaTeX, Markdown and text files are supported');
       return;
     }
     if (file.size > 10 * 1024 * 1024) {
@@ -66,8 +106,8 @@ export default function DocumentsPage() {
       const res = await fetch('/api/documents', { method: 'POST', body: formData });
       const data = await res.json();
       if (res.ok) {
-        toast.success(`"${file.name}" uploaded successfully`);
-        fetchDocuments();
+        toast.success(data.duplicate ? `"${file.name}" is already uploaded` : `"${file.name}" uploaded, processing...`);
+        fetchJobs();
       } else {
         toast.error(data.error || 'Upload failed');
       }
@@ -76,7 +116,7 @@ export default function DocumentsPage() {
     } finally {
       setIsUploading(false);
     }
-  }, [fetchDocuments]);
+  }, [fetchJobs]);
 
   const handleFiles = useCallback((files: FileList | null) => {
     if (!files) return;
@@ -154,12 +194,12 @@ export default function DocumentsPage() {
               <p className="text-sm text-neutral-400">
                 {isDragging ? 'Drop files here' : 'Drag & drop or click to upload'}
               </p>
-              <p className="text-xs text-neutral-600 mt-1">PDF, TXT, DOC, DOCX — max 10 MB</p>
+              <p className="text-xs text-neutral-600 mt-1">PDF, DOCX, EPUB, HTML, TeX, Markdown, TXT — max 10 MB</p>
               <input
                 ref={fileInputRef}
                 type="file"
                 multiple
-                accept=".pdf,.txt,.doc,.docx"
+                accept={DOCUMENT_EXTENSIONS.join(',')}
                 className="hidden"
                 onChange={(e) => handleFiles(e.target.files)}
               />
@@ -172,6 +212,45 @@ export default function DocumentsPage() {
             </Card>
           )}
 
+          {/* Processing jobs; completed ones show up in the document list */}
+          {jobs.some((job) => job.status !== 'completed') && (
+            <div>
+              <Typography variant="h3" className="text-neutral-300 text-sm font-medium mb-3">
+                Processing
+              </Typography>
+              <div className="space-y-2">
+                {jobs.filter((job) => job.status !== 'completed').map((job) => (
+                  <div
+                    key={job.id}
+                    className="bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white truncate">{job.fileName}</p>
+                        <p className={`text-xs truncate ${job.status === 'failed' ? 'text-red-400' : 'text-neutral-500'}`}>
+                          {describeJob(job)}
+                        </p>
+                      </div>
+                      {job.status === 'failed' && (
+                        <Button size="sm" variant="outline" onClick={() => retryJob(job)}>
+                          Retry
+                        </Button>
+                      )}
+                    </div>
+                    {isActiveJob(job) && (
+                      <div className="mt-2 h-1 rounded-full bg-neutral-800 overflow-hidden">
+                        <div
+                          className="h-full bg-blue-500 transition-all duration-500"
+                          style={{ width: `${job.progress}%` }}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Document list */}
           <div>
             <Typography variant="h3" className="text-neutral-300 text-sm font-medium mb-3">
@@ -201,8 +280,13 @@ export default function DocumentsPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                     </svg>
                     <div className="flex-1 min-w-0">
-                      <p className="text-sm text-white truncate">{doc.title}</p>
-                      <p className="text-xs text-neutral-500">{formatDate(doc.createdAt)}</p>
+                      <Link href={`/documents/${doc.id}`} className="block text-sm text-white truncate hover:underline">
+                        {doc.title}
+                      </Link>
+                      <p className="text-xs text-neutral-500">
+                        {formatDate(doc.createdAt)}
+                        {doc.version > 1 && ` · version ${doc.version}`}
+                      </p>
                     </div>
                     <Badge variant={doc.isPublic ? 'default' : 'secondary'} className="text-xs shrink-0">
                       {doc.isPublic ? 'Public' : 'Private'}
@@ -28,6 +28,44 @@ interface UserDocument {
   updatedAt: string
 }
 
+interface UsageWindow {
+  used: number
+  limit: number | null
+  resetAt: string
+}
+
+interface UsageSnapshot {
+  tier: 'anonymous' | 'user' | 'admin'
+  metrics: Record<'queries' | 'uploads' | 'ocr', Record<'daily' | 'monthly', UsageWindow>>
+  storageMb: number
+  moleculeLookups: number
+}
+
+interface CostBreakdown {
+  key: string
+  label: string
+  costUsd: number
+  promptTokens: number
+  completionTokens: number
+  requests: number
+}
+
+interface CostSummary {
+  days: number
+  totalCostUsd: number
+  promptTokens: number
+  completionTokens: number
+  requests: number
+  byModel: CostBreakdown[]
+  byConversation: CostBreakdown[]
+}
+
+const USAGE_LABELS: Record<keyof UsageSnapshot['metrics'], string> = {
+  queries: 'Chat Messages',
+  uploads: 'Document Uploads',
+  ocr: 'Image OCR',
+}
+
 interface UserStats {
   totalConversations: number
   totalMessages: number
@@ -46,6 +84,8 @@ export default function ProfilePage() {
   const { setDocuments } = useDocumentActions()
 
   const [stats, setStats] = useState<UserStats | null>(null)
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null)
+  const [costs, setCosts] = useState<CostSummary | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -104,6 +144,14 @@ export default function ProfilePage() {
         setDocuments(documentsData.documents || [])
       }
 
+      // Fetch quota usage and token costs
+      const usageResponse = await fetch('/api/usage')
+      if (usageResponse.ok) {
+        const usageData = await usageResponse.json()
+        setUsage(usageData.usage || null)
+        setCosts(usageData.costs || null)
+      }
+
       // Calculate stats from fetched data using the freshly fetched summaries
       const totalMessages = (conversationSummaries as any[]).reduce((sum, conv) => sum + conv.messageCount, 0)
       const modelCounts = (conversationSummaries as any[]).reduce((acc: Record<string, number>, conv) => {
@@ -156,6 +204,17 @@ export default function ProfilePage() {
     return formatDate(dateString)
   }
 
+  const formatCost = (costUsd: number) => {
+    return costUsd < 0.01 && costUsd > 0 ? '<$0.01' : `$${costUsd.toFixed(2)}`
+  }
+
+  const formatRelativeReset = (dateString: string) => {
+    const diffInHours = Math.ceil((new Date(dateString).getTime() - Date.now()) / (1000 * 60 * 60))
+    if (diffInHours <= 1) return 'within the hour'
+    if (diffInHours < 24) return `in ${diffInHours}h`
+    return `on ${formatDate(dateString)}`
+  }
+
   const handleDeleteDocument = async (documentId: string) => {
     try {
       const response = await fetch(`/api/documents/${documentId}`, {
@@ -344,6 +403,118 @@ export default function ProfilePage() {
                   </div>
                 </div>
               </Card>
+
+              {usage && (
+                <Card className="bg-neutral-900 border-neutral-800 mt-6">
+                  <div className="p-6">
+                    <div className="flex items-center justify-between mb-6">
+                      <Typography variant="h3" className="text-white">
+                        Usage
+                      </Typography>
+                      <Badge variant="secondary" className="capitalize">
+                        {usage.tier === 'user' ? 'Standard' : usage.tier} plan
+                      </Badge>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                      {(Object.keys(USAGE_LABELS) as (keyof UsageSnapshot['metrics'])[]).map((metric) => (
+                        <Card key={metric} className="bg-neutral-800/50 p-4 space-y-4">
+                          <Typography variant="small" className="text-neutral-400">
+                            {USAGE_LABELS[metric]}
+                          </Typography>
+                          {(['daily', 'monthly'] as const).map((period) => {
+                            const window = usage.metrics[metric][period]
+                            const percent = window.limit ? Math.min((window.used / window.limit) * 100, 100) : 0
+                            return (
+                              <div key={period}>
+                                <div className="flex items-center justify-between text-sm">
+                                  <span className="text-neutral-300 capitalize">{period === 'daily' ? 'Today' : 'This month'}</span>
+                                  <span className="text-white">
+                                    {window.used}{window.limit !== null ? ` / ${window.limit}` : ' (unlimited)'}
+                                  </span>
+                                </div>
+                                {window.limit !== null && (
+                                  <div className="mt-2 h-1.5 rounded-full bg-neutral-700 overflow-hidden">
+                                    <div
+                                      className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : 'bg-blue-500'}`}
+                                      style={{ width: `${percent}%` }}
+                                    />
+                                  </div>
+                                )}
+                                <p className="mt-1 text-xs text-neutral-500">
+                                  Resets {formatRelativeReset(window.resetAt)}
+                                </p>
+                              </div>
+                            )
+                          })}
+                        </Card>
+                      ))}
+                    </div>
+                  </div>
+                </Card>
+              )}
+
+              {costs && (
+                <Card className="bg-neutral-900 border-neutral-800 mt-6">
+                  <div className="p-6">
+                    <Typography variant="h3" className="text-white mb-6">
+                      Spending (last {costs.days} days)
+                    </Typography>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-6">
+                      <Card className="bg-neutral-800/50 p-4">
+                        <Typography variant="small" className="text-neutral-400">
+                          Estimated Cost
+                        </Typography>
+                        <Typography variant="h2" className="text-white">
+                          {formatCost(costs.totalCostUsd)}
+                        </Typography>
+                      </Card>
+                      <Card className="bg-neutral-800/50 p-4">
+                        <Typography variant="small" className="text-neutral-400">
+                          Tokens (in / out)
+                        </Typography>
+                        <Typography variant="h2" className="text-white">
+                          {costs.promptTokens.toLocaleString()} / {costs.completionTokens.toLocaleString()}
+                        </Typography>
+                      </Card>
+                      <Card className="bg-neutral-800/50 p-4">
+                        <Typography variant="small" className="text-neutral-400">
+                          Model Calls
+                        </Typography>
+                        <Typography variant="h2" className="text-white">
+                          {costs.requests.toLocaleString()}
+                        </Typography>
+                      </Card>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {[
+                        { title: 'By Model', rows: costs.byModel },
+                        { title: 'Top Conversations', rows: costs.byConversation },
+                      ].map(({ title, rows }) => (
+                        <div key={title}>
+                          <Typography variant="small" className="text-neutral-400 mb-3">
+                            {title}
+                          </Typography>
+                          {rows.length === 0 ? (
+                            <p className="text-sm text-neutral-500">No usage yet</p>
+                          ) : (
+                            <div className="space-y-2">
+                              {rows.map((row) => (
+                                <div key={row.key} className="flex items-center justify-between text-sm">
+                                  <span className="text-neutral-300 truncate mr-4">{row.label}</span>
+                                  <span className="text-white whitespace-nowrap">
+                                    {formatCost(row.costUsd)}
+                                    <span className="text-neutral-500 ml-2">{row.requests} calls</span>
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </Card>
+              )}
             </TabsContent>
 
             <TabsContent value="conversations">
@@ -5,12 +5,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { Paperclip, Send, X, Bot, ChevronDown, Zap } from 'lucide-react';
 import { useAppStore } from '@/lib/store/app-store';
 import { useShallow } from 'zustand/react/shallow';
+import { MODEL_REGISTRY } from '@/lib/ai/model-registry';
+import { CollectionPicker } from './collection-picker';
 
-const models = [
-  { id: 'deepseek-chat', name: 'DeepSeek V3.2', provider: 'DeepSeek' },
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'Google' },
-  { id: 'deepseek-reasoner', name: 'DeepSeek Reasoner', provider: 'DeepSeek' },
-];
+const models = MODEL_REGISTRY.map(({ id, name, vendor }) => ({ id, name, provider: vendor }));
 
 interface ChatInputProps {
   input: string;
@@ -20,6 +18,9 @@ interface ChatInputProps {
   stop?: () => void;
   disabled?: boolean;
   onFileUpload?: (files: File[]) => void;
+  // Collections retrieval is limited to; the picker shows when onCollectionsChange is set
+  collectionIds?: number[];
+  onCollectionsChange?: (ids: number[]) => void;
 }
 
 export default function ChatInput({
@@ -30,6 +31,8 @@ export default function ChatInput({
   stop,
   disabled = false,
   onFileUpload,
+  collectionIds = [],
+  onCollectionsChange,
 }: ChatInputProps) {
   const { selectedModel, setSelectedModel, isUploading } = useAppStore(
     useShallow((state: any) => ({
@@ -122,6 +125,9 @@ export default function ChatInput({
                 </div>
               )}
             </div>
+            {onCollectionsChange && (
+              <CollectionPicker selectedIds={collectionIds} onChange={onCollectionsChange} disabled={isLoading || disabled} />
+            )}
           </div>
           {isLoading && (
             <Button type="button" size="sm" variant="ghost" onClick={stop}>
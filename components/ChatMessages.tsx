@@ -1,4 +1,4 @@
-import React, { Suspense, useEffect, useRef } from 'react';
+import React, { Suspense, useEffect, useRef, useState } from 'react';
 import { Message as VercelMessage } from 'ai';
 import dynamic from 'next/dynamic';
 import PendingVisualizationCard from './visualizations/PendingVisualizationCard';
@@ -17,6 +17,8 @@ import { ThinkingTracesArtifact } from './chat/ThinkingTracesArtifact';
 
 import MarkdownRenderer from './MarkdownRenderer';
 import { TypingIndicator } from './ui/LoadingStates';
+import { SourceFootnotes } from './chat/SourceFootnotes';
+import { citedSources, getMessageSources, linkCitations } from '@/lib/ai/citations';
 
 const PlotlyPlotter = dynamic(() => import('./visualizations/PlotlyPlotter'), {
   ssr: false,
@@ -32,8 +34,53 @@ type Message = VercelMessage;
 interface ChatMessagesProps {
   messages: Message[];
   isLoading?: boolean;
+  // Ids of every alternative at a message's position (itself included, oldest
+  // first). Messages with more than one get a branch switcher.
+  branches?: Record<string, string[]>;
+  onSwitchBranch?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  // Scrolled into view and highlighted instead of jumping to the bottom
+  focusMessageId?: string;
 }
 
+// ‹ 2 / 3 › control for stepping through edits and regenerations
+const BranchSwitcher: React.FC<{
+  messageId: string;
+  siblingIds?: string[];
+  disabled?: boolean;
+  onSwitch?: (messageId: string) => void;
+}> = ({ messageId, siblingIds, disabled, onSwitch }) => {
+  if (!siblingIds || siblingIds.length < 2 || !onSwitch) return null;
+
+  const index = siblingIds.indexOf(messageId);
+  const buttonClass = 'px-1 rounded hover:text-white disabled:opacity-30 disabled:hover:text-[#8e8ea0]';
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-[#8e8ea0] select-none">
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={disabled || index <= 0}
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        aria-label="Previous version"
+      >
+        ‹
+      </button>
+      <span>{index + 1} / {siblingIds.length}</span>
+      <button
+        type="button"
+        className={buttonClass}
+        disabled={disabled || index >= siblingIds.length - 1}
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        aria-label="Next version"
+      >
+        ›
+      </button>
+    </div>
+  );
+};
+
 // Enhanced helper to clean up AI content, removing specific markers and improving formatting
 function formatAndCleanContent(content: string | null | undefined): string {
   if (!content || typeof content !== 'string') {
@@ -121,12 +168,38 @@ const VisualizationRenderer: React.FC<{ toolName: string; result: unknown }> = (
   );
 };
 
-export default function ChatMessages({ messages, isLoading = false }: ChatMessagesProps) {
+export default function ChatMessages({
+  messages,
+  isLoading = false,
+  branches,
+  onSwitchBranch,
+  onEditMessage,
+  onRegenerate,
+  focusMessageId,
+}: ChatMessagesProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const focusedIdRef = useRef<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const submitEdit = (messageId: string) => {
+    const content = draft.trim();
+    setEditingId(null);
+    if (content && onEditMessage) onEditMessage(messageId, content);
+  };
 
   useEffect(() => {
+    // Jump to the focused message once; later updates follow the conversation
+    const focused = focusMessageId && focusedIdRef.current !== focusMessageId
+      ? document.getElementById(`message-${focusMessageId}`)
+      : null;
+    if (focused) {
+      focusedIdRef.current = focusMessageId!;
+      focused.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages.length, isLoading]);
+  }, [messages.length, isLoading, focusMessageId]);
 
   if (!messages || messages.length === 0) {
     return (
@@ -152,13 +225,63 @@ export default function ChatMessages({ messages, isLoading = false }: ChatMessag
     <div className="flex-1 overflow-y-auto bg-[#212121]">
       <div className="max-w-4xl mx-auto px-4 py-8 space-y-8">
         {messages.map((message, index) => (
-          <div key={message.id} className="animate-fade-in">
+          <div
+            key={message.id}
+            id={`message-${message.id}`}
+            className={`animate-fade-in ${message.id === focusMessageId ? 'rounded-2xl ring-1 ring-[#19c37d]/60 p-2' : ''}`}
+          >
             {message.role === 'user' ? (
               // User message — right-aligned bubble
               <div className="flex justify-end mb-6">
                 <div className="max-w-2xl">
-                  <div className="bg-[#2f2f2f] rounded-2xl px-4 py-3 border border-[#4d4d4d]">
-                    <p className="text-black leading-relaxed">{message.content}</p>
+                  {editingId === message.id ? (
+                    <div className="bg-[#2f2f2f] rounded-2xl px-4 py-3 border border-[#4d4d4d] space-y-2">
+                      <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        className="w-full min-w-[20rem] bg-transparent text-white leading-relaxed resize-y outline-none"
+                        rows={3}
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2 text-sm">
+                        <button type="button" className="px-3 py-1 rounded text-[#8e8ea0] hover:text-white" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </button>
+                        <button
+                          type="button"
+                          className="px-3 py-1 rounded bg-[#19c37d] text-white disabled:opacity-50"
+                          disabled={!draft.trim() || isLoading}
+                          onClick={() => submitEdit(message.id)}
+                        >
+                          Send
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="bg-[#2f2f2f] rounded-2xl px-4 py-3 border border-[#4d4d4d]">
+                      <p className="text-black leading-relaxed">{message.content}</p>
+                    </div>
+                  )}
+                  <div className="flex justify-end items-center gap-2 mt-1">
+                    <BranchSwitcher
+                      messageId={message.id}
+                      siblingIds={branches?.[message.id]}
+                      disabled={isLoading}
+                      onSwitch={onSwitchBranch}
+                    />
+                    {onEditMessage && editingId !== message.id && (
+                      <button
+                        type="button"
+                        className="text-xs text-[#8e8ea0] hover:text-white disabled:opacity-30"
+                        disabled={isLoading}
+                        onClick={() => {
+                          setEditingId(message.id);
+                          setDraft(message.content);
+                        }}
+                      >
+                        Edit
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -201,7 +324,7 @@ export default function ChatMessages({ messages, isLoading = false }: ChatMessag
                         {message.role === 'assistant' && message.id === messages[messages.length - 1]?.id && index === messages.length - 1 ? (
                           // Latest message - use streaming if available
                           <StreamingMarkdown 
-                            text={formatAndCleanContent(message.content)}
+                            text={linkCitations(formatAndCleanContent(message.content), getMessageSources(message))}
                             className="text-[#c5c5d2] leading-relaxed"
                             speed={10}
                             streamingMode="word"
@@ -209,7 +332,7 @@ export default function ChatMessages({ messages, isLoading = false }: ChatMessag
                         ) : (
                           // Completed message
                           <MarkdownRenderer 
-                            content={formatAndCleanContent(message.content)}
+                            content={linkCitations(formatAndCleanContent(message.content), getMessageSources(message))}
                             className="text-[#c5c5d2] leading-relaxed"
                             darkMode={true}
                           />
@@ -217,6 +340,10 @@ export default function ChatMessages({ messages, isLoading = false }: ChatMessag
                       </div>
                     )}
 
+                    {message.role === 'assistant' && (
+                      <SourceFootnotes sources={citedSources(message.content, getMessageSources(message))} />
+                    )}
+
                     {/* Tool results using new renderer */}
                     {message.toolInvocations?.map((toolInvocation, toolIndex) => (
                       <ToolResultRenderer
@@ -225,6 +352,27 @@ export default function ChatMessages({ messages, isLoading = false }: ChatMessag
                         thinkingTime={estimateThinkingTime(toolInvocation.toolName, 'result' in toolInvocation ? toolInvocation.result : undefined)}
                       />
                     ))}
+
+                    {(onRegenerate || (branches?.[message.id]?.length ?? 0) > 1) && (
+                      <div className="flex items-center gap-2">
+                        <BranchSwitcher
+                          messageId={message.id}
+                          siblingIds={branches?.[message.id]}
+                          disabled={isLoading}
+                          onSwitch={onSwitchBranch}
+                        />
+                        {onRegenerate && (
+                          <button
+                            type="button"
+                            className="text-xs text-[#8e8ea0] hover:text-white disabled:opacity-30"
+                            disabled={isLoading}
+                            onClick={() => onRegenerate(message.id)}
+                          >
+                            Regenerate
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,23 +1,30 @@
 import React, { useRef, useState } from 'react';
 import { useDocumentState } from '@/lib/store/hooks';
+import { DOCUMENT_EXTENSIONS, describeJob, isActiveJob, type IngestionJobView } from '@/lib/ai/ingestion-client';
 
 interface FileUploaderProps {
   onUpload: (files: File[]) => void;
   disabled?: boolean;
+  // Ingestion jobs of the uploaded documents, matched to the listed files by name
+  jobs?: IngestionJobView[];
 }
 
 // File type constants
 const IMAGE_TYPES = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
-const DOCUMENT_TYPES = ['.pdf', '.txt', '.doc', '.docx'];
+const DOCUMENT_TYPES = DOCUMENT_EXTENSIONS;
 const ALL_TYPES = [...IMAGE_TYPES, ...DOCUMENT_TYPES];
 
-export default function FileUploader({ onUpload, disabled = false }: FileUploaderProps) {
+export default function FileUploader({ onUpload, disabled = false, jobs = [] }: FileUploaderProps) {
   const { isUploading } = useDocumentState();
   const [isDragging, setIsDragging] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Latest job for a file, if it was uploaded as a document
+  const jobForFile = (fileName: string): IngestionJobView | undefined =>
+    jobs.find(job => job.fileName === fileName);
+
   // File type detection helper
   const isImageFile = (fileName: string): boolean => {
     const extension = '.' + fileName.split('.').pop()?.toLowerCase();
@@ -83,7 +90,6 @@ export default function FileUploader({ onUpload, disabled = false }: FileUploade
             <path fillRule="evenodd" d="M4 4a2 2 0 012-2h4.586A2 2 0 0112 2.586L15.414 6A2 2 0 0116 7.414V16a2 2 0 01-2-2H6a2 2 0 01-2-2V4zm2 6a1 1 0 011-1h6a1 1 0 110 2H7a1 1 0 01-1-1zm1 3a1 1 0 100 2h6a1 1 0 100-2H7z" clipRule="evenodd" />
           </svg>
         );
-      case 'doc':
       case 'docx':
         return (
           <svg className="w-4 h-4 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
@@ -155,7 +161,7 @@ export default function FileUploader({ onUpload, disabled = false }: FileUploade
               <span className="hidden sm:inline"> or drag and drop</span>
             </span>
             <span className="text-xs ml-2 text-gray-400">
-              (Images: JPG, PNG, GIF | Documents: PDF, TXT, DOC, DOCX)
+              (Images: JPG, PNG, GIF | Documents: PDF, DOCX, EPUB, HTML, TeX, MD, TXT)
             </span>
           </>
         )}
@@ -173,20 +179,37 @@ export default function FileUploader({ onUpload, disabled = false }: FileUploade
       {/* File list */}
       {selectedFiles.length > 0 && (
         <div className="mt-2 space-y-1 max-h-32 overflow-y-auto p-2 bg-gray-50 dark:bg-gray-800 rounded-md">
-          {selectedFiles.map((file, index) => (
-            <div key={`${file.name}-${index}`} className="flex items-center text-sm text-gray-600 dark:text-gray-300">
-              {getFileIcon(file.name)}
-              <span className="ml-2 truncate">{file.name}</span>
-              <span className="ml-1 text-xs text-gray-400">
-                ({(file.size / 1024).toFixed(1)} KB)
-              </span>
-              {isImageFile(file.name) && (
-                <span className="ml-1 text-xs text-green-600 dark:text-green-400 font-medium">
-                  OCR
-                </span>
-              )}
-            </div>
-          ))}
+          {selectedFiles.map((file, index) => {
+            const job = jobForFile(file.name);
+            return (
+              <div key={`${file.name}-${index}`}>
+                <div className="flex items-center text-sm text-gray-600 dark:text-gray-300">
+                  {getFileIcon(file.name)}
+                  <span className="ml-2 truncate">{file.name}</span>
+                  <span className="ml-1 text-xs text-gray-400">
+                    ({(file.size / 1024).toFixed(1)} KB)
+                  </span>
+                  {isImageFile(file.name) && (
+                    <span className="ml-1 text-xs text-green-600 dark:text-green-400 font-medium">
+                      OCR
+                    </span>
+                  )}
+                  {job && (
+                    <span className={`ml-auto pl-2 text-xs truncate ${
+                      job.status === 'failed' ? 'text-red-500' : job.status === 'completed' ? 'text-green-600 dark:text-green-400' : 'text-gray-400'
+                    }`}>
+                      {describeJob(job)}
+                    </span>
+                  )}
+                </div>
+                {job && isActiveJob(job) && (
+                  <div className="mt-1 h-1 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${job.progress}%` }} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
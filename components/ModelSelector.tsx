@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
+import { MODEL_REGISTRY } from '@/lib/ai/model-registry';
 
-type ModelType = 'deepseek-chat' | 'gemini-2.5-flash' | 'deepseek-reasoner';
+type ModelType = string;
 
 interface ModelSelectorProps {
   selectedModel: ModelType;
@@ -8,48 +9,38 @@ interface ModelSelectorProps {
   disabled?: boolean;
 }
 
-const models = [
-  {
-    id: 'deepseek-chat',
-    name: 'DeepSeek V3.2',
-    description: 'Fast general-purpose model with tool support',
-    tag: 'Default',
-    performance: 'Fast',
-    icon: (
-      <svg viewBox="0 0 24 24" width="18" height="18" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-blue-400">
-        <path d="M12 2L2 7L12 12L22 7L12 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-        <path d="M2 17L12 22L22 17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-        <path d="M2 12L12 17L22 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-      </svg>
-    )
-  },
-  {
-    id: 'gemini-2.5-flash',
-    name: 'Gemini 2.5 Flash',
-    description: 'Google\'s best price-performance model',
-    tag: 'Flash',
-    performance: 'Fast',
-    icon: (
-      <svg viewBox="0 0 24 24" width="18" height="18" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-cyan-400">
-        <path d="M12 16.01L16 12L12 7.99L8 12L12 16.01Z" fill="currentColor" />
-        <path d="M12 2L20 7V17L12 22L4 17V7L12 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-      </svg>
-    )
-  },
-  {
-    id: 'deepseek-reasoner',
-    name: 'DeepSeek Reasoner',
-    description: 'Advanced reasoning for math & science',
-    tag: 'Math',
-    performance: 'Balanced',
-    icon: (
-      <svg viewBox="0 0 24 24" width="18" height="18" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-purple-400">
-        <path d="M9.5 2A7.5 7.5 0 0 0 4 10c0 6 3.5 10 3.5 10s3.5-4 3.5-10a7.5 7.5 0 0 0-5.5-8Z" stroke="currentColor" strokeWidth="2"/>
-        <path d="M15.5 3A6.5 6.5 0 0 1 20 9c0 5-3 8.5-3 8.5s-3-3.5-3-8.5a6.5 6.5 0 0 1 3.5-6Z" stroke="currentColor" strokeWidth="2"/>
-      </svg>
-    )
-  },
-];
+const modelIcons: Record<string, React.ReactNode> = {
+  'deepseek-chat': (
+    <svg viewBox="0 0 24 24" width="18" height="18" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-blue-400">
+      <path d="M12 2L2 7L12 12L22 7L12 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+      <path d="M2 17L12 22L22 17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+      <path d="M2 12L12 17L22 12" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+    </svg>
+  ),
+  'gemini-2.5-flash': (
+    <svg viewBox="0 0 24 24" width="18" height="18" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-cyan-400">
+      <path d="M12 16.01L16 12L12 7.99L8 12L12 16.01Z" fill="currentColor" />
+      <path d="M12 2L20 7V17L12 22L4 17V7L12 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+    </svg>
+  ),
+  'deepseek-reasoner': (
+    <svg viewBox="0 0 24 24" width="18" height="18" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-purple-400">
+      <path d="M9.5 2A7.5 7.5 0 0 0 4 10c0 6 3.5 10 3.5 10s3.5-4 3.5-10a7.5 7.5 0 0 0-5.5-8Z" stroke="currentColor" strokeWidth="2"/>
+      <path d="M15.5 3A6.5 6.5 0 0 1 20 9c0 5-3 8.5-3 8.5s-3-3.5-3-8.5a6.5 6.5 0 0 1 3.5-6Z" stroke="currentColor" strokeWidth="2"/>
+    </svg>
+  ),
+};
+
+const defaultIcon = (
+  <svg viewBox="0 0 24 24" width="18" height="18" fill="none" xmlns="http://www.w3.org/2000/svg" className="text-gray-400">
+    <circle cx="12" cy="12" r="9" stroke="currentColor" strokeWidth="2" />
+  </svg>
+);
+
+const models = MODEL_REGISTRY.map(model => ({
+  ...model,
+  icon: modelIcons[model.id] ?? defaultIcon,
+}));
 
 export default function ModelSelector({ selectedModel, onModelChange, disabled = false }: ModelSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
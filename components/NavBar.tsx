@@ -1,5 +1,6 @@
 import React from 'react';
 import Link from 'next/link';
+import { MODEL_REGISTRY } from '@/lib/ai/model-registry';
 
 interface NavBarProps {
   selectedModel: string;
@@ -57,11 +58,9 @@ export default function NavBar({ selectedModel, onModelChange, onNewChat }: NavB
           onChange={(e) => onModelChange(e.target.value)}
           className="rounded-md border border-gray-700 bg-gray-800 px-3 py-1.5 text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
-          <option value="grok-3-mini">Grok-3-Mini</option>
-          <option value="gemini-1.5-flash-latest">Gemini 1.5 Flash</option>
-          <option value="gpt-4o">GPT-4o</option>
-          <option value="claude-3-haiku-20240307">Claude 3 Haiku</option>
-          <option value="o4-mini">o4-mini</option>
+          {MODEL_REGISTRY.map((model) => (
+            <option key={model.id} value={model.id}>{model.name}</option>
+          ))}
         </select>
         
         <div className="flex items-center border-l border-gray-700 pl-3 ml-2">
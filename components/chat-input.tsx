@@ -5,6 +5,8 @@ import { ArrowUp, Square, Paperclip } from 'lucide-react';
 import { Button } from './ui/button';
 import { cn } from '../lib/utils';
 import { Tooltip } from './ui/tooltip';
+import { DOCUMENT_EXTENSIONS } from '../lib/ai/ingestion-client';
+import { CollectionPicker } from './collection-picker';
 
 interface ChatInputProps {
   input: string;
@@ -15,6 +17,9 @@ interface ChatInputProps {
   disabled?: boolean;
   onFileUpload?: (files: File[]) => void;
   isUploading?: boolean;
+  // Collections retrieval is limited to; the picker shows when onCollectionsChange is set
+  collectionIds?: number[];
+  onCollectionsChange?: (ids: number[]) => void;
 }
 
 export function ChatInput({
@@ -26,6 +31,8 @@ export function ChatInput({
   disabled = false,
   onFileUpload,
   isUploading,
+  collectionIds = [],
+  onCollectionsChange,
 }: ChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -99,6 +106,13 @@ export function ChatInput({
                   </Button>
                 </Tooltip>
               )}
+              {onCollectionsChange && (
+                <CollectionPicker
+                  selectedIds={collectionIds}
+                  onChange={onCollectionsChange}
+                  disabled={isLoading || disabled}
+                />
+              )}
             </div>
 
             <div className="flex items-center gap-1">
@@ -136,7 +150,7 @@ export function ChatInput({
           className="hidden"
           onChange={handleFileChange}
           multiple
-          accept=".jpg,.jpeg,.png,.gif,.bmp,.webp,.pdf,.txt,.doc,.docx"
+          accept={['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', ...DOCUMENT_EXTENSIONS].join(',')}
           disabled={isLoading || disabled || isUploading}
         />
       </form>
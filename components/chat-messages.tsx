@@ -12,6 +12,8 @@ import OCRResult from './OCRResult';
 import VisualizationErrorBoundary from './visualizations/VisualizationErrorBoundary';
 import CodePreview from './CodePreview';
 import { cn } from '../lib/utils';
+import { SourceFootnotes } from './chat/SourceFootnotes';
+import { citedSources, getMessageSources, linkCitations } from '../lib/ai/citations';
 
 const MarkdownRenderer = dynamic(() => import('./MarkdownRenderer'), {
   loading: () => <div className="animate-pulse bg-muted h-20 rounded-lg" />,
@@ -122,11 +124,12 @@ function MessageBubble({ message }: { message: Message }) {
         >
           {message.content && (
             <MarkdownRenderer
-              content={formatAndCleanContent(message.content)}
+              content={linkCitations(formatAndCleanContent(message.content), getMessageSources(message))}
               className="break-words"
               darkMode={!isUser}
             />
           )}
+          {!isUser && <SourceFootnotes sources={citedSources(message.content, getMessageSources(message))} />}
         </div>
 
         {/* Tool invocations */}
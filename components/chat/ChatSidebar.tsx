@@ -1,11 +1,12 @@
 'use client';
 
-import { useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { useSession } from 'next-auth/react';
-import { useConversations } from '@/hooks/useConversations';
+import { useConversations, type MessageSearchFilters, type MessageSearchResult } from '@/hooks/useConversations';
+import { MODEL_REGISTRY } from '@/lib/ai/model-registry';
 import { ConversationItem } from './ConversationItem';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -14,6 +15,26 @@ interface ChatSidebarProps {
   onClose?: () => void;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Renders a search snippet, highlighting the <mark>-delimited matches without
+// interpreting anything else in the message as HTML
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {snippet.split(/(<mark>[\s\S]*?<\/mark>)/).map((part, index) =>
+        part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+          <mark key={index} className="bg-[#19c37d]/30 text-white rounded px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
 export function ChatSidebar({ currentConversationId, onClose }: ChatSidebarProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const router = useRouter();
@@ -23,14 +44,53 @@ export function ChatSidebar({ currentConversationId, onClose }: ChatSidebarProps
     createConversation, 
     updateConversation,
     deleteConversation,
+    searchMessages,
     isLoading, 
     error 
   } = useConversations();
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<Omit<MessageSearchFilters, 'from'> & { days?: number }>({ mode: 'text' });
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
 
   const filteredConversations = conversations.filter(conv => 
     conv.title.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  // Message content search runs server-side once the user pauses typing
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (query.length < 2 || !session?.user) {
+      setMessageResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      const { days, ...filters } = searchFilters;
+      const results = await searchMessages(query, {
+        ...filters,
+        from: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined,
+      });
+      if (!cancelled) {
+        setMessageResults(results);
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm, searchFilters, searchMessages, session?.user]);
+
+  const openSearchResult = (result: MessageSearchResult) => {
+    router.push(`/chat/${result.conversationId}?message=${result.messageId}`);
+    onClose?.();
+  };
+
   const handleNewChat = async () => {
     try {
       // Generate a new chat ID
@@ -161,6 +221,57 @@ export function ChatSidebar({ currentConversationId, onClose }: ChatSidebarProps
             className="w-full pl-10 pr-4 py-2 bg-transparent border border-[#4d4d4d] rounded-lg text-sm placeholder-[#8e8ea0] focus:outline-none focus:border-[#565869] transition-colors"
           />
         </div>
+        {session?.user && (
+          <button
+            type="button"
+            onClick={() => setShowFilters(!showFilters)}
+            className="mt-2 text-xs text-[#8e8ea0] hover:text-white transition-colors"
+          >
+            {showFilters ? 'Nascondi filtri' : 'Filtri di ricerca'}
+          </button>
+        )}
+        {session?.user && showFilters && (
+          <div className="mt-2 space-y-2 text-xs text-[#8e8ea0]">
+            <div className="flex gap-2">
+              <select
+                value={searchFilters.mode}
+                onChange={(e) => setSearchFilters({ ...searchFilters, mode: e.target.value as 'text' | 'semantic' })}
+                className="flex-1 bg-[#2f2f2f] border border-[#4d4d4d] rounded px-2 py-1"
+              >
+                <option value="text">Testo</option>
+                <option value="semantic">Semantica</option>
+              </select>
+              <select
+                value={searchFilters.days ?? 0}
+                onChange={(e) => setSearchFilters({ ...searchFilters, days: Number(e.target.value) || undefined })}
+                className="flex-1 bg-[#2f2f2f] border border-[#4d4d4d] rounded px-2 py-1"
+              >
+                <option value={0}>Sempre</option>
+                <option value={7}>Ultimi 7 giorni</option>
+                <option value={30}>Ultimi 30 giorni</option>
+                <option value={365}>Ultimo anno</option>
+              </select>
+            </div>
+            <select
+              value={searchFilters.model ?? ''}
+              onChange={(e) => setSearchFilters({ ...searchFilters, model: e.target.value || undefined })}
+              className="w-full bg-[#2f2f2f] border border-[#4d4d4d] rounded px-2 py-1"
+            >
+              <option value="">Tutti i modelli</option>
+              {MODEL_REGISTRY.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!searchFilters.hasToolResults}
+                onChange={(e) => setSearchFilters({ ...searchFilters, hasToolResults: e.target.checked || undefined })}
+              />
+              Solo con visualizzazioni
+            </label>
+          </div>
+        )}
       </div>
 
       {/* Conversations */}
@@ -194,6 +305,35 @@ export function ChatSidebar({ currentConversationId, onClose }: ChatSidebarProps
             </p>
           </div>
         )}
+
+        {/* Message matches */}
+        {session?.user && searchTerm.trim().length >= 2 && (
+          <div className="pt-3 mt-3 border-t border-[#4d4d4d] space-y-1">
+            <p className="px-2 pb-1 text-xs font-medium text-[#8e8ea0]">Messaggi</p>
+            {isSearching ? (
+              <div className="h-12 bg-[#2f2f2f] rounded-lg animate-pulse" />
+            ) : messageResults.length > 0 ? (
+              messageResults.map(result => (
+                <button
+                  key={result.messageId}
+                  type="button"
+                  onClick={() => openSearchResult(result)}
+                  className="w-full text-left p-2 rounded-lg hover:bg-[#2f2f2f] transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-2 text-xs text-[#8e8ea0]">
+                    <span className="truncate font-medium text-white">{result.conversationTitle}</span>
+                    <span className="flex-shrink-0">{new Date(result.createdAt).toLocaleDateString()}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-[#c5c5d2] line-clamp-3">
+                    <HighlightedSnippet snippet={result.snippet} />
+                  </p>
+                </button>
+              ))
+            ) : (
+              <p className="px-2 text-xs text-[#8e8ea0]">Nessun messaggio trovato</p>
+            )}
+          </div>
+        )}
       </div>
       
       {/* User Profile Section */}
@@ -0,0 +1,33 @@
+'use client';
+
+import Link from 'next/link';
+import { documentViewerUrl, type DocumentSource } from '@/lib/ai/citations';
+
+interface SourceFootnotesProps {
+  sources: DocumentSource[];
+}
+
+// Footnotes for the sources an answer cites; each opens the document viewer at the cited chunk
+export function SourceFootnotes({ sources }: SourceFootnotesProps) {
+  if (sources.length === 0) return null;
+
+  return (
+    <ol className="mt-3 space-y-2 border-t border-[#4d4d4f] pt-3 text-xs">
+      {sources.map(source => (
+        <li key={source.id}>
+          <Link
+            href={documentViewerUrl(source)}
+            className="group block rounded-md px-2 py-1 hover:bg-[#40414f]"
+            title={source.sectionPath.join(' > ') || source.title}
+          >
+            <span className="font-medium text-[#c5c5d2] group-hover:text-white">
+              [{source.id}] {source.title}
+              {source.pageNumber !== null && <span className="text-[#8e8ea0]">, p. {source.pageNumber}</span>}
+            </span>
+            <span className="mt-0.5 block line-clamp-2 text-[#8e8ea0]">{source.snippet}</span>
+          </Link>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -8,6 +8,8 @@ import VisualizationErrorBoundary from '../visualizations/VisualizationErrorBoun
 import OCRResult from '../OCRResult';
 import CodePreview from '../CodePreview';
 import { Typography } from '../ui/Typography';
+import { documentViewerUrl } from '../../lib/ai/citations';
+import type { SearchDocumentsResult } from '../../lib/ai/tools/searchDocumentsTool';
 
 // Dynamic imports for heavy components
 const PlotlyPlotter = dynamic(() => import('../visualizations/PlotlyPlotter'), {
@@ -103,29 +105,40 @@ export function ToolResultRenderer({ toolInvocation, thinkingTime = 15 }: ToolRe
           </div>
         );
 
-      case 'searchDocuments':
+      case 'searchDocuments': {
+        const search = result as SearchDocumentsResult;
         return (
-          <div className="space-y-4">
+          <div className="space-y-3">
             <Typography variant="small" className="font-medium text-[#c5c5d2]">
-              Document Search Results
+              Searched for &ldquo;{search.query}&rdquo;
+              {search.collections?.length ? ` in ${search.collections.join(', ')}` : ''}
             </Typography>
-            {(result as any).documents?.map((doc: any, index: number) => (
-              <div key={index} className="p-4 bg-[#1a1a1a] rounded-lg border border-[#4d4d4d]">
-                <Typography variant="small" className="font-medium text-white mb-1">
-                  {doc.title || `Document ${index + 1}`}
-                </Typography>
-                <Typography variant="muted" className="text-[#8e8ea0] text-sm">
-                  {doc.excerpt || doc.content?.substring(0, 200) + '...'}
-                </Typography>
-                {doc.relevanceScore && (
-                  <div className="mt-2 text-xs text-[#8e8ea0]">
-                    Relevance: {Math.round(doc.relevanceScore * 100)}%
-                  </div>
-                )}
-              </div>
-            ))}
+            {search.error ? (
+              <div className="text-sm text-red-400">{search.errorMessage}</div>
+            ) : search.results.length === 0 ? (
+              <div className="text-sm text-[#8e8ea0]">No matching passages</div>
+            ) : (
+              search.results.map((hit) => (
+                <a
+                  key={hit.chunkId}
+                  href={documentViewerUrl(hit)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block p-3 bg-[#1a1a1a] rounded-lg border border-[#4d4d4d] hover:border-[#8e8ea0] transition-colors"
+                >
+                  <Typography variant="small" className="font-medium text-white mb-1">
+                    [{hit.id}] {hit.title}
+                    {hit.pageNumber ? `, p. ${hit.pageNumber}` : ''}
+                  </Typography>
+                  <Typography variant="muted" className="text-[#8e8ea0] text-sm">
+                    {hit.snippet}
+                  </Typography>
+                </a>
+              ))
+            )}
           </div>
         );
+      }
 
       default:
         // Fallback for unknown tools
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Library } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+
+interface CollectionOption {
+  id: number;
+  name: string;
+  role: 'owner' | 'member' | 'public';
+  documentCount: number;
+}
+
+interface CollectionPickerProps {
+  // Selected collection ids; empty searches every accessible document
+  selectedIds: number[];
+  onChange: (ids: number[]) => void;
+  disabled?: boolean;
+}
+
+const ROLE_LABELS: Record<CollectionOption['role'], string> = {
+  owner: 'Yours',
+  member: 'Shared with you',
+  public: 'Public',
+};
+
+// Limits document retrieval for the conversation to the chosen collections.
+// Hidden until the user has at least one collection to choose from.
+export function CollectionPicker({ selectedIds, onChange, disabled }: CollectionPickerProps) {
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/collections')
+      .then((response) => (response.ok ? response.json() : { collections: [] }))
+      .then((data) => {
+        if (!cancelled) setCollections(data.collections ?? []);
+      })
+      .catch((error) => console.error('Failed to fetch collections:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (ref.current && !ref.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  if (collections.length === 0) return null;
+
+  const selected = collections.filter((collection) => selectedIds.includes(collection.id));
+  const label = selected.length === 0
+    ? 'All documents'
+    : selected.length === 1
+      ? selected[0].name
+      : `${selected.length} collections`;
+
+  const toggle = (id: number) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter((selectedId) => selectedId !== id) : [...selectedIds, id]);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        disabled={disabled}
+        onClick={() => setOpen(!open)}
+        className={cn('gap-1.5 text-sm font-normal', selected.length > 0 ? 'text-primary' : 'text-muted-foreground')}
+      >
+        <Library className="size-3.5" />
+        <span className="max-w-[10rem] truncate">{label}</span>
+        <ChevronDown className={cn('size-3 transition-transform', open && 'rotate-180')} />
+      </Button>
+      {open && (
+        <div className="absolute bottom-full left-0 z-50 mb-2 w-72 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md">
+          <div className="px-2 py-1.5 text-sm font-semibold">Search in</div>
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            className="flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+          >
+            <span>All documents</span>
+            {selected.length === 0 && <Check className="size-4 text-primary" />}
+          </button>
+          <div className="-mx-1 my-1 h-px bg-border" />
+          <div className="max-h-64 overflow-y-auto">
+            {collections.map((collection) => (
+              <button
+                key={collection.id}
+                type="button"
+                onClick={() => toggle(collection.id)}
+                className="flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+              >
+                <div className="flex min-w-0 flex-col gap-0.5">
+                  <span className="truncate font-medium">{collection.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {ROLE_LABELS[collection.role]} · {collection.documentCount} {collection.documentCount === 1 ? 'document' : 'documents'}
+                  </span>
+                </div>
+                {selectedIds.includes(collection.id) && <Check className="size-4 shrink-0 text-primary" />}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
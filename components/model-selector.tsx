@@ -10,27 +10,9 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from './ui/dropdown-menu';
+import { MODEL_REGISTRY } from '@/lib/ai/model-registry';
 
-const models = [
-  {
-    id: 'deepseek-chat',
-    name: 'DeepSeek V3.2',
-    description: 'Fast general-purpose model with tool support',
-    speed: 'fast',
-  },
-  {
-    id: 'gemini-2.5-flash',
-    name: 'Gemini 2.5 Flash',
-    description: "Google's best price-performance model",
-    speed: 'fast',
-  },
-  {
-    id: 'deepseek-reasoner',
-    name: 'DeepSeek Reasoner',
-    description: 'Advanced reasoning for math & science',
-    speed: 'balanced',
-  },
-];
+const models = MODEL_REGISTRY;
 
 interface ModelSelectorProps {
   selectedModel: string;
@@ -64,7 +46,7 @@ export function ModelSelector({ selectedModel, onModelChange, disabled }: ModelS
               <span className="text-xs text-muted-foreground">{model.description}</span>
             </div>
             <div className="flex items-center gap-2">
-              {model.speed === 'fast' && (
+              {model.performance === 'Fast' && (
                 <Zap className="size-3 text-amber-500" />
               )}
               {model.id === selectedModel && (
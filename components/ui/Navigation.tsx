@@ -6,6 +6,7 @@ import { usePathname } from 'next/navigation';
 import { cn } from '../../lib/utils';
 import { Button } from './button';
 import { UserMenu } from './AuthButton';
+import { MODEL_REGISTRY } from '../../lib/ai/model-registry';
 
 // Navigation items configuration
 const navigationItems = [
@@ -151,11 +152,9 @@ export function Navigation({
               onChange={(e) => onModelChange(e.target.value)}
               className="bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-neutral-300 focus:outline-none focus:ring-2 focus:ring-neutral-500/50 hover:border-neutral-600 transition-colors"
             >
-                <option value="grok-3-mini">Grok-3-Mini</option>
-                <option value="gemini-1.5-flash-latest">Gemini 1.5 Flash</option>
-                <option value="gpt-4o">GPT-4o</option>
-                <option value="claude-3-haiku-20240307">Claude 3 Haiku</option>
-                <option value="o4-mini">o4-mini</option>
+                {MODEL_REGISTRY.map((model) => (
+                  <option key={model.id} value={model.id}>{model.name}</option>
+                ))}
               </select>
             )}
 
@@ -13,6 +13,25 @@ export interface ConversationData {
   isArchived?: boolean
 }
 
+export interface MessageSearchFilters {
+  mode?: 'text' | 'semantic'
+  model?: string
+  from?: Date
+  hasToolResults?: boolean
+}
+
+export interface MessageSearchResult {
+  conversationId: string
+  conversationTitle: string
+  model: string
+  messageId: string
+  role: string
+  // Matches are wrapped in <mark></mark>; everything else is raw message text
+  snippet: string
+  score: number
+  createdAt: string
+}
+
 export interface UseConversationsReturn {
   conversations: ConversationData[]
   isLoading: boolean
@@ -21,6 +40,7 @@ export interface UseConversationsReturn {
   updateConversation: (id: string, updates: Partial<ConversationData>) => Promise<boolean>
   deleteConversation: (id: string, archive?: boolean) => Promise<boolean>
   searchConversations: (query: string) => Promise<ConversationData[]>
+  searchMessages: (query: string, filters?: MessageSearchFilters) => Promise<MessageSearchResult[]>
   refreshConversations: () => Promise<void>
 }
 
@@ -168,6 +188,31 @@ export function useConversations(): UseConversationsReturn {
     }
   }, [session?.user?.id])
 
+  const searchMessages = useCallback(async (query: string, filters: MessageSearchFilters = {}): Promise<MessageSearchResult[]> => {
+    if (!session?.user?.id) {
+      return []
+    }
+
+    try {
+      const params = new URLSearchParams({ q: query })
+      if (filters.mode) params.set('mode', filters.mode)
+      if (filters.model) params.set('model', filters.model)
+      if (filters.from) params.set('from', filters.from.toISOString())
+      if (filters.hasToolResults) params.set('hasToolResults', 'true')
+
+      const response = await fetch(`/api/conversations/search?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to search messages')
+      }
+
+      const data = await response.json()
+      return data.results || []
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search messages')
+      return []
+    }
+  }, [session?.user?.id])
+
   const refreshConversations = useCallback(async () => {
     await fetchConversations()
   }, [fetchConversations])
@@ -185,6 +230,7 @@ export function useConversations(): UseConversationsReturn {
     updateConversation,
     deleteConversation,
     searchConversations,
+    searchMessages,
     refreshConversations,
   }
 } 
\ No newline at end of file
@@ -0,0 +1,351 @@
+// Structure-aware chunking for document ingestion.
+// Text is parsed into blocks (headings, paragraphs, fenced code, display math,
+// tables) and packed into chunks of about RAG_CHUNK_SIZE tokens. Code, equations
+// and tables are kept whole, a heading always starts a new chunk and sets the
+// section path, and consecutive chunks of one section share about
+// RAG_CHUNK_OVERLAP tokens of trailing sentences.
+
+export interface TextChunk {
+  // Always text.slice(startOffset, endOffset) of the chunked text
+  content: string;
+  // Enclosing headings, outermost first
+  sectionPath: string[];
+  // 1-based page of the chunk's first character, when page offsets are known
+  pageNumber: number | null;
+  startOffset: number;
+  endOffset: number;
+  tokenCount: number;
+  // Lowest OCR confidence of the pages the chunk spans; null when none was OCR'd
+  ocrConfidence: number | null;
+}
+
+export interface ChunkingOptions {
+  chunkTokens?: number;
+  overlapTokens?: number;
+  // Offset of the first character of each page, in page order (PDFs)
+  pageOffsets?: number[];
+  // 'markdown' trusts only ATX headings, for text an extractor converted to
+  // Markdown; 'detect' (default) also recognizes LaTeX and numbered headings
+  headings?: HeadingStyle;
+  // OCR confidence of each page, null for pages with a text layer (PDFs)
+  pageOcrConfidence?: Array<number | null>;
+}
+
+export type HeadingStyle = 'detect' | 'markdown';
+
+// The options that come from the document rather than the deployment; stored
+// with the document so it can be re-chunked later
+export type DocumentChunkingOptions = Pick<ChunkingOptions, 'pageOffsets' | 'headings' | 'pageOcrConfidence'>;
+
+// The embedding model's tokenizer averages about 4 characters per token
+const CHARS_PER_TOKEN = 4;
+// A code block, equation or table may grow to this multiple of the chunk size
+// before it is split by lines
+const ATOMIC_OVERFLOW = 2;
+
+export const DEFAULT_CHUNK_TOKENS = parseInt(process.env.RAG_CHUNK_SIZE || '', 10) || 512;
+export const DEFAULT_OVERLAP_TOKENS = parseInt(process.env.RAG_CHUNK_OVERLAP || '', 10) || 50;
+
+const LATEX_HEADING_LEVELS: Record<string, number> = {
+  part: 1,
+  chapter: 2,
+  section: 3,
+  subsection: 4,
+  subsubsection: 5,
+  paragraph: 6,
+};
+
+// Words whose trailing period doesn't end a sentence
+const ABBREVIATIONS = new Set(['e.g', 'i.e', 'etc', 'cf', 'vs', 'fig', 'figs', 'eq', 'eqs', 'ref', 'sec', 'no', 'approx', 'resp', 'dr', 'prof', 'et al']);
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Unit {
+  start: number;
+  end: number;
+  tokens: number;
+  // Code, math and tables: never split and never used as overlap
+  atomic: boolean;
+  heading?: { level: number; title: string };
+}
+
+export function estimateChunkTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  while (start <= text.length) {
+    const newline = text.indexOf('\n', start);
+    const end = newline === -1 ? text.length : newline;
+    lines.push({ text: text.slice(start, end), start, end });
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+  return lines;
+}
+
+function parseHeading(line: string, style: HeadingStyle): { level: number; title: string } | null {
+  const markdown = line.match(/^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/);
+  if (markdown) return { level: markdown[1].length, title: markdown[2] };
+  if (style === 'markdown') return null;
+
+  const latex = line.match(/^\s*\\(part|chapter|section|subsection|subsubsection|paragraph)\*?\{(.+)\}\s*$/);
+  if (latex) return { level: LATEX_HEADING_LEVELS[latex[1]], title: latex[2] };
+
+  // Numbered headings as they come out of PDFs: "2 Kinematics", "2.3 Work and energy".
+  // Single numbers must not be followed by a dot to avoid matching list items.
+  const numbered = line.match(/^\s*(\d{1,2}(?:\.\d{1,2}){0,3})(\.)?\s+([A-Z][^\n]{0,70})$/);
+  if (numbered && (numbered[1].includes('.') || !numbered[2]) && !/[.:;,]$/.test(numbered[3].trim())
+    && numbered[3].trim().split(/\s+/).length <= 10) {
+    return { level: numbered[1].split('.').length, title: `${numbered[1]} ${numbered[3].trim()}` };
+  }
+
+  return null;
+}
+
+// Index of the line that closes the atomic block opened at lines[i], or -1
+// if lines[i] doesn't open one
+function findAtomicBlockEnd(lines: Line[], i: number): number {
+  const line = lines[i].text.trim();
+
+  const fence = line.match(/^(```|~~~)/);
+  if (fence) {
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j].text.trim().startsWith(fence[1])) return j;
+    }
+    return lines.length - 1;
+  }
+
+  const delimiters: Array<[string, string]> = [['$$', '$$'], ['\\[', '\\]']];
+  for (const [open, close] of delimiters) {
+    if (!line.startsWith(open)) continue;
+    if (line.indexOf(close, open.length) !== -1) return i;
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j].text.includes(close)) return j;
+    }
+    return lines.length - 1;
+  }
+
+  const environment = line.match(/^\\begin\{([^}]+)\}/);
+  if (environment) {
+    const begin = `\\begin{${environment[1]}}`;
+    const end = `\\end{${environment[1]}}`;
+    let depth = 0;
+    for (let j = i; j < lines.length; j++) {
+      depth += lines[j].text.split(begin).length - 1;
+      depth -= lines[j].text.split(end).length - 1;
+      if (depth <= 0) return j;
+    }
+    return lines.length - 1;
+  }
+
+  if (line.startsWith('|')) {
+    let j = i;
+    while (j + 1 < lines.length && lines[j + 1].text.trim().startsWith('|')) j++;
+    return j;
+  }
+
+  return -1;
+}
+
+function startsBlock(lines: Line[], i: number, style: HeadingStyle): boolean {
+  return lines[i].text.trim() === '' || parseHeading(lines[i].text, style) !== null || findAtomicBlockEnd(lines, i) !== -1;
+}
+
+// Sentence end offsets within `text`, ignoring periods inside inline math and
+// after common abbreviations
+function sentenceBoundaries(text: string): number[] {
+  const boundaries: number[] = [];
+  let inMath = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '$' && text[i - 1] !== '\\') {
+      inMath = !inMath;
+      continue;
+    }
+    if (inMath || !'.?!'.includes(char) || !/\s/.test(text[i + 1] ?? '')) continue;
+
+    if (char === '.') {
+      const word = text.slice(0, i).match(/(\S+)$/)?.[1].toLowerCase() ?? '';
+      if (word.length === 1 || ABBREVIATIONS.has(word.replace(/^\(/, ''))) continue;
+    }
+    boundaries.push(i + 1);
+  }
+  return boundaries;
+}
+
+// Splits [start, end) into pieces of at most maxChars, preferring the given
+// break points and falling back to whitespace
+function splitRange(text: string, start: number, end: number, maxChars: number, breaks: number[]): Array<[number, number]> {
+  const pieces: Array<[number, number]> = [];
+  let pieceStart = start;
+
+  while (end - pieceStart > maxChars) {
+    const limit = pieceStart + maxChars;
+    let cut = [...breaks].reverse().find(point => point > pieceStart && point <= limit);
+    if (cut === undefined) {
+      const space = text.lastIndexOf(' ', limit);
+      cut = space > pieceStart ? space : limit;
+    }
+    pieces.push([pieceStart, cut]);
+    pieceStart = cut;
+    while (pieceStart < end && /\s/.test(text[pieceStart])) pieceStart++;
+  }
+  if (pieceStart < end) pieces.push([pieceStart, end]);
+  return pieces;
+}
+
+function toUnits(text: string, chunkTokens: number, style: HeadingStyle): Unit[] {
+  const lines = splitLines(text);
+  const units: Unit[] = [];
+  const maxChars = chunkTokens * CHARS_PER_TOKEN;
+
+  const pushUnit = (start: number, end: number, atomic: boolean) => {
+    const slice = text.slice(start, end);
+    const leading = slice.length - slice.trimStart().length;
+    const trailing = slice.length - slice.trimEnd().length;
+    if (end - trailing <= start + leading) return;
+    units.push({ start: start + leading, end: end - trailing, tokens: estimateChunkTokens(slice.trim()), atomic });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.text.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const heading = parseHeading(line.text, style);
+    if (heading) {
+      units.push({ start: line.start, end: line.end, tokens: estimateChunkTokens(line.text), atomic: false, heading });
+      i++;
+      continue;
+    }
+
+    const blockEnd = findAtomicBlockEnd(lines, i);
+    if (blockEnd !== -1) {
+      const start = line.start;
+      const end = lines[blockEnd].end;
+      if (estimateChunkTokens(text.slice(start, end)) <= chunkTokens * ATOMIC_OVERFLOW) {
+        pushUnit(start, end, true);
+      } else {
+        const lineBreaks = lines.slice(i, blockEnd + 1).map(blockLine => blockLine.end);
+        for (const [pieceStart, pieceEnd] of splitRange(text, start, end, maxChars, lineBreaks)) {
+          pushUnit(pieceStart, pieceEnd, true);
+        }
+      }
+      i = blockEnd + 1;
+      continue;
+    }
+
+    // Paragraph: runs until a blank line or the start of another block
+    let paragraphEnd = i;
+    while (paragraphEnd + 1 < lines.length && !startsBlock(lines, paragraphEnd + 1, style)) paragraphEnd++;
+
+    const start = line.start;
+    const end = lines[paragraphEnd].end;
+    const paragraph = text.slice(start, end);
+    let sentenceStart = 0;
+    for (const boundary of [...sentenceBoundaries(paragraph), paragraph.length]) {
+      if (boundary <= sentenceStart) continue;
+      if (boundary - sentenceStart > maxChars) {
+        for (const [pieceStart, pieceEnd] of splitRange(text, start + sentenceStart, start + boundary, maxChars, [])) {
+          pushUnit(pieceStart, pieceEnd, false);
+        }
+      } else {
+        pushUnit(start + sentenceStart, start + boundary, false);
+      }
+      sentenceStart = boundary;
+    }
+    i = paragraphEnd + 1;
+  }
+
+  return units;
+}
+
+function pageAt(offset: number, pageOffsets?: number[]): number | null {
+  if (!pageOffsets || pageOffsets.length === 0) return null;
+  let page = 0;
+  while (page + 1 < pageOffsets.length && pageOffsets[page + 1] <= offset) page++;
+  return page + 1;
+}
+
+function ocrConfidence(startOffset: number, endOffset: number, options: ChunkingOptions): number | null {
+  const startPage = pageAt(startOffset, options.pageOffsets);
+  const endPage = pageAt(Math.max(startOffset, endOffset - 1), options.pageOffsets);
+  if (!options.pageOcrConfidence || startPage === null || endPage === null) return null;
+
+  const confidences = options.pageOcrConfidence
+    .slice(startPage - 1, endPage)
+    .filter((confidence): confidence is number => confidence !== null);
+  return confidences.length > 0 ? Math.min(...confidences) : null;
+}
+
+export function chunkDocument(text: string, options: ChunkingOptions = {}): TextChunk[] {
+  const chunkTokens = Math.max(options.chunkTokens ?? DEFAULT_CHUNK_TOKENS, 32);
+  const overlapTokens = Math.min(Math.max(options.overlapTokens ?? DEFAULT_OVERLAP_TOKENS, 0), Math.floor(chunkTokens / 2));
+
+  const chunks: TextChunk[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+  let current: Unit[] = [];
+  let currentTokens = 0;
+
+  const flush = () => {
+    // A chunk of nothing but headings adds no content of its own
+    if (current.every(unit => unit.heading)) return;
+
+    const startOffset = current[0].start;
+    const endOffset = current[current.length - 1].end;
+    chunks.push({
+      content: text.slice(startOffset, endOffset),
+      sectionPath: headings.map(heading => heading.title),
+      pageNumber: pageAt(startOffset, options.pageOffsets),
+      startOffset,
+      endOffset,
+      tokenCount: currentTokens,
+      ocrConfidence: ocrConfidence(startOffset, endOffset, options),
+    });
+  };
+
+  for (const unit of toUnits(text, chunkTokens, options.headings ?? 'detect')) {
+    if (unit.heading) {
+      if (current.length > 0) flush();
+      while (headings.length > 0 && headings[headings.length - 1].level >= unit.heading.level) headings.pop();
+      headings.push(unit.heading);
+      current = [unit];
+      currentTokens = unit.tokens;
+      continue;
+    }
+
+    const hasContent = current.some(existing => !existing.heading);
+    if (hasContent && currentTokens + unit.tokens > chunkTokens) {
+      flush();
+
+      // Carry trailing sentences over so text at the boundary keeps its context
+      const overlap: Unit[] = [];
+      let overlapSize = 0;
+      for (let k = current.length - 1; k > 0; k--) {
+        const previous = current[k];
+        if (previous.atomic || previous.heading || overlapSize + previous.tokens > overlapTokens) break;
+        overlap.unshift(previous);
+        overlapSize += previous.tokens;
+      }
+      current = overlap;
+      currentTokens = overlapSize;
+    }
+
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+
+  if (current.length > 0) flush();
+  return chunks;
+}
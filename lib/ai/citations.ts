@@ -0,0 +1,102 @@
+// Source citations for RAG answers, shared by the chat route and the chat UI.
+// Each chunk injected into the prompt gets a number the model cites as [n];
+// the same list is streamed to the client as a message annotation and saved
+// in the assistant message's metadata. Types rather than interfaces so they
+// satisfy the AI SDK's JSONValue.
+
+export type DocumentSource = {
+  // Citation number, as cited in the answer: [1], [2], ...
+  id: number;
+  chunkId: number;
+  documentId: number;
+  title: string;
+  pageNumber: number | null;
+  sectionPath: string[];
+  snippet: string;
+  similarity: number;
+};
+
+export const SOURCES_ANNOTATION = 'sources';
+
+export type SourcesAnnotation = {
+  type: typeof SOURCES_ANNOTATION;
+  sources: DocumentSource[];
+};
+
+const SNIPPET_LENGTH = 200;
+
+// [1], [2] or grouped [1, 3], but not markdown links ([1](...)), references
+// ([1][...]) or indexing like a[2]
+const CITATION_PATTERN = /(?<![\w\]])\[(\d+(?:\s*,\s*\d+)*)\](?![([])/g;
+
+export function toSnippet(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text;
+}
+
+export function documentViewerUrl(source: Pick<DocumentSource, 'documentId' | 'chunkId'>): string {
+  return `/documents/${source.documentId}?chunk=${source.chunkId}`;
+}
+
+// Tool whose results are numbered sources, see lib/ai/tools/searchDocumentsTool.ts
+export const SEARCH_DOCUMENTS_TOOL = 'searchDocuments';
+
+type SearchDocumentsInvocation = {
+  toolName: typeof SEARCH_DOCUMENTS_TOOL;
+  state: 'result';
+  result: { results?: DocumentSource[] };
+};
+
+// Sources from the pre-flight search (the annotation) and from searchDocuments
+// calls made while answering, by citation number
+export function getMessageSources(message: { annotations?: unknown[]; toolInvocations?: unknown[] }): DocumentSource[] {
+  const annotation = message.annotations?.find(
+    (candidate): candidate is SourcesAnnotation =>
+      typeof candidate === 'object' && candidate !== null && (candidate as { type?: unknown }).type === SOURCES_ANNOTATION
+  );
+  const searches = (message.toolInvocations ?? []).filter(
+    (invocation): invocation is SearchDocumentsInvocation =>
+      typeof invocation === 'object' && invocation !== null
+      && (invocation as { toolName?: unknown }).toolName === SEARCH_DOCUMENTS_TOOL
+      && (invocation as { state?: unknown }).state === 'result'
+  );
+  if (searches.length === 0) return annotation?.sources ?? [];
+
+  const byId = new Map((annotation?.sources ?? []).map(source => [source.id, source]));
+  for (const search of searches) {
+    for (const source of search.result?.results ?? []) {
+      if (!byId.has(source.id)) byId.set(source.id, source);
+    }
+  }
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+}
+
+// Annotations for a saved assistant message, so citations render after reload
+export function sourcesToAnnotations(metadata: { sources?: DocumentSource[] } | null | undefined): SourcesAnnotation[] | undefined {
+  return metadata?.sources?.length ? [{ type: SOURCES_ANNOTATION, sources: metadata.sources }] : undefined;
+}
+
+// The sources an answer actually cites, in citation order
+export function citedSources(content: string, sources: DocumentSource[]): DocumentSource[] {
+  const cited = new Set<number>();
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    match[1].split(',').forEach(id => cited.add(parseInt(id, 10)));
+  }
+  return sources.filter(source => cited.has(source.id));
+}
+
+// Turns [n] citations into markdown links to the document viewer. Numbers
+// without a matching source are left as written.
+export function linkCitations(content: string, sources: DocumentSource[]): string {
+  if (sources.length === 0) return content;
+  const byId = new Map(sources.map(source => [source.id, source]));
+
+  return content.replace(CITATION_PATTERN, (citation, ids: string) => {
+    const numbers = ids.split(',').map(id => parseInt(id, 10));
+    if (!numbers.every(id => byId.has(id))) return citation;
+    return numbers
+      // No link title: word-by-word streaming must not split the link
+      .map(id => `[\\[${id}\\]](${documentViewerUrl(byId.get(id)!)})`)
+      .join('');
+  });
+}
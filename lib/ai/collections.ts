@@ -0,0 +1,325 @@
+import { and, asc, eq, exists, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
+import { db, collections, collectionDocuments, collectionMembers, documents, users } from '@/lib/db';
+import { isLatestVersion } from './documents';
+import { ragCache } from './smart-rag-cache';
+
+// Collections group documents so retrieval can be limited to a course or a
+// textbook. The owner manages a collection's documents and members; members
+// and, when the collection is public, everyone can read and search it.
+// Changes that affect what a collection search returns drop the cached
+// searches limited to that collection.
+
+export type CollectionRole = 'owner' | 'member' | 'public';
+
+export type Collection = typeof collections.$inferSelect;
+
+export type CollectionSummary = Collection & {
+  role: CollectionRole;
+  documentCount: number;
+};
+
+export type CollectionInput = {
+  name?: string;
+  description?: string | null;
+  isPublic?: boolean;
+};
+
+// Collections a user may read. Anonymous users only see public ones.
+function readableBy(userId?: string | null): SQL {
+  if (!userId) return eq(collections.isPublic, true);
+  return or(
+    eq(collections.ownerId, userId),
+    eq(collections.isPublic, true),
+    sql`exists (
+      select 1 from ${collectionMembers}
+      where ${collectionMembers.collectionId} = ${collections.id}
+        and ${collectionMembers.userId} = ${userId}
+    )`
+  )!;
+}
+
+function roleColumn(userId?: string | null) {
+  return userId
+    ? sql<CollectionRole>`case
+        when ${collections.ownerId} = ${userId} then 'owner'
+        when exists (
+          select 1 from ${collectionMembers}
+          where ${collectionMembers.collectionId} = ${collections.id}
+            and ${collectionMembers.userId} = ${userId}
+        ) then 'member'
+        else 'public'
+      end`
+    : sql<CollectionRole>`'public'`;
+}
+
+const documentCount = sql<number>`(
+  select count(*) from ${collectionDocuments}
+  where ${collectionDocuments.collectionId} = ${collections.id}
+)`.mapWith(Number);
+
+// Validates create/update input; returns an error message or null
+export function validateCollectionInput(input: CollectionInput, creating: boolean): string | null {
+  if (creating || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return 'name is required';
+    if (input.name.trim().length > 255) return 'name must be at most 255 characters';
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== 'string') {
+    return 'description must be a string or null';
+  }
+  if (input.isPublic !== undefined && typeof input.isPublic !== 'boolean') {
+    return 'isPublic must be a boolean';
+  }
+  return null;
+}
+
+// Collections the user owns, is a member of, or that are public, owned first
+export async function listCollections(userId?: string | null): Promise<CollectionSummary[]> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const role = roleColumn(userId);
+  return db.select({
+    id: collections.id,
+    ownerId: collections.ownerId,
+    name: collections.name,
+    description: collections.description,
+    isPublic: collections.isPublic,
+    createdAt: collections.createdAt,
+    updatedAt: collections.updatedAt,
+    role,
+    documentCount,
+  })
+    .from(collections)
+    .where(readableBy(userId))
+    .orderBy(sql`case ${role} when 'owner' then 0 when 'member' then 1 else 2 end`, asc(collections.name));
+}
+
+// The collection if the user may read it, with their role in it
+export async function getCollection(collectionId: number, userId?: string | null): Promise<CollectionSummary | null> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [collection] = await db.select({
+    id: collections.id,
+    ownerId: collections.ownerId,
+    name: collections.name,
+    description: collections.description,
+    isPublic: collections.isPublic,
+    createdAt: collections.createdAt,
+    updatedAt: collections.updatedAt,
+    role: roleColumn(userId),
+    documentCount,
+  })
+    .from(collections)
+    .where(and(eq(collections.id, collectionId), readableBy(userId)))
+    .limit(1);
+  return collection ?? null;
+}
+
+export async function createCollection(ownerId: string, input: CollectionInput): Promise<Collection> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [collection] = await db.insert(collections)
+    .values({
+      ownerId,
+      name: input.name!.trim(),
+      description: input.description ?? null,
+      isPublic: input.isPublic ?? false,
+    })
+    .returning();
+  return collection;
+}
+
+export async function updateCollection(collectionId: number, input: CollectionInput): Promise<Collection> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [collection] = await db.update(collections)
+    .set({
+      ...(input.name !== undefined && { name: input.name.trim() }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.isPublic !== undefined && { isPublic: input.isPublic }),
+      updatedAt: new Date(),
+    })
+    .where(eq(collections.id, collectionId))
+    .returning();
+  if (input.isPublic !== undefined) {
+    await ragCache.invalidate({ collectionIds: [collectionId] });
+  }
+  return collection;
+}
+
+export async function deleteCollection(collectionId: number): Promise<void> {
+  if (!db) throw new Error('Database is not initialized');
+  await db.delete(collections).where(eq(collections.id, collectionId));
+  await ragCache.invalidate({ collectionIds: [collectionId] });
+}
+
+export async function getCollectionDocuments(collectionId: number) {
+  if (!db) throw new Error('Database is not initialized');
+
+  return db.select({
+    id: documents.id,
+    title: documents.title,
+    version: documents.version,
+    isPublic: documents.isPublic,
+    addedAt: collectionDocuments.addedAt,
+  })
+    .from(collectionDocuments)
+    .innerJoin(documents, eq(collectionDocuments.documentId, documents.id))
+    .where(eq(collectionDocuments.collectionId, collectionId))
+    .orderBy(asc(documents.title));
+}
+
+// Adds a document the user can search (their own, public or anonymous) to the
+// collection. Returns false when there is no such document.
+export async function addCollectionDocument(collectionId: number, documentId: number, userId: string): Promise<boolean> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [document] = await db.select({ id: documents.id })
+    .from(documents)
+    .where(and(
+      eq(documents.id, documentId),
+      or(eq(documents.userId, userId), eq(documents.isPublic, true), isNull(documents.userId)),
+      isLatestVersion()
+    ))
+    .limit(1);
+  if (!document) return false;
+
+  await db.batch([
+    db.insert(collectionDocuments)
+      .values({ collectionId, documentId })
+      .onConflictDoNothing(),
+    db.update(collections)
+      .set({ updatedAt: new Date() })
+      .where(eq(collections.id, collectionId)),
+  ]);
+  await ragCache.invalidate({ collectionIds: [collectionId] });
+  return true;
+}
+
+// Returns false when the document was not in the collection
+export async function removeCollectionDocument(collectionId: number, documentId: number): Promise<boolean> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const removed = await db.delete(collectionDocuments)
+    .where(and(
+      eq(collectionDocuments.collectionId, collectionId),
+      eq(collectionDocuments.documentId, documentId)
+    ))
+    .returning({ documentId: collectionDocuments.documentId });
+  if (removed.length > 0) {
+    await ragCache.invalidate({ collectionIds: [collectionId] });
+  }
+  return removed.length > 0;
+}
+
+// A new version of a document stays in the collections of the version it replaces
+export function copyCollectionMemberships(fromDocumentId: number, toDocumentId: number) {
+  if (!db) throw new Error('Database is not initialized');
+
+  return db.insert(collectionDocuments).select(
+    db.select({
+      collectionId: collectionDocuments.collectionId,
+      documentId: sql<number>`${toDocumentId}::integer`.as('document_id'),
+      addedAt: collectionDocuments.addedAt,
+    })
+      .from(collectionDocuments)
+      .where(eq(collectionDocuments.documentId, fromDocumentId))
+  );
+}
+
+export async function getCollectionMembers(collectionId: number) {
+  if (!db) throw new Error('Database is not initialized');
+
+  return db.select({
+    userId: users.id,
+    name: users.name,
+    email: users.email,
+    addedAt: collectionMembers.addedAt,
+  })
+    .from(collectionMembers)
+    .innerJoin(users, eq(collectionMembers.userId, users.id))
+    .where(eq(collectionMembers.collectionId, collectionId))
+    .orderBy(asc(users.email));
+}
+
+// The registered user with this email address, case-insensitively
+export async function findUserByEmail(email: string) {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [user] = await db.select({ userId: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(sql`lower(${users.email}) = ${email.trim().toLowerCase()}`)
+    .limit(1);
+  return user ?? null;
+}
+
+export async function addCollectionMember(collectionId: number, userId: string): Promise<void> {
+  if (!db) throw new Error('Database is not initialized');
+
+  await db.insert(collectionMembers)
+    .values({ collectionId, userId })
+    .onConflictDoNothing();
+  await ragCache.invalidate({ collectionIds: [collectionId] });
+}
+
+// Returns false when the user was not a member
+export async function removeCollectionMember(collectionId: number, userId: string): Promise<boolean> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const removed = await db.delete(collectionMembers)
+    .where(and(
+      eq(collectionMembers.collectionId, collectionId),
+      eq(collectionMembers.userId, userId)
+    ))
+    .returning({ userId: collectionMembers.userId });
+  if (removed.length > 0) {
+    await ragCache.invalidate({ collectionIds: [collectionId] });
+  }
+  return removed.length > 0;
+}
+
+// Search filter for documents in the given collections that the user may read.
+// Collections the user cannot read contribute nothing.
+export function collectionDocumentCondition(collectionIds: number[], userId?: string | null): SQL {
+  return inArray(
+    documents.id,
+    db!.select({ id: collectionDocuments.documentId })
+      .from(collectionDocuments)
+      .innerJoin(collections, eq(collectionDocuments.collectionId, collections.id))
+      .where(and(inArray(collections.id, collectionIds), readableBy(userId)))
+  );
+}
+
+// Most collections a conversation can be limited to
+export const MAX_SELECTED_COLLECTIONS = 20;
+
+// Documents the user may read: their own, public and anonymous documents, and
+// documents in collections they can read
+export function documentReadableBy(userId?: string | null): SQL {
+  const inReadableCollection = exists(
+    db!.select({ one: sql`1` })
+      .from(collectionDocuments)
+      .innerJoin(collections, eq(collectionDocuments.collectionId, collections.id))
+      .where(and(eq(collectionDocuments.documentId, documents.id), readableBy(userId)))
+  );
+  return or(
+    ...(userId ? [eq(documents.userId, userId)] : []),
+    eq(documents.isPublic, true),
+    isNull(documents.userId),
+    inReadableCollection
+  )!;
+}
+
+// Parses a list of collection ids from a request body; null when malformed
+export function parseCollectionIds(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length > MAX_SELECTED_COLLECTIONS) return null;
+  if (!value.every(id => Number.isInteger(id) && id > 0)) return null;
+  return [...new Set(value as number[])];
+}
+
+// Whether two collection selections cover the same collections; null and []
+// both mean no restriction
+export function sameCollections(a: number[] | null | undefined, b: number[] | null | undefined): boolean {
+  const left = new Set(a ?? []);
+  const right = new Set(b ?? []);
+  return left.size === right.size && [...left].every(id => right.has(id));
+}
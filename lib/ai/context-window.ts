@@ -0,0 +1,202 @@
+import { generateText, type CoreMessage, type LanguageModel, type LanguageModelUsage } from 'ai';
+import { getModelDefinition, type ModelProvider } from './model-registry';
+
+// Token-budgeted context windowing for chat requests.
+// The system prompt, RAG context and rolling summary are always kept; the most
+// recent turns fill the remaining budget and older turns are folded into a
+// summary that is stored on the conversation row.
+
+// Average characters per token by provider; no tokenizer ships with the app so
+// counts are estimates, erring on the high side.
+const CHARS_PER_TOKEN: Record<ModelProvider, number> = {
+  deepseek: 3.5,
+  openrouter: 3.5,
+  google: 4,
+  openai: 4,
+  anthropic: 3.5,
+  xai: 4,
+};
+
+// Flat estimate for non-text parts (images, files)
+const ATTACHMENT_TOKENS = 1000;
+// Per-message overhead for role markers and formatting
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const DEFAULT_CONTEXT_BUDGET = parseInt(process.env.CHAT_CONTEXT_TOKEN_BUDGET || '', 10) || 16000;
+const RESPONSE_RESERVE_TOKENS = parseInt(process.env.CHAT_RESPONSE_RESERVE_TOKENS || '', 10) || 4096;
+
+// When older turns have to be summarized, trim the kept window down to this
+// fraction of the available budget so the summary isn't regenerated every turn.
+const SUMMARY_HYSTERESIS = 0.75;
+
+export interface ConversationSummaryState {
+  summary: string | null;
+  // Number of leading messages already folded into `summary`
+  summaryMessageCount: number;
+}
+
+export interface ContextWindow {
+  messages: CoreMessage[];
+  // Summary covering every message before `messages`, if any
+  summary: string | null;
+  summaryMessageCount: number;
+  // True when the summary was regenerated and should be persisted
+  summaryChanged: boolean;
+  estimatedTokens: number;
+  budget: number;
+}
+
+export function estimateTokens(text: string, modelId: string): number {
+  if (!text) return 0;
+  const provider = getModelDefinition(modelId)?.provider;
+  const charsPerToken = provider ? CHARS_PER_TOKEN[provider] : 3.5;
+  return Math.ceil(text.length / charsPerToken);
+}
+
+export function estimateMessageTokens(message: CoreMessage, modelId: string): number {
+  // Clients send UI messages, which carry tool calls and results alongside the text
+  const toolInvocations = (message as any).toolInvocations;
+  const toolTokens = toolInvocations ? estimateTokens(JSON.stringify(toolInvocations), modelId) : 0;
+
+  if (typeof message.content === 'string') {
+    return estimateTokens(message.content, modelId) + toolTokens + MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  let tokens = MESSAGE_OVERHEAD_TOKENS + toolTokens;
+  for (const part of message.content as any[]) {
+    if (part.type === 'text' || part.type === 'reasoning') {
+      tokens += estimateTokens(part.text, modelId);
+    } else if (part.type === 'image' || part.type === 'file') {
+      tokens += ATTACHMENT_TOKENS;
+    } else {
+      tokens += estimateTokens(JSON.stringify(part), modelId);
+    }
+  }
+  return tokens;
+}
+
+// Budget for prompt tokens: the configured budget, capped by what the model can take
+export function getContextBudget(modelId: string): number {
+  const contextWindow = getModelDefinition(modelId)?.capabilities.contextWindow ?? DEFAULT_CONTEXT_BUDGET;
+  return Math.min(DEFAULT_CONTEXT_BUDGET, contextWindow - RESPONSE_RESERVE_TOKENS);
+}
+
+export function formatSummaryForPrompt(summary: string): string {
+  return `## Summary of earlier conversation\n\nThe following summarizes earlier turns that are no longer shown in full:\n\n${summary}`;
+}
+
+export function messageToTranscriptLine(message: CoreMessage): string {
+  const content = typeof message.content === 'string'
+    ? message.content
+    : (message.content as any[])
+        .map(part => (part.type === 'text' ? part.text : `[${part.type}]`))
+        .join(' ');
+  return `${message.role.toUpperCase()}: ${content}`;
+}
+
+// Fold `newMessages` into an existing summary. Only the turns that fell out of
+// the window since the last update are sent, so cost grows with new turns only.
+export async function summarizeMessages(
+  model: LanguageModel,
+  previousSummary: string | null,
+  newMessages: CoreMessage[]
+): Promise<{ summary: string; usage: LanguageModelUsage }> {
+  const transcript = newMessages.map(messageToTranscriptLine).join('\n\n');
+
+  const { text, usage } = await generateText({
+    model,
+    system: 'You maintain a running summary of a STEM tutoring conversation. Keep the key questions, definitions, formulas (in $...$ LaTeX), results, and any preferences the student stated. Be concise and factual; write at most 300 words. Output only the updated summary.',
+    prompt: previousSummary
+      ? `Current summary:\n${previousSummary}\n\nNew turns to fold in:\n${transcript}\n\nUpdated summary:`
+      : `Conversation turns:\n${transcript}\n\nSummary:`,
+  });
+
+  return { summary: text.trim(), usage };
+}
+
+// Select the messages to send for this turn and update the rolling summary when
+// turns fall out of the window. Without a `summarizer`, older turns are dropped.
+export async function buildContextWindow({
+  messages,
+  modelId,
+  fixedPrompt,
+  state,
+  summarizer,
+  budget = getContextBudget(modelId),
+}: {
+  messages: CoreMessage[];
+  modelId: string;
+  // System prompt plus RAG context; always sent
+  fixedPrompt: string;
+  state: ConversationSummaryState;
+  summarizer?: (previousSummary: string | null, newMessages: CoreMessage[]) => Promise<string>;
+  budget?: number;
+}): Promise<ContextWindow> {
+  // A stale summary can cover more messages than the client sent (e.g. after a
+  // message was deleted); treat it as covering the whole prefix we have.
+  let summaryMessageCount = Math.min(state.summaryMessageCount, Math.max(messages.length - 1, 0));
+  let summary = state.summary;
+
+  const fixedTokens = estimateTokens(fixedPrompt, modelId);
+  const summaryTokens = summary ? estimateTokens(formatSummaryForPrompt(summary), modelId) : 0;
+  const available = Math.max(budget - fixedTokens - summaryTokens, 0);
+
+  const messageTokens = messages.map(message => estimateMessageTokens(message, modelId));
+
+  // Walk back from the newest message; the latest turn is always kept. The window
+  // is then moved forward to a user message so it never opens mid-exchange.
+  const fitFrom = (limit: number) => {
+    let used = 0;
+    let start = messages.length;
+    while (start > summaryMessageCount && (start === messages.length || used + messageTokens[start - 1] <= limit)) {
+      used += messageTokens[start - 1];
+      start--;
+    }
+    while (start > summaryMessageCount && start < messages.length - 1 && messages[start].role !== 'user') {
+      used -= messageTokens[start];
+      start++;
+    }
+    return { start, used };
+  };
+
+  let { start, used } = fitFrom(available);
+
+  if (start === summaryMessageCount) {
+    return {
+      messages: messages.slice(start),
+      summary,
+      summaryMessageCount,
+      summaryChanged: false,
+      estimatedTokens: fixedTokens + summaryTokens + used,
+      budget,
+    };
+  }
+
+  // Some unsummarized turns don't fit: trim a bit further so the next few turns
+  // fit without another summary pass
+  ({ start, used } = fitFrom(Math.floor(available * SUMMARY_HYSTERESIS)));
+  const overflow = messages.slice(summaryMessageCount, start);
+  let summaryChanged = false;
+
+  if (summarizer) {
+    try {
+      summary = await summarizer(summary, overflow);
+      summaryMessageCount = start;
+      summaryChanged = true;
+    } catch (error) {
+      console.error('[Context Window] Failed to update conversation summary, dropping older turns instead:', error);
+    }
+  }
+
+  const finalSummaryTokens = summary ? estimateTokens(formatSummaryForPrompt(summary), modelId) : 0;
+  console.log(`[Context Window] Sending ${messages.length - start}/${messages.length} messages (~${fixedTokens + finalSummaryTokens + used} of ${budget} tokens)${summaryChanged ? `, summary now covers ${summaryMessageCount} messages` : ''}`);
+
+  return {
+    messages: messages.slice(start),
+    summary,
+    summaryMessageCount,
+    summaryChanged,
+    estimatedTokens: fixedTokens + finalSummaryTokens + used,
+    budget,
+  };
+}
@@ -1,10 +1,14 @@
-import { db, documents, chunks } from '../db';
-import { generateEmbeddings } from './embedding';
-import { eq, and, or, isNull } from 'drizzle-orm';
-import { sql } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { db, documents, chunks, collectionDocuments } from '../db';
+import { chunkContentHash, embeddingModelId, generateEmbedding } from './embedding';
+import type { DocumentChunkingOptions, TextChunk } from './chunking';
+import { ragCache, type RAGCacheInvalidation } from './smart-rag-cache';
+import { eq, and, or, isNull, inArray } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { sql, type SQL } from 'drizzle-orm';
 
 // Defensive text sanitization to ensure no null bytes reach the database
-function sanitizeForDatabase(text: string): string {
+export function sanitizeForDatabase(text: string): string {
   if (!text || typeof text !== 'string') {
     return '';
   }
@@ -16,48 +20,126 @@ function sanitizeForDatabase(text: string): string {
     .trim();
 }
 
-// Add a document and its embeddings to the database
-export async function addDocument(title: string, content: string, userId?: string | null) {
-  if (process.env.RAG_ENABLED !== 'true' || !db) {
-    console.warn('RAG is disabled or DB is not initialized. Skipping addDocument.');
-    // Consider throwing an error or returning a specific status if preferred
-    return null; 
-  }
-  
-  // Defensive sanitization to prevent any null bytes from reaching the database
-  const sanitizedTitle = sanitizeForDatabase(title);
-  const sanitizedContent = sanitizeForDatabase(content);
-  
-  // Validate that we have meaningful content after sanitization
-  if (!sanitizedContent.trim()) {
-    throw new Error('Document content is empty after sanitization');
+export function contentHash(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export type EmbeddedChunk = TextChunk & { embedding: number[] };
+
+// Documents no newer version replaces; superseded versions keep no chunks
+export function isLatestVersion(): SQL {
+  return sql`not exists (select 1 from ${documents} newer where newer.previous_version_id = ${documents.id})`;
+}
+
+// Counts chunks as retrieved, for the hit counts in the document viewer
+export async function recordChunkRetrievals(chunkIds: number[]): Promise<void> {
+  if (!db || chunkIds.length === 0) return;
+  await db.update(chunks)
+    .set({ retrievalCount: sql`${chunks.retrievalCount} + 1`, lastRetrievedAt: new Date() })
+    .where(inArray(chunks.id, chunkIds));
+}
+
+// Cached searches that may include these documents: everyone's for public and
+// anonymous documents, otherwise the owner's and those limited to collections
+// containing them. Look this up before a change that removes or hides the
+// documents and invalidate after it; if the lookup fails, everything is dropped.
+export async function documentCacheScopes(documentIds: number[]): Promise<RAGCacheInvalidation> {
+  if (!db || documentIds.length === 0) return {};
+  try {
+    const [rows, memberships] = await Promise.all([
+      db.select({ userId: documents.userId, isPublic: documents.isPublic })
+        .from(documents)
+        .where(inArray(documents.id, documentIds)),
+      db.selectDistinct({ collectionId: collectionDocuments.collectionId })
+        .from(collectionDocuments)
+        .where(inArray(collectionDocuments.documentId, documentIds)),
+    ]);
+    if (rows.some(row => row.isPublic || !row.userId)) return 'all';
+    return {
+      userIds: [...new Set(rows.map(row => row.userId!))],
+      collectionIds: memberships.map(membership => membership.collectionId),
+    };
+  } catch (error) {
+    console.error('[Documents] Failed to look up cached searches to invalidate:', error);
+    return 'all';
   }
-  
-  // First, insert the document with user association
-  const [document] = await db
-    .insert(documents)
-    .values({
-      title: sanitizedTitle,
-      content: sanitizedContent,
-      userId: userId || null, // Associate with user if authenticated, null for anonymous
-    })
-    .returning({ id: documents.id });
+}
+
+// Drops cached searches after documents were added or changed
+export async function invalidateDocumentSearches(documentIds: number[]): Promise<void> {
+  await ragCache.invalidate(await documentCacheScopes(documentIds));
+}
+
+export type NewDocument = {
+  title: string;
+  content: string;
+  userId?: string | null;
+  chunkingOptions?: DocumentChunkingOptions;
+  // Set when the document replaces an earlier upload of the same file
+  version?: number;
+  previousVersionId?: number | null;
+};
 
-  // Generate embeddings for the document
-  const embeddedChunks = await generateEmbeddings(sanitizedContent);
+// Rows per chunk INSERT statement
+const CHUNK_INSERT_BATCH = 100;
 
-  // Insert the chunks with their embeddings
-  for (const chunk of embeddedChunks) {
-    // Also sanitize chunk content to be extra safe
-    const sanitizedChunkContent = sanitizeForDatabase(chunk.content);
-    await db.insert(chunks).values({
-      documentId: document.id,
-      content: sanitizedChunkContent,
-      embedding: chunk.embedding,
-    });
+// Documents are written under an id taken from their sequence up front, so the
+// document row and its chunks can go into one db.batch (a single transaction;
+// neon-http has no interactive transactions) and a failure leaves no orphans.
+export async function allocateDocumentId(): Promise<number> {
+  if (!db) throw new Error('Database is not initialized');
+  const result = await db.execute(sql`select nextval(pg_get_serial_sequence('documents', 'id')) as id`);
+  return Number(result.rows[0].id);
+}
+
+// Statements that store chunks of `documentId`, with the hash and model that
+// let re-indexing skip them while they are unchanged
+export function chunkInserts(documentId: number, embeddedChunks: EmbeddedChunk[]): BatchItem<'pg'>[] {
+  if (!db) throw new Error('Database is not initialized');
+
+  const statements: BatchItem<'pg'>[] = [];
+  const embeddingModel = embeddedChunks.length > 0 ? embeddingModelId() : null;
+  for (let i = 0; i < embeddedChunks.length; i += CHUNK_INSERT_BATCH) {
+    statements.push(
+      db.insert(chunks).values(embeddedChunks.slice(i, i + CHUNK_INSERT_BATCH).map(chunk => ({
+        documentId,
+        content: chunk.content,
+        embedding: chunk.embedding,
+        sectionPath: chunk.sectionPath,
+        pageNumber: chunk.pageNumber,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        tokenCount: chunk.tokenCount,
+        ocrConfidence: chunk.ocrConfidence,
+        contentHash: chunkContentHash(chunk),
+        embeddingModel,
+      })))
+    );
   }
+  return statements;
+}
+
+// Statements that store a document and its chunks under `documentId`
+export function documentInserts(
+  documentId: number,
+  document: NewDocument,
+  embeddedChunks: EmbeddedChunk[]
+): BatchItem<'pg'>[] {
+  if (!db) throw new Error('Database is not initialized');
 
-  return document.id;
+  return [
+    db.insert(documents).values({
+      id: documentId,
+      title: document.title,
+      content: document.content,
+      userId: document.userId || null, // Associate with user if authenticated, null for anonymous
+      contentHash: contentHash(document.content),
+      chunkingOptions: document.chunkingOptions ?? null,
+      version: document.version ?? 1,
+      previousVersionId: document.previousVersionId ?? null,
+    }),
+    ...chunkInserts(documentId, embeddedChunks),
+  ];
 }
 
 // Search for relevant document chunks based on a query with user context
@@ -69,10 +151,10 @@ export async function searchDocuments(query: string, limit = 5, userId?: string
   
   try {
     // Generate embedding for the query
-    const [queryEmbedding] = await generateEmbeddings(query);
+    const queryEmbedding = await generateEmbedding(query);
     
     // Format the embedding as a proper vector literal for PostgreSQL
-    const embeddingVector = `[${queryEmbedding.embedding.join(',')}]`;
+    const embeddingVector = `[${queryEmbedding.join(',')}]`;
     
     // Build WHERE clause for user filtering using Drizzle ORM
     let whereCondition;
@@ -0,0 +1,180 @@
+import { embedMany, type EmbeddingModel } from 'ai';
+import { createOpenAI, openai } from '@ai-sdk/openai';
+import { google } from '@ai-sdk/google';
+import { VECTOR_DIMENSIONS } from '@/lib/db/schema';
+
+// Embedding providers behind lib/ai/embedding.ts, selected per deployment with
+// RAG_EMBEDDING_PROVIDER (openai | google | openai-compatible | local) and
+// RAG_EMBEDDING_MODEL. The local provider hashes words and character trigrams
+// into a fixed-size vector: no network or API key, deterministic, and good
+// enough for offline development and tests, though not for semantic search.
+
+// Neural embedding models put related passages above this cosine similarity
+const MODEL_SIMILARITY_THRESHOLD = 0.5;
+// Hashed features give relevant passages about 0.25-0.6 and unrelated ones
+// mostly below 0.15
+const LOCAL_SIMILARITY_THRESHOLD = 0.15;
+
+export interface EmbeddingProvider {
+  // Stored in chunks.embedding_model; chunks with another id are re-embedded
+  id: string;
+  // Length of the returned vectors, when known up front
+  dimensions: number | null;
+  // Most values per request
+  maxBatchSize: number;
+  // Longer inputs are truncated to this many characters
+  maxInputChars: number;
+  // Minimum cosine similarity for a vector hit when RAG_SIMILARITY_THRESHOLD
+  // is unset; similarities are on a different scale for each kind of model
+  defaultSimilarityThreshold: number;
+  embed(values: string[]): Promise<number[][]>;
+}
+
+type ProviderFactory = (settings: { model?: string; dimensions?: number }) => EmbeddingProvider;
+
+function readInt(name: string): number | undefined {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+// Models keep their plain id at their default size; a custom size changes the
+// vectors, so it becomes part of the id
+function providerId(provider: string, model: string, dimensions: number | undefined, defaultDimensions: number | null): string {
+  return dimensions === undefined || dimensions === defaultDimensions
+    ? `${provider}/${model}`
+    : `${provider}/${model}@${dimensions}`;
+}
+
+function requireEnv(name: string, provider: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set. It is required by the "${provider}" embedding provider (RAG_EMBEDDING_PROVIDER).`);
+  }
+  return value;
+}
+
+function sdkProvider(
+  id: string,
+  model: EmbeddingModel<string>,
+  dimensions: number | null,
+  limits: { maxBatchSize: number; maxInputChars: number }
+): EmbeddingProvider {
+  return {
+    id,
+    dimensions,
+    ...limits,
+    defaultSimilarityThreshold: MODEL_SIMILARITY_THRESHOLD,
+    async embed(values) {
+      const { embeddings } = await embedMany({ model, values });
+      return embeddings;
+    },
+  };
+}
+
+const openaiProvider: ProviderFactory = ({ model = 'text-embedding-3-small', dimensions }) => {
+  requireEnv('OPENAI_API_KEY', 'openai');
+  // ada-002 has a fixed size; text-embedding-3 models can be shortened
+  const defaultDimensions = model === 'text-embedding-3-large' ? 3072 : 1536;
+  const sized = model.startsWith('text-embedding-3') ? dimensions : undefined;
+  return sdkProvider(
+    providerId('openai', model, sized, defaultDimensions),
+    openai.embedding(model, { dimensions: sized }),
+    sized ?? defaultDimensions,
+    // Roughly the 8k token input limit
+    { maxBatchSize: 512, maxInputChars: 24000 }
+  );
+};
+
+const googleProvider: ProviderFactory = ({ model = 'text-embedding-004', dimensions }) => {
+  requireEnv('GOOGLE_GENERATIVE_AI_API_KEY', 'google');
+  return sdkProvider(
+    providerId('google', model, dimensions, 768),
+    google.textEmbeddingModel(model, { outputDimensionality: dimensions }),
+    dimensions ?? 768,
+    // 2k token input limit; the API takes 100 texts per request
+    { maxBatchSize: 100, maxInputChars: 6000 }
+  );
+};
+
+// Any server with an OpenAI-style /embeddings endpoint (Ollama, LM Studio,
+// vLLM, Together, ...), configured with RAG_EMBEDDING_BASE_URL
+const openaiCompatibleProvider: ProviderFactory = ({ model, dimensions }) => {
+  const baseURL = requireEnv('RAG_EMBEDDING_BASE_URL', 'openai-compatible');
+  if (!model) {
+    throw new Error('RAG_EMBEDDING_MODEL is not set. It is required by the "openai-compatible" embedding provider.');
+  }
+  const provider = createOpenAI({ baseURL, apiKey: process.env.RAG_EMBEDDING_API_KEY || 'none' });
+  return sdkProvider(
+    providerId('openai-compatible', model, dimensions, null),
+    provider.embedding(model, { dimensions }),
+    dimensions ?? null,
+    { maxBatchSize: 64, maxInputChars: 8000 }
+  );
+};
+
+// FNV-1a, for spreading features over the vector
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function localEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? ([] as string[]);
+
+  const add = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    // The top bit picks the sign so unrelated features cancel out on average
+    vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+  };
+
+  words.forEach((word, index) => {
+    add(`w:${word}`, 1);
+    if (index > 0) add(`b:${words[index - 1]} ${word}`, 0.5);
+    const padded = `<${word}>`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, 0.25);
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+const localProvider: ProviderFactory = ({ model = 'hashing-v1', dimensions = VECTOR_DIMENSIONS }) => ({
+  id: providerId('local', model, dimensions, null),
+  dimensions,
+  maxBatchSize: 1000,
+  maxInputChars: 100000,
+  defaultSimilarityThreshold: LOCAL_SIMILARITY_THRESHOLD,
+  async embed(values) {
+    return values.map(value => localEmbedding(value, dimensions));
+  },
+});
+
+const PROVIDERS: Record<string, ProviderFactory> = {
+  openai: openaiProvider,
+  google: googleProvider,
+  'openai-compatible': openaiCompatibleProvider,
+  local: localProvider,
+};
+
+// Builds the configured provider. Throws with the setting to fix when the
+// provider is unknown or its credentials are missing.
+export function createEmbeddingProvider(name = process.env.RAG_EMBEDDING_PROVIDER || 'openai'): EmbeddingProvider {
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown RAG_EMBEDDING_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+
+  const provider = factory({
+    model: process.env.RAG_EMBEDDING_MODEL || undefined,
+    dimensions: readInt('RAG_EMBEDDING_DIMENSIONS'),
+  });
+  const maxBatchSize = readInt('RAG_EMBEDDING_BATCH_SIZE');
+  return maxBatchSize ? { ...provider, maxBatchSize: Math.min(maxBatchSize, provider.maxBatchSize) } : provider;
+}
@@ -1,55 +1,141 @@
-import { embedMany } from 'ai';
-import { openai } from '@ai-sdk/openai';
-
-const embeddingModel = openai.embedding('text-embedding-3-small');
-
-// Split text into smaller chunks for embedding
-const generateChunks = (input: string, maxChunkSize = 512): string[] => {
-  const sentences = input
-    .replace(/([.?!])\s+/g, '$1\n')
-    .split('\n')
-    .filter(sentence => sentence.trim() !== '');
-  
-  const chunks: string[] = [];
-  let currentChunk = '';
-  
-  for (const sentence of sentences) {
-    // If adding this sentence would exceed max chunk size, save current chunk and start a new one
-    if (currentChunk.length + sentence.length > maxChunkSize && currentChunk.length > 0) {
-      chunks.push(currentChunk.trim());
-      currentChunk = sentence;
-    } else {
-      currentChunk += (currentChunk.length > 0 ? ' ' : '') + sentence;
+import { createHash } from 'crypto';
+import { chunkDocument, type ChunkingOptions, type TextChunk } from './chunking';
+import { createEmbeddingProvider, type EmbeddingProvider } from './embedding-providers';
+import { VECTOR_DIMENSIONS } from '@/lib/db/schema';
+
+// Embeddings for document chunks, search queries, messages and molecules, from
+// the provider configured in embedding-providers.ts. Every function throws with
+// the reason when embeddings can't be produced; callers that can do without
+// (e.g. hybrid search falling back to full-text) check isEmbeddingConfigured().
+
+let provider: EmbeddingProvider | null = null;
+
+function tooLarge(dimensions: number, id: string): Error {
+  return new Error(
+    `${id} embeddings have ${dimensions} dimensions but the vector columns hold ${VECTOR_DIMENSIONS}. `
+    + `Set RAG_EMBEDDING_DIMENSIONS to at most ${VECTOR_DIMENSIONS}, or resize the columns with RAG_VECTOR_DIMENSIONS (docs/production-deployment-guide.md, section 6.1).`
+  );
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    const created = createEmbeddingProvider();
+    if (created.dimensions !== null && created.dimensions > VECTOR_DIMENSIONS) {
+      throw tooLarge(created.dimensions, created.id);
     }
+    provider = created;
   }
-  
-  // Add the last chunk if it's not empty
-  if (currentChunk.trim().length > 0) {
-    chunks.push(currentChunk.trim());
+  return provider;
+}
+
+export function isEmbeddingConfigured(): boolean {
+  try {
+    getEmbeddingProvider();
+    return true;
+  } catch {
+    return false;
   }
-  
-  return chunks;
-};
+}
 
-export async function generateEmbeddings(
-  content: string
-): Promise<Array<{ embedding: number[]; content: string }>> {
-  if (process.env.RAG_ENABLED !== 'true') {
-    console.warn('RAG is disabled. Skipping generateEmbeddings.');
-    return [];
+// Stored on each chunk; chunks embedded by another model are re-embedded
+export function embeddingModelId(): string {
+  return getEmbeddingProvider().id;
+}
+
+// Zero-padding a smaller embedding to the column size keeps cosine similarity
+function fitToColumn(embedding: number[], id: string): number[] {
+  if (embedding.length > VECTOR_DIMENSIONS) throw tooLarge(embedding.length, id);
+  if (embedding.length === VECTOR_DIMENSIONS) return embedding;
+  return [...embedding, ...new Array<number>(VECTOR_DIMENSIONS - embedding.length).fill(0)];
+}
+
+// Embeds values in batches of the provider's size, truncating long inputs
+async function embedValues(values: string[], current: EmbeddingProvider = getEmbeddingProvider()): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < values.length; i += current.maxBatchSize) {
+    const batch = values.slice(i, i + current.maxBatchSize).map(value => value.slice(0, current.maxInputChars));
+    const embedded = await current.embed(batch);
+    if (embedded.length !== batch.length) {
+      throw new Error(`${current.id} returned ${embedded.length} embeddings for ${batch.length} inputs`);
+    }
+    embeddings.push(...embedded.map(embedding => fitToColumn(embedding, current.id)));
   }
-  if (!process.env.OPENAI_API_KEY) {
-    console.warn('[RAG] OPENAI_API_KEY is not set. Skipping embeddings.');
-    return [];
+
+  return embeddings;
+}
+
+function requireRag() {
+  if (process.env.RAG_ENABLED !== 'true') {
+    throw new Error('Document embeddings are disabled. Set RAG_ENABLED=true.');
   }
-  const chunks = generateChunks(content);
-  const { embeddings } = await embedMany({
-    model: embeddingModel,
-    values: chunks,
-  });
-  
+}
+
+// The text embedded for a chunk: the section path is prepended so a chunk is
+// found by its headings too
+function embeddingInput(chunk: Pick<TextChunk, 'content' | 'sectionPath'>): string {
+  return chunk.sectionPath.length > 0 ? `${chunk.sectionPath.join(' > ')}\n\n${chunk.content}` : chunk.content;
+}
+
+// Chunks with the same hash and model have the same embedding
+export function chunkContentHash(chunk: Pick<TextChunk, 'content' | 'sectionPath'>): string {
+  return createHash('sha256').update(embeddingInput(chunk)).digest('hex');
+}
+
+// Embeds already chunked text; the returned content is the chunk itself. With
+// an explicit embedder (e.g. retrieval evaluation's local one), RAG_ENABLED
+// isn't required.
+export async function embedChunks(
+  chunks: TextChunk[],
+  embedder?: EmbeddingProvider
+): Promise<Array<TextChunk & { embedding: number[] }>> {
+  if (!embedder) requireRag();
+  if (chunks.length === 0) return [];
+
+  const embeddings = await embedValues(chunks.map(embeddingInput), embedder);
   return chunks.map((chunk, index) => ({
-    content: chunk,
+    ...chunk,
     embedding: embeddings[index],
   }));
-} 
\ No newline at end of file
+}
+
+// Embeds chunks in the provider's batches, reporting the fraction done after
+// each. Chunks whose hash is in `known` take that embedding instead of being
+// sent to the model.
+export async function embedChunksIncrementally(
+  chunks: TextChunk[],
+  known: Map<string, number[]> = new Map(),
+  onProgress?: (fraction: number) => void | Promise<void>
+): Promise<{ embeddedChunks: Array<TextChunk & { embedding: number[] }>; reused: number }> {
+  const embeddings: Array<number[] | undefined> = chunks.map(chunk => known.get(chunkContentHash(chunk)));
+  const missing = chunks.flatMap((chunk, index) => (embeddings[index] ? [] : [index]));
+
+  const batchSize = missing.length > 0 ? getEmbeddingProvider().maxBatchSize : 0;
+  for (let i = 0; i < missing.length; i += batchSize) {
+    const batch = missing.slice(i, i + batchSize);
+    const embedded = await embedChunks(batch.map(index => chunks[index]));
+    batch.forEach((index, position) => {
+      embeddings[index] = embedded[position].embedding;
+    });
+    await onProgress?.(Math.min(i + batchSize, missing.length) / missing.length);
+  }
+
+  return {
+    embeddedChunks: chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index]! })),
+    reused: chunks.length - missing.length,
+  };
+}
+
+// Chunks the content (see chunking.ts) and embeds each chunk
+export async function generateEmbeddings(
+  content: string,
+  options: ChunkingOptions = {}
+): Promise<Array<TextChunk & { embedding: number[] }>> {
+  return embedChunks(chunkDocument(content, options));
+}
+
+// One embedding for a whole (truncated) text, e.g. a chat message or a search query
+export async function generateEmbedding(value: string, embedder?: EmbeddingProvider): Promise<number[]> {
+  const [embedding] = await embedValues([value], embedder);
+  return embedding;
+}
@@ -0,0 +1,246 @@
+import type { DocumentExtractor } from './index';
+import { attribute, childElements, findElement, findElements, parseMarkup, textContent, type MarkupElement } from './markup';
+import { readZip } from './zip';
+
+// Word documents: word/document.xml is walked paragraph by paragraph. Heading
+// styles become Markdown headings, numbered paragraphs list items, tables
+// pipe tables, and equations (OMML) are converted to LaTeX.
+
+const NARY_OPERATORS: Record<string, string> = {
+  '∑': '\\sum', '∏': '\\prod', '∐': '\\coprod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint', '∮': '\\oint',
+  '⋃': '\\bigcup', '⋂': '\\bigcap',
+};
+const ACCENTS: Record<string, string> = {
+  '̂': '\\hat', '̃': '\\tilde', '̄': '\\bar', '̇': '\\dot', '̈': '\\ddot', '⃗': '\\vec', '̆': '\\breve', '̌': '\\check',
+};
+
+// Value of the w:val / m:val attribute of a child property element
+function propertyValue(element: MarkupElement | null, name: string): string | undefined {
+  const property = element && findElement(element, name);
+  return property ? attribute(property, 'val') : undefined;
+}
+
+function child(element: MarkupElement, name: string): MarkupElement | null {
+  return childElements(element, name)[0] ?? null;
+}
+
+function group(tex: string): string {
+  return tex.length === 1 ? tex : `{${tex}}`;
+}
+
+// Office Math (OMML) to LaTeX, covering the structures equations are built from
+export function ommlToLatex(element: MarkupElement | null): string {
+  if (!element) return '';
+  const arg = (name: string) => ommlToLatex(child(element, name));
+
+  switch (element.name) {
+    case 'm:r':
+      return childElements(element, 'm:t').map(textContent).join('');
+    case 'm:f':
+      return `\\frac{${arg('m:num')}}{${arg('m:den')}}`;
+    case 'm:sSup':
+      return `${group(arg('m:e'))}^${group(arg('m:sup'))}`;
+    case 'm:sSub':
+      return `${group(arg('m:e'))}_${group(arg('m:sub'))}`;
+    case 'm:sSubSup':
+      return `${group(arg('m:e'))}_${group(arg('m:sub'))}^${group(arg('m:sup'))}`;
+    case 'm:sPre':
+      return `{}_${group(arg('m:sub'))}^${group(arg('m:sup'))}${arg('m:e')}`;
+    case 'm:rad': {
+      const degree = arg('m:deg');
+      return degree ? `\\sqrt[${degree}]{${arg('m:e')}}` : `\\sqrt{${arg('m:e')}}`;
+    }
+    case 'm:nary': {
+      const symbol = propertyValue(child(element, 'm:naryPr'), 'm:chr') ?? '∫';
+      const sub = arg('m:sub');
+      const sup = arg('m:sup');
+      return `${NARY_OPERATORS[symbol] ?? symbol}${sub ? `_${group(sub)}` : ''}${sup ? `^${group(sup)}` : ''} ${arg('m:e')}`;
+    }
+    case 'm:d': {
+      const properties = child(element, 'm:dPr');
+      const open = propertyValue(properties, 'm:begChr') ?? '(';
+      const close = propertyValue(properties, 'm:endChr') ?? ')';
+      const separator = propertyValue(properties, 'm:sepChr') ?? ',';
+      const inner = childElements(element, 'm:e').map(ommlToLatex).join(separator);
+      const delimiter = (char: string) => (char === '' ? '.' : char === '{' || char === '}' ? `\\${char}` : char);
+      return `\\left${delimiter(open)}${inner}\\right${delimiter(close)}`;
+    }
+    case 'm:func':
+      return `${arg('m:fName')} ${arg('m:e')}`;
+    case 'm:acc': {
+      const accent = propertyValue(child(element, 'm:accPr'), 'm:chr') ?? '̂';
+      return `${ACCENTS[accent] ?? '\\hat'}{${arg('m:e')}}`;
+    }
+    case 'm:bar':
+      return `\\overline{${arg('m:e')}}`;
+    case 'm:limLow':
+      return `${group(arg('m:e'))}_${group(arg('m:lim'))}`;
+    case 'm:limUpp':
+      return `${group(arg('m:e'))}^${group(arg('m:lim'))}`;
+    case 'm:m':
+      return `\\begin{matrix}${childElements(element, 'm:mr')
+        .map(row => childElements(row, 'm:e').map(ommlToLatex).join(' & '))
+        .join(' \\\\ ')}\\end{matrix}`;
+    case 'm:eqArr':
+      return `\\begin{aligned}${childElements(element, 'm:e').map(ommlToLatex).join(' \\\\ ')}\\end{aligned}`;
+    default:
+      // Containers (m:oMath, m:e, m:num, m:box, ...); property elements hold no content
+      return childElements(element)
+        .filter(node => !node.name.endsWith('Pr'))
+        .map(ommlToLatex)
+        .join('');
+  }
+}
+
+interface DocxStyles {
+  // Heading level by paragraph style id
+  headingLevels: Map<string, number>;
+}
+
+function readStyles(xml: string | null): DocxStyles {
+  const headingLevels = new Map<string, number>();
+  if (!xml) return { headingLevels };
+
+  for (const style of findElements(parseMarkup(xml), 'w:style')) {
+    const id = attribute(style, 'styleId');
+    if (!id) continue;
+    // Built-in names are English whatever the UI language ("heading 1", "Title")
+    const name = (propertyValue(style, 'w:name') ?? '').toLowerCase();
+    const outline = propertyValue(child(style, 'w:pPr') ?? style, 'w:outlineLvl');
+    const level = name === 'title' ? 1
+      : name.match(/^heading (\d)$/) ? Number(name.slice(8))
+        : outline !== undefined ? Number(outline) + 1
+          : null;
+    if (level !== null && level >= 1 && level <= 6) headingLevels.set(id, level);
+  }
+  return { headingLevels };
+}
+
+// Text of a paragraph's runs, hyperlinks, fields and inline equations
+function runText(element: MarkupElement): string {
+  let text = '';
+  for (const node of element.children) {
+    if (typeof node === 'string') continue;
+    switch (node.name) {
+      case 'w:t':
+        text += textContent(node);
+        break;
+      case 'w:tab':
+        text += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        text += '\n';
+        break;
+      case 'w:noBreakHyphen':
+        text += '-';
+        break;
+      case 'm:oMath':
+        text += `$${ommlToLatex(node).trim()}$`;
+        break;
+      case 'm:oMathPara':
+        text += childElements(node, 'm:oMath').map(math => `$$${ommlToLatex(math).trim()}$$`).join(' ');
+        break;
+      // Deleted revisions, alternate renderings of text boxes, properties
+      case 'w:del':
+      case 'mc:Fallback':
+      case 'w:pPr':
+      case 'w:rPr':
+        break;
+      default:
+        text += runText(node);
+    }
+  }
+  return text;
+}
+
+function renderParagraph(paragraph: MarkupElement, styles: DocxStyles): string | null {
+  const properties = child(paragraph, 'w:pPr');
+
+  // A paragraph that is only an equation is display math
+  const mathParagraphs = childElements(paragraph, 'm:oMathPara');
+  const prose = paragraph.children.filter(node => typeof node === 'string' || node.name !== 'm:oMathPara');
+  if (mathParagraphs.length > 0 && !runText({ ...paragraph, children: prose }).trim()) {
+    return mathParagraphs
+      .flatMap(para => childElements(para, 'm:oMath'))
+      .map(math => `$$\n${ommlToLatex(math).trim()}\n$$`)
+      .join('\n\n');
+  }
+
+  const text = runText(paragraph).replace(/[ \t]+/g, ' ').trim();
+  if (!text) return null;
+
+  const styleId = propertyValue(properties, 'w:pStyle');
+  const outline = propertyValue(properties, 'w:outlineLvl');
+  const level = styleId && styles.headingLevels.has(styleId)
+    ? styles.headingLevels.get(styleId)!
+    : outline !== undefined ? Number(outline) + 1 : null;
+  if (level && level <= 6) return `${'#'.repeat(level)} ${text.replace(/\n/g, ' ')}`;
+
+  const numbering = properties && child(properties, 'w:numPr');
+  if (numbering) {
+    const depth = Number(propertyValue(numbering, 'w:ilvl') ?? 0);
+    return `${'  '.repeat(depth)}- ${text.replace(/\n/g, ' ')}`;
+  }
+  return text;
+}
+
+function renderTable(table: MarkupElement, styles: DocxStyles): string | null {
+  const rows = childElements(table, 'w:tr').map(row =>
+    childElements(row, 'w:tc').map(cell =>
+      childElements(cell, 'w:p')
+        .map(paragraph => renderParagraph(paragraph, styles))
+        .filter(Boolean)
+        .join(' ')
+        .replace(/\n/g, ' ')
+        .replace(/\|/g, '\\|')
+    )
+  );
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return null;
+
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function renderBody(element: MarkupElement, styles: DocxStyles, blocks: string[]) {
+  for (const node of childElements(element)) {
+    if (node.name === 'w:p') {
+      const paragraph = renderParagraph(node, styles);
+      if (paragraph) blocks.push(paragraph);
+    } else if (node.name === 'w:tbl') {
+      const table = renderTable(node, styles);
+      if (table) blocks.push(table);
+    } else if (node.name === 'w:sdt' || node.name === 'w:sdtContent' || node.name === 'w:customXml') {
+      // Content controls (e.g. a table of contents) wrap ordinary paragraphs
+      renderBody(node, styles, blocks);
+    }
+  }
+}
+
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  extensions: ['.docx'],
+  async extract(data) {
+    const archive = readZip(data);
+    const documentXml = archive.readText('word/document.xml');
+    if (!documentXml) throw new Error('The file is not a Word document (word/document.xml is missing).');
+
+    const styles = readStyles(archive.readText('word/styles.xml'));
+    const body = findElement(parseMarkup(documentXml), 'w:body');
+    const blocks: string[] = [];
+    if (body) renderBody(body, styles, blocks);
+
+    const core = archive.readText('docProps/core.xml');
+    const title = core ? findElement(parseMarkup(core), 'dc:title') : null;
+
+    return {
+      // Consecutive list items stay on consecutive lines
+      text: blocks.join('\n\n').replace(/^( *- .*)\n\n(?= *- )/gm, '$1\n'),
+      method: 'DOCX conversion',
+      structure: 'markdown',
+      title: title ? textContent(title).trim() || undefined : undefined,
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import { posix } from 'path';
+import type { DocumentExtractor } from './index';
+import { htmlToMarkdown } from './htmlExtractor';
+import { attribute, childElements, findElement, findElements, parseMarkup, textContent } from './markup';
+import { readZip } from './zip';
+
+const XHTML_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+
+export const epubExtractor: DocumentExtractor = {
+  name: 'epub',
+  mimeTypes: ['application/epub+zip'],
+  extensions: ['.epub'],
+  async extract(data) {
+    const archive = readZip(data);
+
+    // META-INF/container.xml points at the package document (OPF)
+    const container = archive.readText('META-INF/container.xml');
+    const rootfile = container && findElement(parseMarkup(container), 'rootfile');
+    const packagePath = rootfile && attribute(rootfile, 'full-path');
+    const packageXml = packagePath && archive.readText(packagePath);
+    if (!packagePath || !packageXml) throw new Error('The EPUB file has no package document.');
+
+    const opf = parseMarkup(packageXml);
+    const baseDir = posix.dirname(packagePath);
+    const manifest = new Map(
+      findElements(opf, 'item').map(item => [attribute(item, 'id'), item])
+    );
+
+    // Chapters in reading order
+    const chapters: string[] = [];
+    const spine = findElement(opf, 'spine');
+    for (const itemref of spine ? childElements(spine, 'itemref') : []) {
+      const item = manifest.get(attribute(itemref, 'idref'));
+      const href = item && attribute(item, 'href');
+      if (!item || !href || !XHTML_TYPES.has(attribute(item, 'media-type') ?? '')) continue;
+
+      const path = posix.normalize(posix.join(baseDir, decodeURIComponent(href.split('#')[0])));
+      const xhtml = archive.readText(path);
+      if (!xhtml) continue;
+      const chapter = htmlToMarkdown(parseMarkup(xhtml, { html: true }));
+      if (chapter.trim()) chapters.push(chapter);
+    }
+
+    const title = findElement(opf, 'title');
+    return {
+      text: chapters.join('\n\n'),
+      method: `EPUB conversion (${chapters.length} chapters)`,
+      structure: 'markdown',
+      title: title ? textContent(title).trim() || undefined : undefined,
+    };
+  },
+};
@@ -0,0 +1,166 @@
+import type { DocumentExtractor } from './index';
+import { attribute, findElement, parseMarkup, textContent, type MarkupElement, type MarkupNode } from './markup';
+import { decodeText } from './textExtractor';
+
+const SKIPPED_ELEMENTS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'nav', 'footer', 'form', 'button', 'select', 'svg', 'iframe', 'canvas', 'object',
+]);
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'center', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'html', 'li', 'main',
+  'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+function classes(element: MarkupElement): string[] {
+  return (element.attributes.class ?? '').split(/\s+/);
+}
+
+// TeX source of MathML (from its TeX annotation, as KaTeX and MathJax write
+// it), MathJax 2 script tags and KaTeX spans; null for anything else
+function mathSource(element: MarkupElement): { tex: string; display: boolean } | null {
+  if (element.name === 'script' && /^math\/tex/.test(element.attributes.type ?? '')) {
+    return { tex: textContent(element).trim(), display: element.attributes.type.includes('mode=display') };
+  }
+
+  const isKatex = element.name === 'span' && classes(element).some(name => name === 'katex' || name === 'katex-display');
+  if (element.name !== 'math' && !isKatex) return null;
+
+  const math = element.name === 'math' ? element : findElement(element, 'math');
+  const annotation = math && findElement(math, 'annotation');
+  const tex = annotation && /tex/i.test(attribute(annotation, 'encoding') ?? '')
+    ? textContent(annotation)
+    : textContent(math ?? element);
+  const display = element.name === 'math'
+    ? attribute(element, 'display') === 'block'
+    : classes(element).includes('katex-display');
+  return { tex: tex.replace(/\s+/g, ' ').trim(), display };
+}
+
+function renderInline(node: MarkupNode): string {
+  if (typeof node === 'string') return node.replace(/\s+/g, ' ');
+  if (SKIPPED_ELEMENTS.has(node.name) && node.name !== 'script') return '';
+
+  const math = mathSource(node);
+  if (math) return math.tex ? ` $${math.tex}$ ` : '';
+  if (node.name === 'script') return '';
+
+  if (node.name === 'br') return '\n';
+  if (node.name === 'img') return node.attributes.alt ? ` ${node.attributes.alt} ` : '';
+  if (node.name === 'code') return `\`${textContent(node)}\``;
+  const inner = node.children.map(renderInline).join('');
+  return BLOCK_ELEMENTS.has(node.name) ? ` ${inner} ` : inner;
+}
+
+function tidy(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .trim();
+}
+
+function renderTable(table: MarkupElement): string {
+  const rows: string[][] = [];
+  const collectRows = (element: MarkupElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string' || child.name === 'table') continue;
+      if (child.name === 'tr') {
+        rows.push(child.children
+          .filter((cell): cell is MarkupElement => typeof cell !== 'string' && (cell.name === 'td' || cell.name === 'th'))
+          .map(cell => tidy(renderInline(cell)).replace(/\n/g, ' ').replace(/\|/g, '\\|')));
+      } else {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return '';
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+// Appends the Markdown blocks of an element's children to `blocks`
+function renderBlocks(element: MarkupElement, blocks: string[]) {
+  let inline = '';
+  const flush = () => {
+    const paragraph = tidy(inline);
+    if (paragraph) blocks.push(paragraph);
+    inline = '';
+  };
+
+  for (const child of element.children) {
+    if (typeof child === 'string' || !BLOCK_ELEMENTS.has(child.name)) {
+      const math = typeof child === 'string' ? null : mathSource(child);
+      if (math?.display) {
+        flush();
+        if (math.tex) blocks.push(`$$\n${math.tex}\n$$`);
+      } else {
+        inline += renderInline(child);
+      }
+      continue;
+    }
+
+    flush();
+    const name = child.name;
+    const heading = name.match(/^h([1-6])$/);
+    if (heading) {
+      const title = tidy(renderInline(child)).replace(/\n/g, ' ');
+      if (title) blocks.push(`${'#'.repeat(Number(heading[1]))} ${title}`);
+    } else if (name === 'pre') {
+      const language = classes(findElement(child, 'code') ?? child).find(name => name.startsWith('language-'))?.slice(9) ?? '';
+      blocks.push(`\`\`\`${language}\n${textContent(child).replace(/^\n|\n$/g, '')}\n\`\`\``);
+    } else if (name === 'table') {
+      const table = renderTable(child);
+      if (table) blocks.push(table);
+    } else if (name === 'ul' || name === 'ol') {
+      let number = parseInt(child.attributes.start ?? '1', 10) || 1;
+      for (const item of child.children) {
+        if (typeof item === 'string' || item.name !== 'li') continue;
+        const itemBlocks: string[] = [];
+        renderBlocks(item, itemBlocks);
+        if (itemBlocks.length === 0) continue;
+        const marker = name === 'ol' ? `${number++}. ` : '- ';
+        blocks.push(marker + itemBlocks.join('\n').replace(/\n/g, `\n${' '.repeat(marker.length)}`));
+      }
+    } else if (name === 'blockquote') {
+      const quoted: string[] = [];
+      renderBlocks(child, quoted);
+      if (quoted.length > 0) blocks.push(quoted.join('\n\n').replace(/^/gm, '> '));
+    } else if (name !== 'hr') {
+      renderBlocks(child, blocks);
+    }
+  }
+  flush();
+}
+
+// Converts an HTML (or XHTML) document to Markdown. Navigation, forms and
+// scripts are dropped; math keeps its TeX source where the page has it.
+export function htmlToMarkdown(root: MarkupElement): string {
+  const blocks: string[] = [];
+  renderBlocks(findElement(root, 'body') ?? root, blocks);
+  // List items are one block per item; keep them on consecutive lines
+  return blocks.join('\n\n').replace(/^((?:- |\d+\. ).*)\n\n(?=- |\d+\. )/gm, '$1\n');
+}
+
+export function htmlTitle(root: MarkupElement): string | undefined {
+  const title = findElement(root, 'title');
+  return title ? tidy(textContent(title)) || undefined : undefined;
+}
+
+export const htmlExtractor: DocumentExtractor = {
+  name: 'html',
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  extensions: ['.html', '.htm', '.xhtml'],
+  async extract(data) {
+    const root = parseMarkup(decodeText(data), { html: true });
+    const main = findElement(root, 'main') ?? findElement(root, 'article');
+    return {
+      text: htmlToMarkdown(main ?? root),
+      method: 'HTML conversion',
+      structure: 'markdown',
+      title: htmlTitle(root),
+    };
+  },
+};
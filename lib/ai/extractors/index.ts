@@ -0,0 +1,90 @@
+import { pdfExtractor } from './pdfExtractor';
+import { docxExtractor } from './docxExtractor';
+import { epubExtractor } from './epubExtractor';
+import { htmlExtractor } from './htmlExtractor';
+import { latexExtractor } from './latexExtractor';
+import { markdownExtractor } from './markdownExtractor';
+import { sanitizeTextForDatabase, textExtractor } from './textExtractor';
+
+// Text extraction for uploaded documents. Each extractor handles a set of
+// extensions and MIME types and returns normalized text for the chunker:
+// structured formats are converted to Markdown (ATX headings, lists, pipe
+// tables, $...$ math) so section paths and atomic blocks survive chunking.
+
+export interface ExtractedDocument {
+  text: string;
+  // Shown in logs and upload results
+  method: string;
+  // 'markdown' when headings were converted to Markdown and are the only ones
+  // the chunker should trust; 'plain' when it has to detect them
+  structure: 'markdown' | 'plain';
+  // Start of each page in `text` (PDFs only)
+  pageOffsets?: number[];
+  // OCR confidence of each page, null where the PDF had a text layer
+  pageOcrConfidence?: Array<number | null>;
+  // Title from the document's own metadata
+  title?: string;
+}
+
+export interface ExtractionContext {
+  // Reports slow extractions (OCR) from 0 to 1
+  onProgress?: (fraction: number) => void | Promise<void>;
+}
+
+export interface DocumentExtractor {
+  name: string;
+  mimeTypes: string[];
+  // Lowercase, with the leading dot
+  extensions: string[];
+  extract(data: Buffer, fileName: string, context: ExtractionContext): Promise<ExtractedDocument>;
+}
+
+const EXTRACTORS: DocumentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  epubExtractor,
+  htmlExtractor,
+  latexExtractor,
+  markdownExtractor,
+  textExtractor,
+];
+
+function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+// The extension decides first: browsers send .md and .tex files as
+// text/plain or with no type at all
+export function findExtractor(fileName: string, mimeType?: string | null): DocumentExtractor | null {
+  const extension = extensionOf(fileName);
+  const byExtension = EXTRACTORS.find(extractor => extractor.extensions.includes(extension));
+  if (byExtension) return byExtension;
+
+  const type = mimeType?.split(';')[0].trim().toLowerCase();
+  return (type && EXTRACTORS.find(extractor => extractor.mimeTypes.includes(type))) || null;
+}
+
+export function supportedExtensions(): string[] {
+  return EXTRACTORS.flatMap(extractor => extractor.extensions);
+}
+
+export async function extractDocument(
+  fileName: string,
+  mimeType: string | null,
+  data: Buffer,
+  context: ExtractionContext = {}
+): Promise<ExtractedDocument> {
+  const extractor = findExtractor(fileName, mimeType);
+  if (!extractor) {
+    throw new Error(`Unsupported file type. Supported formats: ${supportedExtensions().join(', ')}`);
+  }
+
+  const extracted = await extractor.extract(data, fileName, context);
+  // Page offsets point into text the PDF extractor has already sanitized page by page
+  const text = extracted.pageOffsets ? extracted.text : sanitizeTextForDatabase(extracted.text);
+  if (!text.trim()) {
+    throw new Error('File appears to be empty or no text could be extracted.');
+  }
+  return { ...extracted, text };
+}
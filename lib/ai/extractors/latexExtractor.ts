@@ -0,0 +1,237 @@
+import type { DocumentExtractor } from './index';
+import { decodeText } from './textExtractor';
+
+// LaTeX source: math is kept verbatim ($...$, display environments) while the
+// surrounding text is reduced to Markdown. Sectioning commands become
+// headings, lists, theorem-like environments and tabulars are converted, and
+// other text commands are unwrapped to their argument.
+
+const SECTION_LEVELS: Record<string, number> = {
+  part: 1,
+  chapter: 2,
+  section: 3,
+  subsection: 4,
+  subsubsection: 5,
+  paragraph: 6,
+};
+
+const THEOREM_NAMES: Record<string, string> = {
+  theorem: 'Theorem', lemma: 'Lemma', corollary: 'Corollary', proposition: 'Proposition', definition: 'Definition',
+  example: 'Example', remark: 'Remark', note: 'Note', exercise: 'Exercise', problem: 'Problem', solution: 'Solution',
+  proof: 'Proof', claim: 'Claim', conjecture: 'Conjecture',
+};
+
+// Commands whose argument isn't text
+const DROPPED_COMMANDS = new Set([
+  'label', 'cite', 'citep', 'citet', 'citeauthor', 'citeyear', 'nocite', 'includegraphics', 'vspace', 'hspace',
+  'bibliographystyle', 'bibliography', 'input', 'include', 'usepackage', 'documentclass', 'pagestyle', 'thispagestyle',
+  'addcontentsline', 'setlength', 'setcounter', 'addtocounter', 'newcommand', 'renewcommand', 'providecommand',
+  'newtheorem', 'DeclareMathOperator', 'graphicspath', 'index', 'hypersetup', 'color', 'pagenumbering', 'geometry', 'href',
+]);
+
+const MATH_PATTERN = /\\begin\{(equation|align|alignat|gather|multline|flalign|eqnarray|displaymath|math)(\*?)\}|\$\$|\\\[|\\\(|(?<!\\)\$/g;
+const VERBATIM_PATTERN = /\\begin\{(verbatim|lstlisting|minted)\}(?:\[[^\]]*\])?(?:\{[^}]*\})?([\s\S]*?)\\end\{\1\}/g;
+
+// Protected regions are replaced by \uE000<n>\uE001 while the text around them is rewritten
+interface Protected {
+  source: string;
+  display: boolean;
+}
+
+const placeholder = (index: number) => `\uE000${index}\uE001`;
+
+// Contents of the brace group opening at text[open]
+function readGroup(text: string, open: number): string | null {
+  if (text[open] !== '{') return null;
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '{') {
+      depth++;
+    } else if (text[i] === '}' && --depth === 0) {
+      return text.slice(open + 1, i);
+    }
+  }
+  return null;
+}
+
+function stripComments(text: string): string {
+  return text.replace(/(^|[^\\])%.*$/gm, '$1');
+}
+
+function protectMath(text: string, regions: Protected[]): string {
+  let result = '';
+  let position = 0;
+  MATH_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = MATH_PATTERN.exec(text))) {
+    const open = match[0];
+    let close: string;
+    let display: boolean;
+    if (match[1]) {
+      close = `\\end{${match[1]}${match[2]}}`;
+      display = match[1] !== 'math';
+    } else {
+      close = open === '$$' ? '$$' : open === '\\[' ? '\\]' : open === '\\(' ? '\\)' : '$';
+      display = open === '$$' || open === '\\[';
+    }
+
+    let end = -1;
+    if (close === '$') {
+      const next = /(?<!\\)\$/g;
+      next.lastIndex = match.index + 1;
+      end = next.exec(text)?.index ?? -1;
+    } else {
+      end = text.indexOf(close, match.index + open.length);
+    }
+    // An unclosed delimiter is left as text
+    if (end === -1) continue;
+
+    // Labels are for \ref, which the extracted text no longer has
+    const inner = text.slice(match.index + open.length, end).replace(/\\label\{[^}]*\}/g, '');
+    // Display math is written as $$ for Markdown; environments keep their source
+    const source = match[1] && display
+      ? `${open}${inner}${close}`
+      : display ? `$$\n${inner.trim()}\n$$` : `$${inner.trim()}$`;
+
+    result += text.slice(position, match.index) + placeholder(regions.length);
+    regions.push({ source, display });
+    position = end + close.length;
+    MATH_PATTERN.lastIndex = position;
+  }
+
+  return result + text.slice(position);
+}
+
+function restore(text: string, regions: Protected[]): string {
+  return text.replace(/\uE000(\d+)\uE001/g, (_, index: string) => {
+    const region = regions[Number(index)];
+    return region.display ? `\n\n${region.source}\n\n` : region.source;
+  });
+}
+
+function convertTabular(body: string): string {
+  const rows = body
+    .replace(/\\(?:hline|toprule|midrule|bottomrule)\b|\\cline\{[^}]*\}/g, '')
+    .split(/\\\\(?:\[[^\]]*\])?/)
+    .map(row => row.trim())
+    .filter(Boolean)
+    .map(row => row
+      .split(/(?<!\\)&/)
+      .map(cell => cell
+        .replace(/\\multi(?:column|row)\{[^{}]*\}\{[^{}]*\}\{((?:[^{}]|\{[^{}]*\})*)\}/g, '$1')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/\|/g, '\\|')));
+
+  const width = Math.max(0, ...rows.map(row => row.length));
+  if (width === 0) return '';
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+  return `\n\n${[line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n')}\n\n`;
+}
+
+// Rewrites commands innermost first until none with a plain argument is left
+function unwrapCommands(text: string, headingLevels: Set<number>): string {
+  const command = /\\([a-zA-Z]+)(\*?)\s*(?:\[[^\]]*\])?\s*\{([^{}]*)\}/g;
+
+  for (let pass = 0; pass < 50; pass++) {
+    let changed = false;
+    text = text.replace(command, (_, name: string, _star: string, argument: string) => {
+      changed = true;
+      if (name in SECTION_LEVELS) {
+        headingLevels.add(SECTION_LEVELS[name]);
+        return `\n\n\uE002${SECTION_LEVELS[name]}\uE002 ${argument.replace(/\s+/g, ' ').trim()}\n\n`;
+      }
+      if (name === 'caption') return `\n\n${argument}\n\n`;
+      if (name === 'footnote') return ` (${argument})`;
+      if (name === 'eqref') return `(${argument})`;
+      if (DROPPED_COMMANDS.has(name)) return '';
+      return argument;
+    });
+    if (!changed) break;
+  }
+  return text;
+}
+
+function latexTitle(source: string): string | undefined {
+  const index = source.search(/\\title\s*\{/);
+  const title = index === -1 ? null : readGroup(source, source.indexOf('{', index));
+  if (!title) return undefined;
+  return title.replace(/\\\\/g, ' ').replace(/\\[a-zA-Z]+\*?/g, '').replace(/[{}]/g, '').replace(/\s+/g, ' ').trim() || undefined;
+}
+
+export function latexToMarkdown(source: string): { text: string; title?: string } {
+  const regions: Protected[] = [];
+
+  // Verbatim blocks first: they may contain anything, including % and $
+  let text = source.replace(VERBATIM_PATTERN, (_, _name: string, code: string) => {
+    regions.push({ source: `\`\`\`\n${code.replace(/^\n|\n$/g, '')}\n\`\`\``, display: true });
+    return placeholder(regions.length - 1);
+  });
+  text = stripComments(text);
+
+  const title = latexTitle(text);
+  const begin = text.indexOf('\\begin{document}');
+  if (begin !== -1) {
+    const end = text.indexOf('\\end{document}', begin);
+    text = text.slice(begin + '\\begin{document}'.length, end === -1 ? undefined : end);
+  }
+
+  text = protectMath(text, regions);
+
+  const theorems = Object.keys(THEOREM_NAMES).join('|');
+  text = text
+    .replace(new RegExp(`\\\\begin\\{(${theorems})\\*?\\}(?:\\[([^\\]]*)\\])?`, 'g'), (_, name: string, note?: string) =>
+      `\n\n**${THEOREM_NAMES[name]}${note ? ` (${note})` : ''}.** `)
+    .replace(new RegExp(`\\\\end\\{(${theorems})\\*?\\}`, 'g'), '\n\n')
+    .replace(/\\begin\{(tabular\*?|tabularx|longtable)\}(?:\[[^\]]*\])?(?:\{[^{}]*\})?\{(?:[^{}]|\{[^{}]*\})*\}([\s\S]*?)\\end\{\1\}/g,
+      (_, _name: string, body: string) => convertTabular(body))
+    .replace(/\s*\\item(?![a-zA-Z])(?:\[([^\]]*)\])?\s*/g, (_, label?: string) => `\n- ${label ? `**${label}** ` : ''}`)
+    .replace(/\\(?:maketitle|tableofcontents|listoffigures|listoftables)\b/g, '')
+    // Length settings such as \itemsep 0pt
+    .replace(/\\(?:itemsep|parskip|parsep|topsep|parindent|baselineskip)\s*=?\s*-?[\d.]+\s*[a-z]{0,2}/g, '')
+    // Environment wrappers, with their options (\begin{figure}[h])
+    .replace(/\\(?:begin|end)\{[^{}]*\}(?:\[[^\]]*\])?/g, '\n\n');
+
+  const headingLevels = new Set<number>();
+  text = unwrapCommands(text, headingLevels);
+
+  text = text
+    .replace(/\\\\\*?(?:\[[^\]]*\])?/g, '\n')
+    .replace(/\\LaTeX\b/g, 'LaTeX')
+    .replace(/\\TeX\b/g, 'TeX')
+    .replace(/\\(?:ldots|dots|textellipsis)\b/g, '…')
+    .replace(/``|''/g, '"')
+    .replace(/(?<!\\)~/g, ' ')
+    .replace(/\\[,;:! ]/g, ' ')
+    .replace(/\\[a-zA-Z]+\*?/g, '')
+    .replace(/(?<!\\)[{}]/g, '')
+    .replace(/\\([%&$#_{}])/g, '$1')
+    // Space left where a citation was dropped
+    .replace(/[ \t]+([.,;:])/g, '$1');
+
+  // Top-level sections become "#" whatever command they used
+  const topLevel = Math.min(...headingLevels);
+  text = text.replace(/\uE002(\d)\uE002 /g, (_, level: string) => `${'#'.repeat(Number(level) - topLevel + 1)} `);
+
+  text = restore(text, regions)
+    .split('\n')
+    .map(line => (/^\s*(\$\$|\\begin|\\end|\|)/.test(line) ? line.trimEnd() : line.replace(/[ \t]+/g, ' ').trim()))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, title };
+}
+
+export const latexExtractor: DocumentExtractor = {
+  name: 'latex',
+  mimeTypes: ['application/x-tex', 'text/x-tex', 'application/x-latex', 'text/x-latex'],
+  extensions: ['.tex', '.latex'],
+  async extract(data) {
+    const { text, title } = latexToMarkdown(decodeText(data).replace(/\r\n?/g, '\n'));
+    return { text, method: 'LaTeX conversion', structure: 'markdown', title };
+  },
+};
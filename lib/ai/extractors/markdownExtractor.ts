@@ -0,0 +1,50 @@
+import type { DocumentExtractor } from './index';
+import { decodeText } from './textExtractor';
+
+// Splits off YAML front matter, returning its title if it has one
+function readFrontMatter(text: string): { body: string; title?: string } {
+  const match = text.match(/^---[ \t]*\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+  if (!match) return { body: text };
+  const title = match[1].match(/^title:\s*["']?(.+?)["']?\s*$/m)?.[1];
+  return { body: text.slice(match[0].length), title };
+}
+
+// Setext headings (a line underlined with === or ---) become ATX headings,
+// the only kind the chunker recognizes
+function atxHeadings(text: string): string {
+  const lines = text.split('\n');
+  const result: string[] = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s{0,3}(```|~~~)/.test(line)) inFence = !inFence;
+
+    const underline = lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (!inFence && underline && line.trim() && !/^\s{0,3}([-*+>#|]|\d+[.)])/.test(line)
+      && (i === 0 || !lines[i - 1].trim())) {
+      result.push(`${underline[1][0] === '=' ? '#' : '##'} ${line.trim()}`);
+      i++;
+      continue;
+    }
+    result.push(line);
+  }
+
+  return result.join('\n');
+}
+
+export const markdownExtractor: DocumentExtractor = {
+  name: 'markdown',
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  extensions: ['.md', '.markdown'],
+  async extract(data) {
+    const { body, title } = readFrontMatter(decodeText(data).replace(/\r\n?/g, '\n'));
+    const text = atxHeadings(body.replace(/<!--[\s\S]*?-->/g, ''));
+    return {
+      text,
+      method: 'Markdown',
+      structure: 'markdown',
+      title: title ?? text.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1],
+    };
+  },
+};
@@ -0,0 +1,188 @@
+// Tolerant XML/HTML parser for the extractors: builds a plain element tree
+// from DOCX parts, EPUB packages and web pages. It doesn't validate; stray
+// closing tags are ignored and unclosed elements end with their parent.
+
+export interface MarkupElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: MarkupNode[];
+}
+
+export type MarkupNode = MarkupElement | string;
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea']);
+// HTML elements whose start tag closes an open sibling of these names
+const IMPLIED_END: Record<string, string[]> = {
+  p: ['p'],
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·',
+  copy: '©', reg: '®', deg: '°', plusmn: '±', times: '×', divide: '÷', minus: '−', le: '≤', ge: '≥', ne: '≠',
+  asymp: '≈', infin: '∞', sum: '∑', prod: '∏', radic: '√', part: '∂', nabla: '∇', int: '∫', rarr: '→', larr: '←',
+  harr: '↔', rArr: '⇒', hArr: '⇔', micro: 'µ', sup2: '²', sup3: '³', frac12: '½', frac14: '¼', frac34: '¾',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', theta: 'θ', lambda: 'λ', mu: 'μ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', phi: 'φ', omega: 'ω', Delta: 'Δ', Sigma: 'Σ', Omega: 'Ω',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[body] ?? entity;
+  });
+}
+
+function parseAttributes(source: string, html: boolean): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    const name = html ? match[1].toLowerCase() : match[1];
+    attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// End of the tag starting at `start`, skipping '>' inside quoted attribute values
+function tagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+export function parseMarkup(source: string, options: { html?: boolean } = {}): MarkupElement {
+  const html = options.html ?? false;
+  const root: MarkupElement = { name: '#document', attributes: {}, children: [] };
+  const stack: MarkupElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    if (text) current().children.push(decodeEntities(text));
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const open = source.indexOf('<', i);
+    if (open === -1) {
+      appendText(source.slice(i));
+      break;
+    }
+    appendText(source.slice(i, open));
+
+    if (source.startsWith('<!--', open)) {
+      const close = source.indexOf('-->', open + 4);
+      i = close === -1 ? source.length : close + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', open)) {
+      const close = source.indexOf(']]>', open + 9);
+      const end = close === -1 ? source.length : close;
+      current().children.push(source.slice(open + 9, end));
+      i = end + 3;
+      continue;
+    }
+    if (source[open + 1] === '!' || source[open + 1] === '?') {
+      i = tagEnd(source, open) + 1;
+      continue;
+    }
+
+    const closing = source[open + 1] === '/';
+    const nameMatch = source.slice(open + (closing ? 2 : 1)).match(/^[A-Za-z_][\w:.-]*/);
+    if (!nameMatch) {
+      // A lone '<' in text
+      appendText('<');
+      i = open + 1;
+      continue;
+    }
+    const name = html ? nameMatch[0].toLowerCase() : nameMatch[0];
+    const end = tagEnd(source, open);
+    i = end + 1;
+
+    if (closing) {
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    while (html && stack.length > 1 && IMPLIED_END[name]?.includes(current().name)) stack.pop();
+
+    const body = source.slice(open + 1 + nameMatch[0].length, end);
+    const selfClosing = body.trimEnd().endsWith('/');
+    const element: MarkupElement = {
+      name,
+      attributes: parseAttributes(selfClosing ? body.trimEnd().slice(0, -1) : body, html),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (html && RAW_TEXT_ELEMENTS.has(name)) {
+      const close = source.toLowerCase().indexOf(`</${name}`, i);
+      const textEnd = close === -1 ? source.length : close;
+      element.children.push(source.slice(i, textEnd));
+      i = close === -1 ? source.length : tagEnd(source, close) + 1;
+      continue;
+    }
+    if (!selfClosing && !(html && VOID_ELEMENTS.has(name))) stack.push(element);
+  }
+
+  return root;
+}
+
+// Element name without its namespace prefix
+export function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+export function childElements(element: MarkupElement, name?: string): MarkupElement[] {
+  return element.children.filter((child): child is MarkupElement =>
+    typeof child !== 'string' && (name === undefined || child.name === name || localName(child.name) === name)
+  );
+}
+
+// Descendants named `name` (or with that local name), in document order
+export function findElements(element: MarkupElement, name: string): MarkupElement[] {
+  const found: MarkupElement[] = [];
+  const visit = (node: MarkupElement) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') continue;
+      if (child.name === name || localName(child.name) === name) found.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return found;
+}
+
+export function findElement(element: MarkupElement, name: string): MarkupElement | null {
+  return findElements(element, name)[0] ?? null;
+}
+
+export function textContent(node: MarkupNode): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+// Attribute value by name, ignoring its namespace prefix
+export function attribute(element: MarkupElement, name: string): string | undefined {
+  if (name in element.attributes) return element.attributes[name];
+  const key = Object.keys(element.attributes).find(candidate => localName(candidate) === name);
+  return key === undefined ? undefined : element.attributes[key];
+}
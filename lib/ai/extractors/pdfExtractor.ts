@@ -0,0 +1,81 @@
+// Not 'pdf-parse' itself: outside the Next.js build (scripts/rag-eval.ts) its
+// entry point runs a debug parse of a test file on import
+import pdf from '@/lib/pdf-parse-clean';
+import type { DocumentExtractor } from './index';
+import { isPdfOcrEnabled, needsOcr, ocrPdfPages } from './pdfOcr';
+import { sanitizeTextForDatabase } from './textExtractor';
+
+// Extracts PDF text page by page with pdf-parse's default rendering, so chunks
+// can be mapped back to the page they came from
+async function extractPdfPages(data: Buffer): Promise<{ pages: string[]; numpages: number }> {
+  const pages: string[] = [];
+  // pdf.js misreads Node Buffers on its first documents ("bad XRef entry"),
+  // so it gets a plain Uint8Array
+  const pdfData = await pdf(new Uint8Array(data), {
+    pagerender: async (pageData: any) => {
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of textContent.items) {
+        text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+      pages[pageData.pageIndex] = text;
+      return text;
+    },
+  });
+
+  // Pages that failed to render are missing
+  return { pages: Array.from({ length: pdfData.numpages }, (_, index) => pages[index] ?? ''), numpages: pdfData.numpages };
+}
+
+// Joins sanitized pages with blank lines and records where each page starts
+function joinPdfPages(pages: string[]): { text: string; pageOffsets: number[] } {
+  let text = '';
+  const pageOffsets: number[] = [];
+  for (const page of pages) {
+    if (page && text) text += '\n\n';
+    pageOffsets.push(text.length);
+    text += page;
+  }
+  return { text, pageOffsets };
+}
+
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+  mimeTypes: ['application/pdf'],
+  extensions: ['.pdf'],
+  async extract(data, _fileName, context) {
+    const pdfData = await extractPdfPages(data);
+    const pages = pdfData.pages.map(sanitizeTextForDatabase);
+    const scanned = pages.flatMap((page, index) => (needsOcr(page) ? [index] : []));
+
+    let pageOcrConfidence: Array<number | null> | undefined;
+    if (scanned.length > 0 && isPdfOcrEnabled()) {
+      const ocr = await ocrPdfPages(data, scanned, context.onProgress);
+      pageOcrConfidence = pages.map(() => null);
+      for (const [index, result] of ocr) {
+        pages[index] = sanitizeTextForDatabase(result.text);
+        pageOcrConfidence[index] = result.confidence;
+      }
+      console.log(`[Extractors] OCR'd ${ocr.size} of ${scanned.length} pages without a text layer`);
+    }
+
+    const { text, pageOffsets } = joinPdfPages(pages);
+    if (!text.trim()) {
+      throw new Error(scanned.length > 0 && !isPdfOcrEnabled()
+        ? 'No readable text could be extracted from the PDF. It appears to be scanned, and OCR is not configured (OPENAI_API_KEY, RAG_PDF_OCR).'
+        : 'No readable text could be extracted from the PDF. It may be image-based, corrupted, or password-protected.');
+    }
+
+    const ocrPages = pageOcrConfidence?.filter(confidence => confidence !== null).length ?? 0;
+    console.log(`[Extractors] PDF processed: ${pdfData.numpages} pages, ${text.length} cleaned characters`);
+    return {
+      text,
+      pageOffsets,
+      pageOcrConfidence: ocrPages > 0 ? pageOcrConfidence : undefined,
+      method: ocrPages > 0 ? `PDF text extraction with OCR (${ocrPages} pages)` : 'PDF text extraction',
+      structure: 'plain',
+    };
+  },
+};
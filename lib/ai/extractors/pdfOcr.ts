@@ -0,0 +1,167 @@
+import { executeOCR } from '../tools/ocrTool';
+
+// OCR fallback for scanned PDFs. Pages without a text layer are usually a
+// single scanned image: it is decoded with the pdf.js build bundled in
+// pdf-parse (no canvas needed), encoded as PNG and transcribed by the OCR
+// tool with LaTeX math. Each page gets a confidence from the OCR result,
+// lowered for the words the model marked illegible.
+
+// The pdf.js build pdf-parse itself loads
+const PDFJS = require('pdf-parse/lib/pdf.js/v1.10.100/build/pdf.js');
+
+export interface PageOcrResult {
+  text: string;
+  confidence: number;
+}
+
+interface PdfImage {
+  width: number;
+  height: number;
+  // pdf.js ImageKind: 1 = 1 bit grayscale, 2 = RGB, 3 = RGBA
+  kind: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Pages with fewer non-space characters than this are treated as scanned
+export const OCR_MIN_PAGE_CHARS = readInt('RAG_OCR_MIN_PAGE_CHARS', 20);
+// Upper bound on OCR'd pages per document, to bound cost and time
+const OCR_MAX_PAGES = readInt('RAG_OCR_MAX_PAGES', 50);
+// Longest side of the page image sent to the OCR model
+const OCR_MAX_DIMENSION = 2048;
+// Images smaller than this (logos, icons) are not page scans
+const MIN_SCAN_PIXELS = 100_000;
+
+const PAGE_PROMPT = 'Transcribe all text on this scanned page exactly as written, in reading order. Write any word you cannot read as [illegible]. Output only the transcription.';
+
+export function isPdfOcrEnabled(): boolean {
+  return process.env.RAG_PDF_OCR !== 'false' && Boolean(process.env.OPENAI_API_KEY);
+}
+
+export function needsOcr(pageText: string): boolean {
+  return pageText.replace(/\s/g, '').length < OCR_MIN_PAGE_CHARS;
+}
+
+function resolveObject(page: any, id: string): PdfImage | null {
+  for (const objects of [page.objs, page.commonObjs]) {
+    try {
+      const image = objects.get(id);
+      if (image?.data) return image;
+    } catch {
+      // Not in this object store
+    }
+  }
+  return null;
+}
+
+// The largest image painted on the page, which for a scan is the page itself
+async function largestPageImage(page: any): Promise<PdfImage | null> {
+  const operatorList = await page.getOperatorList();
+  let largest: PdfImage | null = null;
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+    const image: PdfImage | null = fn === PDFJS.OPS.paintImageXObject || fn === PDFJS.OPS.paintJpegXObject
+      ? resolveObject(page, args[0])
+      : fn === PDFJS.OPS.paintInlineImageXObject ? args[0] : null;
+    if (image?.data && (!largest || image.width * image.height > largest.width * largest.height)) {
+      largest = image;
+    }
+  }
+
+  return largest && largest.width * largest.height >= MIN_SCAN_PIXELS ? largest : null;
+}
+
+async function encodePng(image: PdfImage, rotation: number): Promise<Buffer> {
+  const sharp = (await import('sharp')).default;
+  let channels: 1 | 3 | 4;
+  let pixels: Buffer;
+
+  if (image.kind === 1) {
+    // Packed rows of 1-bit pixels, set bits are white
+    channels = 1;
+    pixels = Buffer.alloc(image.width * image.height);
+    const rowBytes = (image.width + 7) >> 3;
+    for (let y = 0; y < image.height; y++) {
+      for (let x = 0; x < image.width; x++) {
+        const bit = image.data[y * rowBytes + (x >> 3)] & (0x80 >> (x & 7));
+        pixels[y * image.width + x] = bit ? 255 : 0;
+      }
+    }
+  } else {
+    channels = image.kind === 3 ? 4 : 3;
+    pixels = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  }
+
+  return sharp(pixels, { raw: { width: image.width, height: image.height, channels } })
+    .rotate(rotation)
+    .greyscale()
+    .png()
+    .toBuffer();
+}
+
+function legibility(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const illegible = (text.match(/\[illegible\]/gi) ?? []).length;
+  return words === 0 ? 0 : Math.max(0.2, 1 - (3 * illegible) / words);
+}
+
+// OCRs the given pages (0-based) of a PDF. Pages with no scan, failed OCR or
+// beyond RAG_OCR_MAX_PAGES are left out of the result.
+export async function ocrPdfPages(
+  data: Buffer,
+  pageIndexes: number[],
+  onProgress?: (fraction: number) => void | Promise<void>
+): Promise<Map<number, PageOcrResult>> {
+  const results = new Map<number, PageOcrResult>();
+  const pages = pageIndexes.slice(0, OCR_MAX_PAGES);
+  if (pageIndexes.length > pages.length) {
+    console.warn(`[PDF OCR] ${pageIndexes.length} scanned pages, only the first ${OCR_MAX_PAGES} are OCR'd (RAG_OCR_MAX_PAGES)`);
+  }
+
+  PDFJS.disableWorker = true;
+  // JPEG scans are decoded by pdf.js itself; its native decoder needs a DOM
+  const doc = await PDFJS.getDocument({ data: new Uint8Array(data), nativeImageDecoderSupport: 'none' });
+
+  try {
+    for (const [done, pageIndex] of pages.entries()) {
+      const page = await doc.getPage(pageIndex + 1);
+      try {
+        const image = await largestPageImage(page);
+        if (!image) continue;
+
+        const png = await encodePng(image, page.rotate || 0);
+        const result = await executeOCR({
+          imageData: png.toString('base64'),
+          mimeType: 'image/png',
+          prompt: PAGE_PROMPT,
+          includeStructure: true,
+          mathFormat: 'latex',
+        }, { maxDimension: OCR_MAX_DIMENSION });
+
+        if (result.error || !result.extractedText) {
+          console.error(`[PDF OCR] Page ${pageIndex + 1} failed:`, result.errorMessage);
+          continue;
+        }
+        results.set(pageIndex, {
+          text: result.extractedText,
+          confidence: Math.round((result.confidence ?? 0) * legibility(result.extractedText) * 100) / 100,
+        });
+      } catch (error) {
+        console.error(`[PDF OCR] Page ${pageIndex + 1} failed:`, error);
+      } finally {
+        page.cleanup();
+        await onProgress?.((done + 1) / pages.length);
+      }
+    }
+  } finally {
+    doc.destroy();
+  }
+
+  return results;
+}
@@ -0,0 +1,58 @@
+import type { DocumentExtractor } from './index';
+
+// Text sanitization function to remove problematic characters for PostgreSQL
+export function sanitizeTextForDatabase(text: string): string {
+  if (!text || typeof text !== 'string') {
+    return '';
+  }
+
+  try {
+    // Remove null bytes (0x00) and other control characters that PostgreSQL can't handle
+    let sanitized = text
+      // Remove null bytes
+      .replace(/\x00/g, '')
+      // Remove other problematic control characters but keep common ones like \n, \r, \t
+      .replace(/[\x01-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+      // Normalize Unicode and handle potential encoding issues
+      .normalize('NFKC')
+      // Remove any remaining problematic sequences
+      .replace(/\uFFFD/g, '') // Replace unicode replacement characters
+      .replace(/\0/g, ''); // Additional null byte cleanup
+
+    // Ensure the text is valid UTF-8 by encoding and decoding
+    const buffer = Buffer.from(sanitized, 'utf8');
+    sanitized = buffer.toString('utf8');
+
+    // Trim excessive whitespace but preserve paragraph structure
+    sanitized = sanitized
+      .replace(/\r\n/g, '\n') // Normalize line endings
+      .replace(/\r/g, '\n')
+      .replace(/\n{3,}/g, '\n\n') // Limit consecutive newlines
+      .trim();
+
+    return sanitized;
+  } catch (error) {
+    console.error('Error sanitizing text:', error);
+    // If sanitization fails, try basic cleanup
+    return text
+      .replace(/\x00/g, '')
+      .replace(/[\x01-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+      .trim();
+  }
+}
+
+// Decodes UTF-8 (or UTF-16 with a byte order mark) and drops a UTF-8 BOM
+export function decodeText(data: Buffer): string {
+  if (data[0] === 0xff && data[1] === 0xfe) return data.subarray(2).toString('utf16le');
+  if (data[0] === 0xfe && data[1] === 0xff) return Buffer.from(data.subarray(2)).swap16().toString('utf16le');
+  return data.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+export const textExtractor: DocumentExtractor = {
+  name: 'text',
+  mimeTypes: ['text/plain'],
+  extensions: ['.txt'],
+  async extract(data) {
+    return { text: decodeText(data), method: 'Text file reading', structure: 'plain' };
+  },
+};
@@ -0,0 +1,106 @@
+import { inflateRawSync } from 'zlib';
+
+// Minimal ZIP reader for the containers DOCX and EPUB files are: reads the
+// central directory and inflates entries on demand. Stored and deflated
+// entries only; ZIP64 and encrypted archives are rejected. Uncompressed sizes
+// are capped so a small upload can't inflate to gigabytes (a "zip bomb").
+
+export interface ZipArchive {
+  names: string[];
+  read(name: string): Buffer | null;
+  readText(name: string): string | null;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Largest uncompressed size of an entry and of the whole archive
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KB
+  const earliest = Math.max(0, data.length - 22 - 0xffff);
+  for (let offset = data.length - 22; offset >= earliest; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  return -1;
+}
+
+export function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+export function readZip(data: Buffer): ZipArchive {
+  const end = data.length >= 22 ? findEndOfCentralDirectory(data) : -1;
+  if (end === -1) throw new Error('The file is not a valid ZIP archive.');
+
+  const entryCount = data.readUInt16LE(end + 10);
+  const directoryOffset = data.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported.');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  let totalSize = 0;
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The ZIP archive is corrupted.');
+    }
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    totalSize += uncompressedSize;
+    if (uncompressedSize > MAX_UNCOMPRESSED_BYTES || totalSize > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(`The archive expands to more than ${MAX_UNCOMPRESSED_BYTES / 1024 / 1024} MB and can't be processed.`);
+    }
+    entries.set(name, {
+      flags: data.readUInt16LE(offset + 8),
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      uncompressedSize,
+      localHeaderOffset: data.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = (name: string): Buffer | null => {
+    const entry = entries.get(name.replace(/^\//, ''));
+    if (!entry) return null;
+    if (entry.flags & 0x1) throw new Error('Encrypted archives are not supported.');
+
+    const header = entry.localHeaderOffset;
+    if (data.readUInt32LE(header) !== LOCAL_FILE_HEADER) throw new Error('The ZIP archive is corrupted.');
+    const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+    const compressed = data.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === 0) return compressed;
+    if (entry.method === 8) {
+      // The directory's size was checked against the cap; an entry that
+      // inflates to more than it declares is rejected instead of trusted
+      try {
+        return inflateRawSync(compressed, { maxOutputLength: Math.max(entry.uncompressedSize, 1) });
+      } catch {
+        throw new Error('The ZIP archive is corrupted.');
+      }
+    }
+    throw new Error(`Unsupported ZIP compression method ${entry.method}.`);
+  };
+
+  return {
+    names: [...entries.keys()],
+    read,
+    readText: name => read(name)?.toString('utf8') ?? null,
+  };
+}
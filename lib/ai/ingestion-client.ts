@@ -0,0 +1,70 @@
+// Browser-side helpers for ingestion jobs (see ./ingestion). Kept apart from
+// the server module so client components don't pull in the database.
+
+export type IngestionJobView = {
+  id: string;
+  documentId: number | null;
+  fileName: string;
+  fileSize: number | null;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  stage: 'extracting' | 'chunking' | 'embedding' | 'storing' | null;
+  progress: number;
+  chunkCount: number | null;
+  // How a completed job was stored: a new document, an existing one, or a new version
+  outcome: 'created' | 'duplicate' | 'version' | null;
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const POLL_INTERVAL_MS = 1500;
+
+// Extensions the upload endpoint has an extractor for (lib/ai/extractors)
+export const DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.epub', '.html', '.htm', '.xhtml', '.tex', '.latex', '.md', '.markdown', '.txt'];
+
+export function isSupportedDocument(fileName: string): boolean {
+  const dot = fileName.lastIndexOf('.');
+  return dot !== -1 && DOCUMENT_EXTENSIONS.includes(fileName.slice(dot).toLowerCase());
+}
+
+export function isActiveJob(job: Pick<IngestionJobView, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'processing';
+}
+
+export function describeJob(job: IngestionJobView): string {
+  if (job.status === 'queued') return 'Queued';
+  if (job.status === 'failed') return job.error || 'Processing failed';
+  if (job.status === 'completed' && job.outcome === 'duplicate') return 'Already uploaded';
+  if (job.status === 'completed' && job.outcome === 'version') return `Updated to a new version (${job.chunkCount ?? 0} chunks)`;
+  if (job.status === 'completed') return `Ready (${job.chunkCount ?? 0} chunks)`;
+  const stage = job.stage ? job.stage.charAt(0).toUpperCase() + job.stage.slice(1) : 'Processing';
+  return `${stage}... ${job.progress}%`;
+}
+
+export async function fetchIngestionJob(jobId: string): Promise<IngestionJobView> {
+  const res = await fetch(`/api/documents/jobs/${jobId}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to fetch ingestion job');
+  return data.job;
+}
+
+export async function retryIngestion(jobId: string): Promise<IngestionJobView> {
+  const res = await fetch(`/api/documents/jobs/${jobId}`, { method: 'POST' });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Retry failed');
+  return data.job;
+}
+
+// Polls a job until it completes or fails, reporting each update
+export async function waitForIngestionJob(
+  jobId: string,
+  onProgress?: (job: IngestionJobView) => void
+): Promise<IngestionJobView> {
+  for (;;) {
+    const job = await fetchIngestionJob(jobId);
+    onProgress?.(job);
+    if (!isActiveJob(job)) return job;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,354 @@
+import { and, desc, eq, isNotNull, isNull, lt, sql, type SQL } from 'drizzle-orm';
+import { db, chunks, documents, ingestionJobs } from '@/lib/db';
+import { chunkDocument, type DocumentChunkingOptions } from './chunking';
+import { extractDocument, type ExtractedDocument } from './extractors';
+import { embeddingModelId, embedChunksIncrementally } from './embedding';
+import { allocateDocumentId, contentHash, documentInserts, invalidateDocumentSearches, isLatestVersion, sanitizeForDatabase } from './documents';
+import { copyCollectionMemberships } from './collections';
+
+// Asynchronous document ingestion. An upload becomes an ingestion_jobs row and
+// is processed by an in-process queue: extract text, chunk, embed in batches,
+// then write the document and all of its chunks in one transaction. Progress
+// is written to the job row for /api/documents/jobs/[id]. Jobs a restart left
+// queued or stuck are picked up the next time the queue runs.
+//
+// Uploads are deduplicated per owner: a file or extracted text that is already
+// stored completes the job with the existing document. A changed file under the
+// name of an earlier upload becomes a new version of that document; its
+// unchanged chunks reuse their embeddings and the old version's chunks are
+// dropped from search.
+
+export type IngestionStatus = 'queued' | 'processing' | 'completed' | 'failed';
+export type IngestionStage = 'extracting' | 'chunking' | 'embedding' | 'storing';
+export type IngestionOutcome = 'created' | 'duplicate' | 'version';
+
+export type IngestionJob = Omit<typeof ingestionJobs.$inferSelect, 'fileData' | 'fileHash'>;
+
+// A job processing for this long without progress belonged to an instance that died
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+const jobColumns = {
+  id: ingestionJobs.id,
+  userId: ingestionJobs.userId,
+  documentId: ingestionJobs.documentId,
+  fileName: ingestionJobs.fileName,
+  fileType: ingestionJobs.fileType,
+  fileSize: ingestionJobs.fileSize,
+  status: ingestionJobs.status,
+  stage: ingestionJobs.stage,
+  progress: ingestionJobs.progress,
+  chunkCount: ingestionJobs.chunkCount,
+  outcome: ingestionJobs.outcome,
+  attempts: ingestionJobs.attempts,
+  error: ingestionJobs.error,
+  createdAt: ingestionJobs.createdAt,
+  updatedAt: ingestionJobs.updatedAt,
+  startedAt: ingestionJobs.startedAt,
+  completedAt: ingestionJobs.completedAt,
+};
+
+// Current documents of the same owner; anonymous uploads are shared, so they match each other
+function sameOwner(userId: string | null): SQL {
+  return and(userId ? eq(documents.userId, userId) : isNull(documents.userId), isLatestVersion())!;
+}
+
+// An earlier completed upload of the same file whose document still exists
+async function findIngestedFile(userId: string | null, fileHash: string) {
+  const [previous] = await db!.select({ documentId: documents.id, chunkCount: ingestionJobs.chunkCount })
+    .from(ingestionJobs)
+    .innerJoin(documents, eq(ingestionJobs.documentId, documents.id))
+    .where(and(eq(ingestionJobs.fileHash, fileHash), eq(ingestionJobs.status, 'completed'), sameOwner(userId)))
+    .orderBy(desc(ingestionJobs.completedAt))
+    .limit(1);
+  return previous ?? null;
+}
+
+// Creates the job for an upload. A file the owner already uploaded gets a job
+// that is completed right away with the existing document.
+export async function createIngestionJob(upload: {
+  userId?: string | null;
+  fileName: string;
+  fileType?: string | null;
+  data: Buffer;
+}): Promise<IngestionJob> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const userId = upload.userId || null;
+  const fileHash = contentHash(upload.data);
+  const previous = await findIngestedFile(userId, fileHash);
+
+  const [job] = await db.insert(ingestionJobs)
+    .values({
+      userId,
+      fileName: upload.fileName,
+      fileType: upload.fileType || null,
+      fileSize: upload.data.length,
+      fileHash,
+      ...(previous
+        ? {
+          status: 'completed',
+          progress: 100,
+          documentId: previous.documentId,
+          chunkCount: previous.chunkCount,
+          outcome: 'duplicate',
+          completedAt: new Date(),
+        }
+        : { fileData: upload.data.toString('base64') }),
+    })
+    .returning(jobColumns);
+
+  if (!previous) enqueueIngestionJob(job.id);
+  return job;
+}
+
+export async function getIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  if (!db) return null;
+  const [job] = await db.select(jobColumns).from(ingestionJobs).where(eq(ingestionJobs.id, jobId)).limit(1);
+  return job ?? null;
+}
+
+export async function listIngestionJobs(userId: string, limit = 20): Promise<IngestionJob[]> {
+  if (!db) return [];
+  return db.select(jobColumns)
+    .from(ingestionJobs)
+    .where(eq(ingestionJobs.userId, userId))
+    .orderBy(desc(ingestionJobs.createdAt))
+    .limit(limit);
+}
+
+// Puts a failed job back in the queue. Returns null when the job isn't failed
+// or its upload is gone.
+export async function retryIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  if (!db) return null;
+
+  const [job] = await db.update(ingestionJobs)
+    .set({ status: 'queued', stage: null, progress: 0, error: null, updatedAt: new Date() })
+    .where(and(
+      eq(ingestionJobs.id, jobId),
+      eq(ingestionJobs.status, 'failed'),
+      sql`${ingestionJobs.fileData} IS NOT NULL`
+    ))
+    .returning(jobColumns);
+
+  if (!job) return null;
+  enqueueIngestionJob(job.id);
+  return job;
+}
+
+const pendingJobIds: string[] = [];
+let draining: Promise<void> | null = null;
+let recovered = false;
+
+function enqueueIngestionJob(jobId: string) {
+  if (!pendingJobIds.includes(jobId)) pendingJobIds.push(jobId);
+}
+
+// Requeue jobs left behind by a previous process
+async function recoverJobs() {
+  if (!db) return;
+
+  await db.update(ingestionJobs)
+    .set({ status: 'queued', stage: null, progress: 0, updatedAt: new Date() })
+    .where(and(
+      eq(ingestionJobs.status, 'processing'),
+      lt(ingestionJobs.updatedAt, new Date(Date.now() - STALE_JOB_MS))
+    ));
+
+  const queued = await db.select({ id: ingestionJobs.id })
+    .from(ingestionJobs)
+    .where(eq(ingestionJobs.status, 'queued'))
+    .orderBy(ingestionJobs.createdAt);
+  queued.forEach(job => enqueueIngestionJob(job.id));
+}
+
+async function drain() {
+  if (!recovered) {
+    recovered = true;
+    try {
+      await recoverJobs();
+    } catch (error) {
+      console.error('[Ingestion] Failed to recover pending jobs:', error);
+    }
+  }
+
+  let jobId: string | undefined;
+  while ((jobId = pendingJobIds.shift())) {
+    await processJob(jobId);
+  }
+}
+
+// Processes queued jobs one at a time until the queue is empty. Concurrent
+// callers share the same run; routes hand it to after() so the work outlives
+// the response.
+export function runIngestionQueue(): Promise<void> {
+  if (!draining) {
+    draining = drain().finally(() => {
+      draining = null;
+      // Jobs enqueued while the last run was finishing
+      if (pendingJobIds.length > 0) void runIngestionQueue();
+    });
+  }
+  return draining;
+}
+
+async function updateProgress(jobId: string, stage: IngestionStage, progress: number) {
+  await db!.update(ingestionJobs)
+    .set({ stage, progress, updatedAt: new Date() })
+    .where(eq(ingestionJobs.id, jobId));
+}
+
+// The latest version of an authenticated user's document with this title
+async function findPreviousVersion(userId: string | null, title: string) {
+  if (!userId) return null;
+  const [previous] = await db!.select({ id: documents.id, version: documents.version })
+    .from(documents)
+    .where(and(sameOwner(userId), eq(documents.title, title)))
+    .orderBy(desc(documents.id))
+    .limit(1);
+  return previous ?? null;
+}
+
+// Embeddings of a document's chunks by content hash, for chunks embedded by the current model
+async function reusableEmbeddings(documentId: number): Promise<Map<string, number[]>> {
+  const rows = await db!.select({ contentHash: chunks.contentHash, embedding: chunks.embedding })
+    .from(chunks)
+    .where(and(
+      eq(chunks.documentId, documentId),
+      eq(chunks.embeddingModel, embeddingModelId()),
+      isNotNull(chunks.contentHash),
+      isNotNull(chunks.embedding)
+    ));
+  return new Map(rows.map(row => [row.contentHash!, row.embedding!]));
+}
+
+// How an extracted document is chunked, as stored with it for re-indexing
+export function extractedChunkingOptions(extracted: ExtractedDocument): DocumentChunkingOptions {
+  return {
+    pageOffsets: extracted.pageOffsets,
+    headings: extracted.structure === 'markdown' ? 'markdown' : 'detect',
+    pageOcrConfidence: extracted.pageOcrConfidence,
+  };
+}
+
+async function processJob(jobId: string) {
+  if (!db) return;
+
+  // Claiming by status keeps two instances from processing the same job
+  const [job] = await db.update(ingestionJobs)
+    .set({
+      status: 'processing',
+      stage: 'extracting',
+      progress: 0,
+      attempts: sql`${ingestionJobs.attempts} + 1`,
+      startedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(ingestionJobs.id, jobId), eq(ingestionJobs.status, 'queued')))
+    .returning();
+  if (!job) return;
+
+  const startTime = performance.now();
+  try {
+    if (!job.fileData) {
+      throw new Error('The uploaded file is no longer available. Please upload it again.');
+    }
+
+    const extracted = await extractDocument(job.fileName, job.fileType, Buffer.from(job.fileData, 'base64'), {
+      // Only OCR takes long enough to report
+      onProgress: fraction => updateProgress(job.id, 'extracting', Math.round(10 * fraction)),
+    });
+    // Chunk offsets point into the stored content, so chunk what will be stored
+    const content = sanitizeForDatabase(extracted.text);
+    const title = sanitizeForDatabase(job.fileName);
+
+    // The same text from a different file, e.g. a re-exported PDF
+    const [duplicate] = await db.select({ id: documents.id })
+      .from(documents)
+      .where(and(eq(documents.contentHash, contentHash(content)), sameOwner(job.userId)))
+      .limit(1);
+    if (duplicate) {
+      await db.update(ingestionJobs)
+        .set({
+          status: 'completed',
+          progress: 100,
+          documentId: duplicate.id,
+          outcome: 'duplicate',
+          fileData: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(ingestionJobs.id, job.id));
+      console.log(`[Ingestion] ${job.fileName} is already stored as document ${duplicate.id}`);
+      return;
+    }
+    await updateProgress(job.id, 'chunking', 10);
+
+    const chunkingOptions = extractedChunkingOptions(extracted);
+    const textChunks = chunkDocument(content, chunkingOptions);
+    if (textChunks.length === 0) {
+      throw new Error('File appears to be empty or no text could be extracted.');
+    }
+    await updateProgress(job.id, 'embedding', 15);
+
+    const previous = await findPreviousVersion(job.userId, title);
+    const { embeddedChunks, reused } = await embedChunksIncrementally(
+      textChunks,
+      previous ? await reusableEmbeddings(previous.id) : undefined,
+      fraction => updateProgress(job.id, 'embedding', 15 + Math.round(75 * fraction))
+    );
+    await updateProgress(job.id, 'storing', 90);
+
+    const documentId = await allocateDocumentId();
+    const [first, ...rest] = documentInserts(
+      documentId,
+      {
+        title,
+        content,
+        userId: job.userId,
+        chunkingOptions,
+        version: previous ? previous.version + 1 : 1,
+        previousVersionId: previous?.id ?? null,
+      },
+      embeddedChunks
+    );
+    await db.batch([
+      first,
+      ...rest,
+      // Only the latest version is searched
+      ...(previous ? [
+        db.delete(chunks).where(eq(chunks.documentId, previous.id)),
+        copyCollectionMemberships(previous.id, documentId),
+      ] : []),
+      db.update(ingestionJobs)
+        .set({
+          status: 'completed',
+          progress: 100,
+          documentId,
+          chunkCount: embeddedChunks.length,
+          outcome: previous ? 'version' : 'created',
+          fileData: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(ingestionJobs.id, job.id)),
+    ]);
+    // The previous version may have been public or in more collections
+    await invalidateDocumentSearches(previous ? [documentId, previous.id] : [documentId]);
+
+    const versionNote = previous ? ` as version ${previous.version + 1} (${reused} chunks unchanged)` : '';
+    console.log(`[Ingestion] ${job.fileName} (${extracted.method}): ${embeddedChunks.length} chunks stored as document ${documentId}${versionNote} in ${(performance.now() - startTime).toFixed(0)}ms`);
+  } catch (error) {
+    console.error(`[Ingestion] Job ${job.id} (${job.fileName}) failed:`, error);
+    try {
+      await db.update(ingestionJobs)
+        .set({
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Failed to process document',
+          updatedAt: new Date(),
+        })
+        .where(eq(ingestionJobs.id, job.id));
+    } catch (updateError) {
+      console.error(`[Ingestion] Failed to mark job ${job.id} as failed:`, updateError);
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import type { LanguageModelV1 } from 'ai';
+import { getModelDefinition, type ModelProvider } from './model-registry';
+
 // Lazy load AI model configurations
 export const loadOpenRouterConfig = async () => {
   const { createOpenAI } = await import('@ai-sdk/openai');
@@ -7,9 +10,15 @@ export const loadOpenRouterConfig = async () => {
   });
 };
 
+// DeepSeek's API is OpenAI-compatible. @ai-sdk/deepseek 2.x implements a newer
+// model specification than the installed ai package, so it goes through the
+// OpenAI provider like OpenRouter.
 export const loadDeepSeekConfig = async () => {
-  const { deepseek } = await import('@ai-sdk/deepseek');
-  return deepseek;
+  const { createOpenAI } = await import('@ai-sdk/openai');
+  return createOpenAI({
+    baseURL: 'https://api.deepseek.com/v1',
+    apiKey: process.env.DEEPSEEK_API_KEY,
+  });
 };
 
 export const loadOpenAIConfig = async () => {
@@ -17,29 +26,46 @@ export const loadOpenAIConfig = async () => {
   return openai;
 };
 
-// Model loader utility
-export async function getModelConfig(modelId: string) {
-  switch (true) {
-    case modelId.startsWith('gemini-'):
-      const openrouter = await loadOpenRouterConfig();
-      return openrouter(`google/${modelId}`);
-
-    case modelId.startsWith('deepseek-'):
-      const deepseek = await loadDeepSeekConfig();
-      return deepseek(modelId);
-
-    default:
-      // Fallback to DeepSeek chat
-      const defaultDS = await loadDeepSeekConfig();
-      return defaultDS('deepseek-chat');
+export const loadGoogleConfig = async () => {
+  const { google } = await import('@ai-sdk/google');
+  return google;
+};
+
+export const loadAnthropicConfig = async () => {
+  const { anthropic } = await import('@ai-sdk/anthropic');
+  return anthropic;
+};
+
+export const loadXAIConfig = async () => {
+  const { xai } = await import('@ai-sdk/xai');
+  return xai;
+};
+
+const providerLoaders: Record<ModelProvider, () => Promise<(modelId: string) => LanguageModelV1>> = {
+  deepseek: loadDeepSeekConfig,
+  openrouter: loadOpenRouterConfig,
+  google: loadGoogleConfig,
+  openai: loadOpenAIConfig,
+  anthropic: loadAnthropicConfig,
+  xai: loadXAIConfig,
+};
+
+// Model loader utility. Throws for ids that are not in the model registry;
+// callers should validate with isKnownModel() first to return a proper 400.
+export async function getModelConfig(modelId: string): Promise<LanguageModelV1> {
+  const definition = getModelDefinition(modelId);
+  if (!definition) {
+    throw new Error(`Unknown model id: ${modelId}`);
   }
+
+  const provider = await providerLoaders[definition.provider]();
+  return provider(definition.providerModelId);
 }
 
 // Preload specific model SDK
 export function preloadModelSDK(modelId: string): void {
-  if (modelId.startsWith('gemini-')) {
-    loadOpenRouterConfig().catch(console.error);
-  } else if (modelId.startsWith('deepseek-')) {
-    loadDeepSeekConfig().catch(console.error);
+  const definition = getModelDefinition(modelId);
+  if (definition) {
+    providerLoaders[definition.provider]().catch(console.error);
   }
 }
@@ -0,0 +1,112 @@
+// Single source of truth for the chat models the app exposes.
+// This module is pure data so it can be imported by both the API routes and
+// client components (model selectors) without pulling in any provider SDK.
+
+export type ModelProvider = 'deepseek' | 'openrouter' | 'google' | 'openai' | 'anthropic' | 'xai';
+
+export interface ModelCapabilities {
+  // Supports native function/tool calling through the AI SDK
+  toolCalling: boolean;
+  // Emits separate reasoning traces (chain-of-thought) alongside the answer
+  reasoning: boolean;
+  // Accepts image inputs
+  vision: boolean;
+  // Maximum context window in tokens
+  contextWindow: number;
+}
+
+// List prices in USD per million tokens; can be overridden with MODEL_PRICING
+// (see lib/usage/cost-ledger.ts)
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface ModelDefinition {
+  id: string;
+  provider: ModelProvider;
+  // Model name as expected by the provider SDK (e.g. 'google/gemini-2.5-flash' on OpenRouter)
+  providerModelId: string;
+  name: string;
+  // Company behind the model, shown in the selector UI
+  vendor: string;
+  description: string;
+  tag?: string;
+  performance: 'Fast' | 'Balanced' | 'Powerful';
+  capabilities: ModelCapabilities;
+  pricing: ModelPricing;
+  // Appended to the system prompt so the model knows what it is running as
+  promptIdentity: string;
+  // Models to try, in order, when this one fails before streaming its first token
+  fallbacks?: string[];
+}
+
+export const DEFAULT_MODEL_ID = 'deepseek-chat';
+
+export const MODEL_REGISTRY: ModelDefinition[] = [
+  {
+    id: 'deepseek-chat',
+    provider: 'deepseek',
+    providerModelId: 'deepseek-chat',
+    name: 'DeepSeek V3.2',
+    vendor: 'DeepSeek',
+    description: 'Fast general-purpose model with tool support',
+    tag: 'Default',
+    performance: 'Fast',
+    capabilities: {
+      toolCalling: true,
+      reasoning: false,
+      vision: false,
+      contextWindow: 128_000,
+    },
+    pricing: { inputPerMillion: 0.28, outputPerMillion: 0.42 },
+    promptIdentity: 'You are powered by DeepSeek V3.2.',
+    fallbacks: ['gemini-2.5-flash'],
+  },
+  {
+    id: 'gemini-2.5-flash',
+    provider: 'openrouter',
+    providerModelId: 'google/gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    vendor: 'Google',
+    description: 'Google\'s best price-performance model',
+    tag: 'Flash',
+    performance: 'Fast',
+    capabilities: {
+      toolCalling: true,
+      reasoning: false,
+      vision: true,
+      contextWindow: 1_048_576,
+    },
+    pricing: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    promptIdentity: 'You are powered by Gemini 2.5 Flash.',
+    fallbacks: ['deepseek-chat'],
+  },
+  {
+    id: 'deepseek-reasoner',
+    provider: 'deepseek',
+    providerModelId: 'deepseek-reasoner',
+    name: 'DeepSeek Reasoner',
+    vendor: 'DeepSeek',
+    description: 'Advanced reasoning for math & science',
+    tag: 'Math',
+    performance: 'Balanced',
+    capabilities: {
+      toolCalling: false,
+      reasoning: true,
+      vision: false,
+      contextWindow: 128_000,
+    },
+    pricing: { inputPerMillion: 0.28, outputPerMillion: 0.42 },
+    promptIdentity: 'You are powered by DeepSeek V3.2 Reasoner with advanced mathematical reasoning capabilities.',
+    fallbacks: ['deepseek-chat', 'gemini-2.5-flash'],
+  },
+];
+
+export function getModelDefinition(modelId: string): ModelDefinition | undefined {
+  return MODEL_REGISTRY.find(model => model.id === modelId);
+}
+
+export function isKnownModel(modelId: string): boolean {
+  return getModelDefinition(modelId) !== undefined;
+}
@@ -1,7 +1,7 @@
 import { db } from '../db';
 import { molecules, cachedResults, userUsage } from '../db/schema';
 import { eq, like, ilike, sql, desc, and, or } from 'drizzle-orm';
-import { generateEmbeddings } from './embedding';
+import { generateEmbedding, isEmbeddingConfigured } from './embedding';
 import crypto from 'crypto';
 
 export interface MoleculeSearchResult {
@@ -81,9 +81,9 @@ export async function searchMolecules(
 
     let results: MoleculeSearchResult[] = [];
 
-    if (useEmbedding && query.length > 3) {
+    if (useEmbedding && query.length > 3 && isEmbeddingConfigured()) {
       // Semantic search using embeddings
-      const [queryEmbedding] = await generateEmbeddings(query);
+      const queryEmbedding = await generateEmbedding(query);
       
       const semanticResults = await db.execute(sql`
         SELECT 
@@ -98,7 +98,7 @@ export async function searchMolecules(
           description,
           structure_type as "structureType",
           source,
-          1 - (embedding <=> ${JSON.stringify(queryEmbedding.embedding)}) as similarity
+          1 - (embedding <=> ${JSON.stringify(queryEmbedding)}) as similarity
         FROM molecules 
         WHERE embedding IS NOT NULL
         ORDER BY similarity DESC
@@ -345,7 +345,7 @@ export async function addMolecule(moleculeData: {
   try {
     // Generate embedding for the molecule
     const embeddingText = `${moleculeData.name} ${moleculeData.description || ''} ${moleculeData.molecularFormula || ''}`;
-    const [embedding] = await generateEmbeddings(embeddingText);
+    const embedding = await generateEmbedding(embeddingText);
 
     const [result] = await db.insert(molecules).values({
       name: moleculeData.name,
@@ -358,7 +358,7 @@ export async function addMolecule(moleculeData: {
       description: moleculeData.description,
       structureType: moleculeData.structureType || 'small_molecule',
       source: moleculeData.source || 'user_input',
-      embedding: embedding.embedding,
+      embedding,
     }).returning({ id: molecules.id });
 
     console.log(`[Molecular] Added molecule: ${moleculeData.name} (ID: ${result.id})`);
@@ -1,49 +1,109 @@
 import { db, documents, chunks } from '../db';
-import { generateEmbeddings } from './embedding';
-import { ragCache } from './smart-rag-cache';
+import { generateEmbedding, getEmbeddingProvider, isEmbeddingConfigured } from './embedding';
+import type { EmbeddingProvider } from './embedding-providers';
+import { ragCache, type RAGCacheScope } from './smart-rag-cache';
+import { diversifyCandidates, rerankCandidateCount, rerankResults } from './reranking';
+import { retrievalQueries, rewriteQuery, type QueryRewrite } from './query-rewriting';
+import { toSnippet, type DocumentSource } from './citations';
+import { collectionDocumentCondition } from './collections';
 import { eq, and, or, isNull } from 'drizzle-orm';
 import { sql } from 'drizzle-orm';
+import type { CoreMessage } from 'ai';
 
-interface DocumentChunk {
+export interface DocumentChunk {
   id: number;
   content: string;
   document_id: number;
   title: string;
   userId: string | null;
   isPublic: boolean;
+  pageNumber: number | null;
+  sectionPath: string[] | null;
+  // Cosine similarity to the query (0 when no query embedding was available)
   similarity: number;
+  // Reciprocal rank fusion score, or the reranker's score when one is configured
+  score: number;
 }
 
-// Add a document and its embeddings to the database with user context
-export async function addDocument(title: string, content: string, userId?: string | null) {
-  if (process.env.RAG_ENABLED !== 'true' || !db) {
-    console.warn('RAG is disabled or DB is not initialized. Skipping addDocument.');
-    return null; 
-  }
-  
-  // First, insert the document with user association
-  const [document] = await db
-    .insert(documents)
-    .values({
-      title,
-      content,
-      userId: userId || null, // Associate with user if authenticated, null for anonymous
-    })
-    .returning({ id: documents.id });
-
-  // Generate embeddings for the document
-  const embeddedChunks = await generateEmbeddings(content);
-
-  // Insert the chunks with their embeddings
-  for (const chunk of embeddedChunks) {
-    await db.insert(chunks).values({
-      documentId: document.id,
-      content: chunk.content,
-      embedding: chunk.embedding,
+// Per-request tuning for hybrid retrieval. Defaults come from the environment.
+export interface HybridSearchOptions {
+  // Weight of the pgvector ranking in the fused score
+  vectorWeight?: number;
+  // Weight of the full-text ranking in the fused score
+  lexicalWeight?: number;
+  // Minimum cosine similarity for a vector hit; lexical hits don't need it
+  similarityThreshold?: number;
+  // RRF damping constant: higher values flatten the difference between ranks
+  rrfK?: number;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const HYBRID_DEFAULTS: Omit<Required<HybridSearchOptions>, 'similarityThreshold'> = {
+  vectorWeight: readNumber('RAG_VECTOR_WEIGHT', 1),
+  lexicalWeight: readNumber('RAG_LEXICAL_WEIGHT', 1),
+  rrfK: readNumber('RAG_RRF_K', 60),
+};
+
+// RAG_SIMILARITY_THRESHOLD, or the embedding provider's default since cosine
+// similarities are on a different scale for each kind of model
+function defaultSimilarityThreshold(embedder?: EmbeddingProvider): number {
+  const configured = parseFloat(process.env.RAG_SIMILARITY_THRESHOLD || '');
+  if (Number.isFinite(configured)) return configured;
+  if (embedder) return embedder.defaultSimilarityThreshold;
+  return isEmbeddingConfigured() ? getEmbeddingProvider().defaultSimilarityThreshold : 0.5;
+}
+
+// Each ranking contributes this many candidates per requested result
+const CANDIDATE_MULTIPLIER = 4;
+const MIN_CANDIDATES = 20;
+
+// Settings for a search: the environment defaults with per-request overrides.
+// Searches embedded by another provider than the configured one pass it.
+export function hybridSearchSettings(
+  options: HybridSearchOptions = {},
+  embedder?: EmbeddingProvider
+): Required<HybridSearchOptions> {
+  return { ...HYBRID_DEFAULTS, similarityThreshold: defaultSimilarityThreshold(embedder), ...options };
+}
+
+// Candidates each ranking contributes for `limit` results
+export function hybridCandidateCount(limit: number): number {
+  return Math.max(limit * CANDIDATE_MULTIPLIER, MIN_CANDIDATES);
+}
+
+const chunkTsVector = sql`to_tsvector('english', ${chunks.content})`;
+
+// Reciprocal rank fusion: each list adds weight / (k + rank) for every chunk it
+// ranks, so chunks found by both searches rise to the top without having to
+// calibrate cosine similarity against ts_rank
+export function fuseRankings(
+  rankings: Array<{ weight: number; results: Array<Omit<DocumentChunk, 'score'>> }>,
+  k: number,
+  limit: number
+): DocumentChunk[] {
+  const fused = new Map<number, DocumentChunk>();
+
+  for (const { weight, results } of rankings) {
+    if (weight <= 0) continue;
+    results.forEach((result, index) => {
+      const existing = fused.get(result.id);
+      const contribution = weight / (k + index + 1);
+      if (existing) {
+        existing.score += contribution;
+        existing.similarity = Math.max(existing.similarity, result.similarity);
+      } else {
+        fused.set(result.id, { ...result, score: contribution });
+      }
     });
   }
 
-  return document.id;
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
 }
 
 // Fast heuristic to detect simple queries that don't need RAG
@@ -59,22 +119,47 @@ export function detectSimpleQuery(query: string): boolean {
   return simplePatterns.some(pattern => pattern.test(content));
 }
 
-// Optimized search with caching, pre-filtering, and user context
+// The query's embedding, or null when no embedding provider is configured or it
+// fails, in which case search is full-text only
+async function embedQuery(query: string): Promise<number[] | null> {
+  if (!isEmbeddingConfigured()) return null;
+  try {
+    return await generateEmbedding(query);
+  } catch (error) {
+    console.error('[Optimized RAG] Query embedding failed, using full-text search only:', error);
+    return null;
+  }
+}
+
+// Hybrid search with caching and user context: pgvector similarity and Postgres
+// full-text ranking over chunks.content, fused with reciprocal rank fusion.
+// Exact terms (equation names, constants, course codes) are found by the
+// lexical side even when their embedding similarity is low. With
+// collectionIds, only documents in those collections are searched.
 export async function searchDocumentsOptimized(
   query: string, 
   limit = 5,
-  userId?: string | null
+  userId?: string | null,
+  options: HybridSearchOptions = {},
+  collectionIds?: number[] | null
 ): Promise<DocumentChunk[]> {
   if (process.env.RAG_ENABLED !== 'true' || !db) {
     console.warn('RAG is disabled or DB is not initialized. Skipping searchDocuments.');
     return [];
   }
 
+  const settings = hybridSearchSettings(options);
   const startTime = performance.now();
 
-  // 1. Create cache key that includes user context for proper isolation
-  const cacheKey = userId ? `${userId}:${query}` : `anonymous:${query}`;
-  const cached = await ragCache.getCachedResults(cacheKey);
+  // 1. Cache scope: user, collections and tuning, so results are never shared
+  // across them. The tuning includes the environment defaults, so changing
+  // them doesn't serve results cached under the old ones.
+  const cacheScope: RAGCacheScope = {
+    userId,
+    collectionIds,
+    variant: JSON.stringify(settings),
+  };
+  const cached = await ragCache.getCachedResults(cacheScope, query);
   if (cached) {
     const duration = performance.now() - startTime;
     console.log(`[Optimized RAG] Cache hit - query completed in ${duration.toFixed(2)}ms`);
@@ -82,61 +167,92 @@ export async function searchDocumentsOptimized(
   }
 
   try {
-    // 2. Generate embedding for the query
-    const [queryEmbedding] = await generateEmbeddings(query);
+    // 2. Generate embedding for the query; without one only the lexical ranking is used
+    const queryEmbedding = await embedQuery(query);
     const embeddingTime = performance.now();
-    console.log(`[Optimized RAG] Embedding generated in ${(embeddingTime - startTime).toFixed(2)}ms`);
+    if (queryEmbedding) {
+      console.log(`[Optimized RAG] Embedding generated in ${(embeddingTime - startTime).toFixed(2)}ms`);
+
+      // The same embedding finds differently worded cached queries in this scope
+      const similar = await ragCache.findSimilarResults(cacheScope, queryEmbedding);
+      if (similar) {
+        console.log(`[Optimized RAG] Similar-query cache hit - query completed in ${(performance.now() - startTime).toFixed(2)}ms`);
+        return similar;
+      }
+    }
     
     // 3. Format the embedding as a proper vector literal for PostgreSQL
-    const embeddingVector = `[${queryEmbedding.embedding.join(',')}]`;
-    
-    // 4. Build WHERE clause for user filtering and similarity threshold using Drizzle ORM
-    let whereCondition;
-    const similarityThreshold = sql`1 - (${chunks.embedding} <=> ${embeddingVector}::vector) > 0.5`;
+    const embeddingVector = queryEmbedding ? `[${queryEmbedding.join(',')}]` : null;
+    const similarity = embeddingVector
+      ? sql<number>`1 - (${chunks.embedding} <=> ${embeddingVector}::vector)`
+      : sql<number>`0`;
     
-    if (userId) {
-      // Authenticated user: search their documents + public documents + anonymous documents
-      whereCondition = and(
-        similarityThreshold,
-        or(
-          eq(documents.userId, userId),
-          eq(documents.isPublic, true),
-          isNull(documents.userId)
-        )
-      );
-    } else {
-      // Anonymous user: only search public documents and documents uploaded anonymously
-      whereCondition = and(
-        similarityThreshold,
-        or(
-          eq(documents.isPublic, true),
-          isNull(documents.userId)
-        )
-      );
-    }
-    
-    // 5. Use optimized vector search with pre-filtering and user context
-    const result = await db
-      .select({
-        id: chunks.id,
-        content: chunks.content,
-        document_id: chunks.documentId,
-        title: documents.title,
-        userId: documents.userId,
-        isPublic: documents.isPublic,
-        similarity: sql<number>`1 - (${chunks.embedding} <=> ${embeddingVector}::vector)`.as('similarity')
-      })
-      .from(chunks)
-      .innerJoin(documents, eq(chunks.documentId, documents.id))
-      .where(whereCondition)
-      .orderBy(sql`similarity DESC`)
-      .limit(limit);
+    // 4. Access filter: authenticated users search their documents + public + anonymous
+    // documents, anonymous users only public and anonymously uploaded documents.
+    // Selected collections replace this with the documents in the collections
+    // the user can read.
+    const accessCondition = collectionIds?.length
+      ? collectionDocumentCondition(collectionIds, userId)
+      : userId
+        ? or(
+            eq(documents.userId, userId),
+            eq(documents.isPublic, true),
+            isNull(documents.userId)
+          )
+        : or(
+            eq(documents.isPublic, true),
+            isNull(documents.userId)
+          );
+
+    const candidates = hybridCandidateCount(limit);
+    const columns = {
+      id: chunks.id,
+      content: chunks.content,
+      document_id: chunks.documentId,
+      title: documents.title,
+      userId: documents.userId,
+      isPublic: documents.isPublic,
+      pageNumber: chunks.pageNumber,
+      sectionPath: chunks.sectionPath,
+      similarity: similarity.mapWith(Number),
+    };
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+
+    // 5. Run both rankings over the same access-filtered chunks
+    const [vectorResults, lexicalResults] = await Promise.all([
+      embeddingVector && settings.vectorWeight > 0
+        ? db
+            .select(columns)
+            .from(chunks)
+            .innerJoin(documents, eq(chunks.documentId, documents.id))
+            .where(and(accessCondition, sql`${similarity} > ${settings.similarityThreshold}`))
+            .orderBy(sql`${chunks.embedding} <=> ${embeddingVector}::vector`)
+            .limit(candidates)
+        : Promise.resolve([]),
+      settings.lexicalWeight > 0
+        ? db
+            .select(columns)
+            .from(chunks)
+            .innerJoin(documents, eq(chunks.documentId, documents.id))
+            .where(and(accessCondition, sql`${chunkTsVector} @@ ${tsQuery}`))
+            .orderBy(sql`ts_rank_cd(${chunkTsVector}, ${tsQuery}) DESC`)
+            .limit(candidates)
+        : Promise.resolve([]),
+    ]);
+
+    const fused = fuseRankings([
+      { weight: settings.vectorWeight, results: vectorResults },
+      { weight: settings.lexicalWeight, results: lexicalResults },
+    ], settings.rrfK, rerankCandidateCount(limit));
 
     const searchTime = performance.now();
-    console.log(`[Optimized RAG] Vector search completed in ${(searchTime - embeddingTime).toFixed(2)}ms`);
+    console.log(`[Optimized RAG] Hybrid search completed in ${(searchTime - embeddingTime).toFixed(2)}ms (${vectorResults.length} vector, ${lexicalResults.length} lexical candidates)`);
 
-    // 6. Cache results for future use with user-specific cache key
-    ragCache.cacheResults(cacheKey, queryEmbedding.embedding, result);
+    // 6. Rerank, drop near-duplicates and cap chunks per document
+    const result = await rerankResults(query, fused, limit, { userId });
+
+    // 7. Cache results for future use in this scope
+    await ragCache.cacheResults(cacheScope, query, queryEmbedding, result);
     
     const totalTime = performance.now() - startTime;
     console.log(`[Optimized RAG] Total search completed in ${totalTime.toFixed(2)}ms with ${result.length} results for user: ${userId || 'anonymous'}`);
@@ -148,7 +264,106 @@ export async function searchDocumentsOptimized(
   }
 }
 
+// Searches for several phrasings of one question in parallel and merges the
+// result lists with reciprocal rank fusion, so chunks found by several queries
+// rank first. A single query is a plain searchDocumentsOptimized call.
+export async function searchDocumentsMultiQuery(
+  queries: string[],
+  limit = 5,
+  userId?: string | null,
+  options: HybridSearchOptions = {},
+  collectionIds?: number[] | null
+): Promise<DocumentChunk[]> {
+  if (queries.length <= 1) {
+    return queries.length === 1 ? searchDocumentsOptimized(queries[0], limit, userId, options, collectionIds) : [];
+  }
+
+  const startTime = performance.now();
+  const rankings = await Promise.all(
+    queries.map(query => searchDocumentsOptimized(query, limit, userId, options, collectionIds))
+  );
+  const { rrfK } = hybridSearchSettings(options);
+  const fused = fuseRankings(rankings.map(results => ({ weight: 1, results })), rrfK, Infinity);
+  console.log(`[Optimized RAG] Merged ${queries.length} queries into ${fused.length} candidates in ${(performance.now() - startTime).toFixed(2)}ms`);
+
+  return diversifyCandidates(fused, limit);
+}
+
+// A search result as a citable source numbered `id`
+export function toDocumentSource(doc: DocumentChunk, id: number): DocumentSource {
+  return {
+    id,
+    chunkId: doc.id,
+    documentId: doc.document_id,
+    title: doc.title,
+    pageNumber: doc.pageNumber ?? null,
+    sectionPath: doc.sectionPath ?? [],
+    snippet: toSnippet(doc.content),
+    similarity: doc.similarity,
+  };
+}
+
+export interface DocumentContext {
+  // Prompt section with numbered sources; '' when there is nothing to add
+  context: string;
+  // The injected chunks, numbered as in the prompt
+  sources: DocumentSource[];
+  // The queries searched for, when the question was rewritten
+  rewrite?: QueryRewrite;
+}
+
+// Build the document context block appended to the chat system prompt for a
+// user question. Each chunk is numbered so the model can cite it as [n].
+// `history` holds the turns before the question, used to rewrite follow-ups
+// into standalone queries when query rewriting is enabled. Returns an empty
+// context when RAG is disabled, the query is trivial or nothing relevant was
+// found.
+export async function buildDocumentContext(
+  query: string,
+  userId?: string | null,
+  collectionIds?: number[] | null,
+  history: CoreMessage[] = []
+): Promise<DocumentContext> {
+  const empty: DocumentContext = { context: '', sources: [] };
+  if (process.env.RAG_ENABLED !== 'true' || detectSimpleQuery(query)) {
+    return empty;
+  }
+
+  try {
+    const rewrite = await rewriteQuery(query, history, { userId }) ?? undefined;
+    const queries = rewrite ? retrievalQueries(rewrite) : [query];
+    const relevantDocs = await searchDocumentsMultiQuery(queries, 3, userId, {}, collectionIds);
+    if (!relevantDocs || relevantDocs.length === 0) {
+      return { ...empty, rewrite };
+    }
+
+    const sources = relevantDocs.map((doc, index) => toDocumentSource(doc, index + 1));
+
+    const context = `Here is some relevant information from the user's documents that may help answer the question. ` +
+      `When you use it, cite the source number in square brackets right after the statement it supports, e.g. [1] or [1, 2]. ` +
+      `Only cite sources listed here, and don't cite sources you didn't use.\n\n` +
+      relevantDocs.map((doc, index) => {
+        const location = [
+          doc.pageNumber ? `page ${doc.pageNumber}` : null,
+          doc.sectionPath?.length ? doc.sectionPath.join(' > ') : null,
+        ].filter(Boolean).join(', ');
+        return `[${index + 1}] Document: \"${doc.title}\"${location ? ` (${location})` : ''}\nContent: ${doc.content}\n`;
+      }).join('\n');
+
+    return { context, sources, rewrite };
+  } catch (error) {
+    console.error('[RAG] Error searching documents:', error);
+    return empty;
+  }
+}
+
 // Legacy function for backward compatibility - now with user context support
-export async function searchDocuments(query: string, limit = 5, userId?: string | null): Promise<DocumentChunk[]> {
-  return searchDocumentsOptimized(query, limit, userId);
+export async function searchDocuments(
+  query: string,
+  limit = 5,
+  userId?: string | null,
+  options?: HybridSearchOptions,
+  collectionIds?: number[] | null
+): Promise<DocumentChunk[]> {
+  return searchDocumentsOptimized(query, limit, userId, options, collectionIds);
 } 
\ No newline at end of file
@@ -0,0 +1,194 @@
+import type { ModelDefinition } from './model-registry';
+import { formatSummaryForPrompt } from './context-window';
+
+// Composes the chat system prompt from independent sections instead of one
+// monolithic string. Each section has a stable id so it can be switched off for
+// experiments (see CHAT_PROMPT_DISABLED_SECTIONS) and inspected via
+// /api/chat/prompt.
+
+export interface PromptSection {
+  id: string;
+  content: string;
+}
+
+// Guidance a tool contributes to the prompt. `native` is used when the model
+// calls tools through the SDK; `token` describes the [NEEDS_VISUALIZATION:...]
+// text token for models without tool calling. Tools without a token form are
+// simply not offered to those models.
+export interface ToolPromptFragment {
+  native: string;
+  token?: string;
+}
+
+export type ExplanationLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export interface PromptPreferences {
+  explanationLevel?: ExplanationLevel;
+}
+
+export interface PromptBuildOptions {
+  mode: 'chat' | 'generate';
+  model: ModelDefinition;
+  toolPrompts?: Record<string, ToolPromptFragment>;
+  preferences?: PromptPreferences;
+  // Rolling summary of turns outside the context window
+  summary?: string | null;
+  // Retrieved document context for the latest user message
+  ragContext?: string;
+  disabledSections?: string[];
+}
+
+export interface BuiltPrompt {
+  system: string;
+  // Sections in prompt order, after disabled ones were removed
+  sections: PromptSection[];
+}
+
+export const EXPLANATION_LEVELS: ExplanationLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+// Comma-separated section ids to leave out, e.g. "text-formatting,tool:displayPlotlyChart"
+const ENV_DISABLED_SECTIONS = (process.env.CHAT_PROMPT_DISABLED_SECTIONS || '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean);
+
+const CHAT_ROLE = `You are a helpful STEM assistant. Focus on providing accurate, educational information about science, technology, engineering, and mathematics. Explain concepts clearly and provide examples where appropriate. If you're unsure about something, acknowledge the limits of your knowledge instead of making up information.`;
+
+const GENERATE_ROLE = `You are an expert React developer who excels at creating clean, accessible, and responsive UI components. You're helping a user create React components based on their prompts. Always generate the most minimal, clean React code that fulfills the requirements. Use TypeScript type annotations when appropriate. Always use modern React patterns (e.g., functional components, hooks). Format the JSX beautifully.
+
+When generating code, invoke the 'generateReactComponent' tool to provide the complete, ready-to-use component. Each component should be:
+1. Complete and self-contained
+2. Well-typed with TypeScript
+3. Using modern React patterns
+4. Following best practices for accessibility and responsiveness`;
+
+const MATH_FORMATTING = `## CRITICAL: MATHEMATICAL FORMATTING REQUIREMENTS
+
+**MANDATORY**: ALL mathematical expressions MUST use dollar sign delimiters - NEVER use parentheses or brackets!
+
+WRONG: (f(x)), (\\frac{dy}{dx}), [ \\frac{dy}{dx} = f'(x) ]
+CORRECT: $f(x)$, $\\frac{dy}{dx}$, $$\\frac{dy}{dx} = f'(x)$$
+
+**INLINE MATH**: Use single dollar signs for math within sentences:
+- Variables: Use $x$, $y$, $f(x)$, $g(x)$
+- Simple expressions: Use $E = mc^2$, $F = ma$, $\\frac{dy}{dx}$
+- Constants: Use $\\pi$, $e$, $\\alpha$, $\\beta$
+
+**BLOCK MATH**: Use double dollar signs for standalone equations:
+- Important formulas: Use $$\\frac{dy}{dx} = f'(g(x)) \\cdot g'(x)$$
+- Complex expressions: Use $$\\int_a^b f(x) dx = F(b) - F(a)$$
+
+**EXAMPLES OF CORRECT FORMATTING**:
+The chain rule formula is $\\frac{dy}{dx} = \\frac{df}{dg} \\cdot \\frac{dg}{dx}$.
+For a composite function $h(x) = f(g(x))$, we have: $$h'(x) = f'(g(x)) \\cdot g'(x)$$
+Where $f'(g(x))$ is the derivative of the outer function and $g'(x)$ is the derivative of the inner function.`;
+
+const TEXT_FORMATTING = `## TEXT FORMATTING GUIDELINES
+
+### Mathematical Elements (Remember: Always use $ delimiters!)
+- Fractions: $\\frac{numerator}{denominator}$
+- Square roots: $\\sqrt{x}$, $\\sqrt[n]{x}$
+- Subscripts/superscripts: $x_1^2$, $H_2O$
+- Integrals: $\\int_a^b f(x) dx$
+- Derivatives: $\\frac{d}{dx}$, $\\frac{\\partial f}{\\partial x}$
+- Greek letters: $\\alpha$, $\\beta$, $\\gamma$, $\\Delta$, $\\Omega$
+- Functions: $\\sin(x)$, $\\cos(x)$, $\\log(x)$, $\\ln(x)$
+- Chemistry: $\\text{H}_2\\text{SO}_4$, $\\text{CaCO}_3$
+
+### Content Structure
+- Use clear headers (# ## ###) for organization
+- Format lists with proper bullets or numbers
+- Use code blocks with language specification
+- Include tables when comparing data
+- Use **bold** for key terms, *italics* for emphasis
+- Define all mathematical variables when introduced
+- Include units for physical quantities
+- Break complex derivations into clear steps
+
+**REMINDER**: Every single mathematical expression, variable, or formula MUST be wrapped in dollar signs!`;
+
+const UPLOADED_DOCUMENTS = `## UPLOADED DOCUMENT CONTENT (PDFs, TXT, DOC files)
+
+- When users upload PDF, TXT, DOC, or DOCX files, the text content is **automatically extracted and processed**
+- This extracted text is **already available to you** through the RAG context system
+- If a user asks about content from an uploaded document, refer to the RAG context that's provided
+- The document content appears in your system context as "Here is some relevant information that may help answer the question:"`;
+
+const NATIVE_TOOL_RULES = `IMPORTANT:
+- Always use the actual tool calls, never generate text tokens or placeholders
+- Call each tool only ONCE per response - do not repeat tool calls
+- After calling a tool, provide a brief explanation of what was displayed
+- For physics, always explain the educational concept being demonstrated
+- CRITICAL: Use ONLY dollar signs for mathematical expressions - NEVER parentheses or brackets!
+- Structure responses with clear headers, proper markdown formatting, and logical flow
+- Use appropriate emphasis, lists, and code blocks to enhance readability`;
+
+const EXPLANATION_LEVEL_GUIDANCE: Record<ExplanationLevel, string> = {
+  beginner: 'The student is a beginner. Avoid jargon or define it when first used, build intuition with everyday analogies before formalism, and show every step of a derivation.',
+  intermediate: 'The student has a solid introductory background. Use standard terminology, keep derivations complete but skip trivial algebra, and connect new ideas to fundamentals.',
+  advanced: 'The student is advanced. Be concise and rigorous, use precise notation, skip elementary explanations, and mention edge cases, assumptions, and further reading where relevant.',
+};
+
+function toolSections(model: ModelDefinition, toolPrompts: Record<string, ToolPromptFragment>): PromptSection[] {
+  if (model.capabilities.toolCalling) {
+    return [
+      ...Object.entries(toolPrompts).map(([name, fragment]) => ({ id: `tool:${name}`, content: fragment.native })),
+      { id: 'tool-rules', content: NATIVE_TOOL_RULES },
+    ];
+  }
+
+  // Token-based tools are parsed back into tool calls by lib/ai/visualization-tokens.ts
+  const tokenFragments = Object.entries(toolPrompts).filter(([, fragment]) => fragment.token);
+  if (tokenFragments.length === 0) return [];
+
+  return [
+    {
+      id: 'visualization-tokens',
+      content: '## SPECIAL TOKEN SYSTEM FOR VISUALIZATIONS\n\nSince you do not support native function calling, use these special text tokens:',
+    },
+    ...tokenFragments.map(([name, fragment]) => ({ id: `tool:${name}`, content: fragment.token! })),
+    {
+      id: 'tool-rules',
+      content: 'IMPORTANT: Always use these exact token formats when users request visualizations, molecular structures, plots, or physics simulations.',
+    },
+  ];
+}
+
+export function buildSystemPrompt({
+  mode,
+  model,
+  toolPrompts = {},
+  preferences = {},
+  summary,
+  ragContext,
+  disabledSections = ENV_DISABLED_SECTIONS,
+}: PromptBuildOptions): BuiltPrompt {
+  const sections: PromptSection[] = mode === 'generate'
+    ? [{ id: 'role', content: GENERATE_ROLE }]
+    : [
+        { id: 'role', content: CHAT_ROLE },
+        { id: 'math-formatting', content: MATH_FORMATTING },
+        { id: 'text-formatting', content: TEXT_FORMATTING },
+        { id: 'uploaded-documents', content: UPLOADED_DOCUMENTS },
+        ...toolSections(model, toolPrompts),
+      ];
+
+  if (mode === 'chat' && preferences.explanationLevel) {
+    sections.push({ id: 'explanation-level', content: EXPLANATION_LEVEL_GUIDANCE[preferences.explanationLevel] });
+  }
+
+  sections.push({ id: 'model-identity', content: model.promptIdentity });
+
+  if (summary) {
+    sections.push({ id: 'conversation-summary', content: formatSummaryForPrompt(summary) });
+  }
+  if (ragContext) {
+    sections.push({ id: 'rag-context', content: ragContext });
+  }
+
+  const enabled = sections.filter(section => !disabledSections.includes(section.id));
+  return {
+    system: enabled.map(section => section.content).join('\n\n'),
+    sections: enabled,
+  };
+}
@@ -0,0 +1,156 @@
+import { APICallError, RetryError } from 'ai';
+import { getModelDefinition } from './model-registry';
+
+// Provider failover for streaming chat responses.
+// A stream is only committed to once its first part has arrived without an
+// error; until then transient failures (429, 5xx, timeouts, network errors) are
+// retried with exponential backoff, and any remaining failure moves on to the
+// next model in the fallback chain.
+
+export interface FailoverOptions {
+  // Retries per model for transient errors (not counting the first attempt)
+  maxRetriesPerModel: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // How long to wait for the first stream part before treating the attempt as timed out
+  firstTokenTimeoutMs: number;
+}
+
+export const DEFAULT_FAILOVER_OPTIONS: FailoverOptions = {
+  maxRetriesPerModel: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  firstTokenTimeoutMs: 20000,
+};
+
+export interface FailoverAttempt {
+  modelId: string;
+  attempt: number;
+  error: string;
+  transient: boolean;
+}
+
+interface StreamingResult {
+  fullStream: AsyncIterable<{ type: string; error?: unknown }> & ReadableStream<{ type: string; error?: unknown }>;
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  modelId: string;
+  attempts: FailoverAttempt[];
+}
+
+// Resolve the ordered list of models to try: the requested model followed by
+// its configured fallbacks, skipping unknown or duplicate ids.
+export function getFallbackChain(modelId: string): string[] {
+  const chain = [modelId];
+  for (const fallbackId of getModelDefinition(modelId)?.fallbacks ?? []) {
+    if (!chain.includes(fallbackId) && getModelDefinition(fallbackId)) {
+      chain.push(fallbackId);
+    }
+  }
+  return chain;
+}
+
+export function isTransientError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) {
+    return isTransientError(error.lastError);
+  }
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    if (status === 408 || status === 429 || (status !== undefined && status >= 500)) {
+      return true;
+    }
+    return error.isRetryable;
+  }
+  if (error instanceof Error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+      return true;
+    }
+    return /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|fetch failed|socket hang up|network/i.test(error.message);
+  }
+  return false;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return 'Unknown error';
+  }
+}
+
+function backoffDelay(attempt: number, options: FailoverOptions): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  // Full jitter keeps concurrent retries from hammering the provider in lockstep
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Wait for the first meaningful stream part. Resolves when the model starts
+// responding and throws if the first part is an error or nothing arrives in time.
+// Reading from `fullStream` tees the underlying stream, so the parts read here are
+// still delivered to whatever consumes the result afterwards.
+async function awaitFirstPart(result: StreamingResult, timeoutMs: number, abort: AbortController): Promise<void> {
+  const reader = result.fullStream.getReader();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      abort.abort();
+      const error = new Error(`No response from model within ${timeoutMs}ms`);
+      error.name = 'TimeoutError';
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    while (true) {
+      const { done, value } = await Promise.race([reader.read(), timeout]);
+      if (done) return;
+      if (value.type === 'error') throw value.error;
+      if (value.type !== 'step-start') return;
+    }
+  } finally {
+    clearTimeout(timer);
+    reader.cancel().catch(() => {});
+  }
+}
+
+export async function streamWithFailover<T extends StreamingResult>(
+  modelChain: string[],
+  start: (modelId: string, abortSignal: AbortSignal) => Promise<T> | T,
+  options: FailoverOptions = DEFAULT_FAILOVER_OPTIONS
+): Promise<FailoverResult<T>> {
+  const attempts: FailoverAttempt[] = [];
+  let lastError: unknown;
+
+  for (const modelId of modelChain) {
+    for (let attempt = 0; attempt <= options.maxRetriesPerModel; attempt++) {
+      const abort = new AbortController();
+      try {
+        const result = await start(modelId, abort.signal);
+        await awaitFirstPart(result, options.firstTokenTimeoutMs, abort);
+        return { result, modelId, attempts };
+      } catch (error) {
+        lastError = error;
+        const transient = isTransientError(error);
+        attempts.push({ modelId, attempt, error: describeError(error), transient });
+        console.warn(`[Failover] ${modelId} attempt ${attempt + 1} failed (${transient ? 'transient' : 'permanent'}):`, describeError(error));
+
+        if (!transient || attempt === options.maxRetriesPerModel) {
+          break;
+        }
+        await sleep(backoffDelay(attempt, options));
+      }
+    }
+  }
+
+  console.error(`[Failover] All models failed after ${attempts.length} attempts:`, attempts);
+  throw lastError ?? new Error('No models available to handle the request');
+}
@@ -0,0 +1,149 @@
+import { generateText, type CoreMessage } from 'ai';
+import { z } from 'zod';
+import { getModelConfig } from './lazy-models';
+import { DEFAULT_MODEL_ID, isKnownModel } from './model-registry';
+import { messageToTranscriptLine } from './context-window';
+import { recordUsage } from '@/lib/usage/cost-ledger';
+
+// Retrieval front-end: before the pre-flight search, a chat model turns the
+// last user message into a standalone question using the recent turns, so
+// follow-ups like "what about the second one?" find the right passages. It can
+// also add paraphrases and a hypothetical answer (HyDE), which are searched
+// alongside it. Enabled per deployment with RAG_QUERY_REWRITE=true.
+
+export interface QueryRewrite {
+  // The user's message as sent
+  original: string;
+  // The message rewritten to be understandable without the conversation
+  standalone: string;
+  paraphrases: string[];
+  // A short passage that would answer the question, searched like a query
+  hypothetical: string | null;
+}
+
+export interface QueryRewriteContext {
+  userId?: string | null;
+}
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Earlier messages shown to the rewriter
+const HISTORY_MESSAGES = readInt('RAG_QUERY_REWRITE_TURNS', 6);
+const MAX_PARAPHRASES = 5;
+// Characters of each earlier message shown to the rewriter
+const HISTORY_MESSAGE_CHARS = 1000;
+
+const rewriteSchema = z.object({
+  standalone: z.string().min(1),
+  paraphrases: z.array(z.string()).optional().default([]),
+  hypothetical: z.string().nullable().optional(),
+});
+
+export function isQueryRewritingEnabled(): boolean {
+  return process.env.RAG_QUERY_REWRITE === 'true';
+}
+
+function expansionSettings() {
+  return {
+    paraphrases: Math.min(readInt('RAG_QUERY_EXPANSIONS', 0), MAX_PARAPHRASES),
+    hypothetical: process.env.RAG_QUERY_HYDE === 'true',
+  };
+}
+
+// Every query to search for a rewrite, standalone question first, without duplicates
+export function retrievalQueries(rewrite: QueryRewrite): string[] {
+  const queries = [rewrite.standalone, ...rewrite.paraphrases, rewrite.hypothetical]
+    .filter((query): query is string => !!query?.trim())
+    .map(query => query.trim());
+  const seen = new Set<string>();
+  return queries.filter(query => {
+    const key = query.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function buildInstructions(paraphrases: number, hypothetical: boolean): string {
+  return [
+    'You prepare search queries for a STEM tutoring assistant that searches the student\'s uploaded documents (lecture notes, textbooks, papers).',
+    'Rewrite the latest message into a standalone question that can be understood without the conversation: resolve references like "it", "the second one" or "that formula" using the earlier turns, and keep names, symbols and course codes exactly. If it is already standalone, return it unchanged.',
+    paraphrases > 0
+      ? `Also write ${paraphrases} paraphrase${paraphrases === 1 ? '' : 's'} of the standalone question using different wording or terminology a textbook might use.`
+      : null,
+    hypothetical
+      ? 'Also write a hypothetical passage of 2-4 sentences, in the style of a textbook, that would answer the question. It is only used for searching, so it does not need to be correct.'
+      : null,
+    `Output only a JSON object: {"standalone": "..."${paraphrases > 0 ? ', "paraphrases": ["..."]' : ''}${hypothetical ? ', "hypothetical": "..."' : ''}}`,
+  ].filter(Boolean).join('\n');
+}
+
+// Rewrites `query` for retrieval. Returns null when rewriting is disabled or
+// there is nothing to do (no earlier turns and no expansions), and falls back
+// to the original query when the model's answer can't be used.
+export async function rewriteQuery(
+  query: string,
+  history: CoreMessage[],
+  context: QueryRewriteContext = {}
+): Promise<QueryRewrite | null> {
+  if (!isQueryRewritingEnabled()) return null;
+
+  const settings = expansionSettings();
+  const recent = HISTORY_MESSAGES > 0
+    ? history.filter(message => message.role === 'user' || message.role === 'assistant').slice(-HISTORY_MESSAGES)
+    : [];
+  if (recent.length === 0 && settings.paraphrases === 0 && !settings.hypothetical) return null;
+
+  const fallback: QueryRewrite = { original: query, standalone: query, paraphrases: [], hypothetical: null };
+  const startTime = performance.now();
+
+  try {
+    const modelId = process.env.RAG_QUERY_REWRITE_MODEL && isKnownModel(process.env.RAG_QUERY_REWRITE_MODEL)
+      ? process.env.RAG_QUERY_REWRITE_MODEL
+      : DEFAULT_MODEL_ID;
+    const model = await getModelConfig(modelId);
+
+    const transcript = recent
+      .map(message => messageToTranscriptLine(message).slice(0, HISTORY_MESSAGE_CHARS))
+      .join('\n\n');
+
+    const { text, usage } = await generateText({
+      model,
+      system: buildInstructions(settings.paraphrases, settings.hypothetical),
+      prompt: `${transcript ? `Conversation so far:\n${transcript}\n\n` : ''}Latest message: ${query}\n\nJSON:`,
+    });
+
+    await recordUsage({
+      userId: context.userId,
+      modelId,
+      kind: 'rewrite',
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
+
+    const match = text.match(/\{[\s\S]*\}/);
+    const parsed = match ? rewriteSchema.safeParse(JSON.parse(match[0])) : null;
+    if (!parsed?.success) {
+      console.warn('[Query Rewriting] Could not parse rewritten queries, searching for the original message');
+      return fallback;
+    }
+
+    const rewrite: QueryRewrite = {
+      original: query,
+      standalone: parsed.data.standalone.trim() || query,
+      paraphrases: parsed.data.paraphrases
+        .map(paraphrase => paraphrase.trim())
+        .filter(Boolean)
+        .slice(0, settings.paraphrases),
+      hypothetical: settings.hypothetical ? parsed.data.hypothetical?.trim() || null : null,
+    };
+    console.log(`[Query Rewriting] Rewrote query into ${retrievalQueries(rewrite).length} queries in ${(performance.now() - startTime).toFixed(2)}ms`);
+    return rewrite;
+  } catch (error) {
+    console.error('[Query Rewriting] Rewriting failed, searching for the original message:', error);
+    return fallback;
+  }
+}
@@ -0,0 +1,550 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { and, desc, eq, lt, type SQL } from 'drizzle-orm';
+import { db, ragEvalRuns } from '@/lib/db';
+import { chunkDocument, DEFAULT_CHUNK_TOKENS, DEFAULT_OVERLAP_TOKENS, type ChunkingOptions } from './chunking';
+import { embedChunks, embeddingModelId, generateEmbedding, isEmbeddingConfigured } from './embedding';
+import type { EmbeddingProvider } from './embedding-providers';
+import { extractDocument, findExtractor } from './extractors';
+import { extractedChunkingOptions } from './ingestion';
+import { sanitizeForDatabase } from './documents';
+import {
+  fuseRankings,
+  hybridCandidateCount,
+  hybridSearchSettings,
+  searchDocumentsOptimized,
+  type DocumentChunk,
+  type HybridSearchOptions,
+} from './optimized-documents';
+import { getReranker, rerankCandidateCount, rerankResults } from './reranking';
+import { toSnippet } from './citations';
+
+// Retrieval evaluation: runs a golden set of questions with the documents (and
+// optionally the passages) that should be found, and scores the results with
+// recall@k, MRR and nDCG@k. Two modes:
+// - offline: the dataset's own corpus is extracted, chunked and embedded in
+//   memory with the current chunker and the run's embedding provider (the
+//   local one for scripts/rag-eval.ts and /api/rag/eval), and searched with the same fusion and reranking as
+//   searchDocumentsOptimized. Full-text ranking approximates Postgres with
+//   stemmed terms that must all match. Needs no database or network.
+// - database: the questions go through searchDocumentsOptimized against the
+//   documents stored for a user.
+// Runs can be stored in rag_eval_runs and compared with earlier ones.
+
+export type EvalMode = 'offline' | 'database';
+
+const expectationSchema = z.object({
+  // Document title, compared case-insensitively
+  document: z.string().min(1),
+  // Text the retrieved chunk must contain; any chunk of the document counts without it
+  contains: z.string().min(1).optional(),
+  // Page the chunk is cited with, the one it starts on (PDFs)
+  page: z.number().int().positive().optional(),
+  // Relevance for nDCG
+  grade: z.number().positive().max(10).optional().default(1),
+});
+
+const corpusDocumentSchema = z.object({
+  title: z.string().min(1).optional(),
+  // File to extract, relative to the dataset file
+  path: z.string().min(1).optional(),
+  // Inline text, extracted as Markdown when the title ends in .md
+  content: z.string().optional(),
+}).refine(document => document.path !== undefined || document.content !== undefined, 'path or content is required')
+  .refine(document => document.title !== undefined || document.path !== undefined, 'title is required for inline content');
+
+const datasetSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  // Corpus for offline runs; database runs search the stored documents
+  documents: z.array(corpusDocumentSchema).optional().default([]),
+  questions: z.array(z.object({
+    id: z.string().min(1).optional(),
+    question: z.string().min(1),
+    expected: z.array(expectationSchema).min(1),
+  })).min(1),
+});
+
+export type EvalDataset = z.infer<typeof datasetSchema>;
+export type EvalExpectation = z.infer<typeof expectationSchema>;
+
+export interface EvalRetrieved {
+  rank: number;
+  documentTitle: string;
+  chunkId: number;
+  pageNumber: number | null;
+  sectionPath: string[];
+  similarity: number;
+  score: number;
+  snippet: string;
+  // Indexes of the expectations this chunk satisfies
+  matches: number[];
+}
+
+export interface EvalQuestionResult {
+  id: string;
+  question: string;
+  // Share of expectations satisfied in the top k
+  recall: number;
+  // 1 / rank of the first relevant chunk, 0 when none was retrieved
+  reciprocalRank: number;
+  ndcg: number;
+  retrieved: EvalRetrieved[];
+  // Expectations no retrieved chunk satisfied
+  missed: EvalExpectation[];
+}
+
+export interface EvalMetrics {
+  questions: number;
+  recallAtK: number;
+  mrr: number;
+  ndcgAtK: number;
+}
+
+export interface EvalConfig {
+  embeddingModel: string | null;
+  // Chunking of the offline corpus; database runs use the stored chunks
+  chunkTokens: number | null;
+  overlapTokens: number | null;
+  search: Required<HybridSearchOptions>;
+  reranker: string;
+  corpus?: {
+    documents: number;
+    chunks: number;
+    skipped: Array<{ title: string; error: string }>;
+  };
+}
+
+export interface EvalRun {
+  dataset: string;
+  label: string | null;
+  mode: EvalMode;
+  k: number;
+  config: EvalConfig;
+  metrics: EvalMetrics;
+  results: EvalQuestionResult[];
+}
+
+export interface EvalRunOptions {
+  mode: EvalMode;
+  k?: number;
+  label?: string | null;
+  search?: HybridSearchOptions;
+  // Offline only: chunk sizes to try instead of RAG_CHUNK_SIZE/RAG_CHUNK_OVERLAP
+  chunking?: Pick<ChunkingOptions, 'chunkTokens' | 'overlapTokens'>;
+  // Offline only: embeds the corpus and questions instead of the configured
+  // provider, and sets the default similarity threshold
+  embeddingProvider?: EmbeddingProvider;
+  // Database only: whose documents are searched (their own, public and anonymous)
+  userId?: string | null;
+  // Offline only: corpus paths are resolved against baseDir and, when root is
+  // set, must stay inside it
+  baseDir?: string;
+  root?: string;
+}
+
+export const DEFAULT_EVAL_K = 5;
+export const MAX_EVAL_K = 50;
+
+// Validates a parsed dataset; throws with the first problem found
+export function parseEvalDataset(value: unknown): EvalDataset {
+  const parsed = datasetSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid evaluation dataset: ${issue.path.join('.') || 'dataset'}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+export async function readEvalDataset(file: string): Promise<EvalDataset> {
+  let value: unknown;
+  try {
+    value = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read evaluation dataset ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseEvalDataset(value);
+}
+
+// Resolves a dataset path, refusing paths outside `root`
+export function resolveEvalPath(file: string, baseDir: string, root?: string): string {
+  const resolved = path.resolve(baseDir, file);
+  if (root) {
+    const relative = path.relative(path.resolve(root), resolved);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`${file} is outside the project directory`);
+    }
+  }
+  return resolved;
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'than', 'that', 'the', 'their', 'then', 'there',
+  'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you',
+]);
+
+// Rough English stemming, enough to match plurals and verb forms
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && (word.endsWith('ed') || word.endsWith('es'))) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function lexicalTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? ([] as string[]))
+    .filter(word => !STOPWORDS.has(word))
+    .map(stem);
+}
+
+type IndexedChunk = Omit<DocumentChunk, 'score'> & {
+  embedding: number[];
+  // Stemmed term counts for the full-text ranking
+  terms: Map<string, number>;
+};
+
+interface OfflineIndex {
+  chunks: IndexedChunk[];
+  documents: number;
+  skipped: Array<{ title: string; error: string }>;
+}
+
+async function extractCorpusDocument(
+  document: EvalDataset['documents'][number],
+  options: EvalRunOptions
+): Promise<{ title: string; text: string; chunking: ChunkingOptions }> {
+  const title = document.title ?? path.basename(document.path!);
+  const fileName = document.path ? path.basename(document.path) : title;
+  const data = document.path
+    ? await readFile(resolveEvalPath(document.path, options.baseDir ?? process.cwd(), options.root))
+    : Buffer.from(document.content!, 'utf8');
+
+  // Extracted and chunked like an upload of the same file
+  const extracted = await extractDocument(findExtractor(fileName) ? fileName : `${fileName}.txt`, null, data);
+  return {
+    title,
+    text: sanitizeForDatabase(extracted.text),
+    chunking: { ...extractedChunkingOptions(extracted), ...options.chunking },
+  };
+}
+
+async function buildOfflineIndex(dataset: EvalDataset, options: EvalRunOptions): Promise<OfflineIndex> {
+  const index: OfflineIndex = { chunks: [], documents: 0, skipped: [] };
+
+  for (const document of dataset.documents) {
+    const title = document.title ?? path.basename(document.path ?? '');
+    try {
+      const extracted = await extractCorpusDocument(document, options);
+      const embedded = await embedChunks(chunkDocument(extracted.text, extracted.chunking), options.embeddingProvider);
+      if (embedded.length === 0) throw new Error('No text to index');
+
+      index.documents++;
+      for (const chunk of embedded) {
+        const terms = new Map<string, number>();
+        for (const term of lexicalTerms([...chunk.sectionPath, chunk.content].join(' '))) {
+          terms.set(term, (terms.get(term) ?? 0) + 1);
+        }
+        index.chunks.push({
+          id: index.chunks.length + 1,
+          content: chunk.content,
+          document_id: index.documents,
+          title: extracted.title,
+          userId: null,
+          isPublic: true,
+          pageNumber: chunk.pageNumber,
+          sectionPath: chunk.sectionPath,
+          similarity: 0,
+          embedding: chunk.embedding,
+          terms,
+        });
+      }
+    } catch (error) {
+      console.warn(`[RAG Eval] Skipping corpus document ${title}:`, error);
+      index.skipped.push({ title, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return index;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// searchDocumentsOptimized over the in-memory index: the same candidate
+// counts, similarity threshold, fusion and reranking
+async function searchOfflineIndex(
+  index: OfflineIndex,
+  query: string,
+  limit: number,
+  options: HybridSearchOptions,
+  embedder?: EmbeddingProvider
+): Promise<DocumentChunk[]> {
+  const settings = hybridSearchSettings(options, embedder);
+  const candidates = hybridCandidateCount(limit);
+  const queryEmbedding = await generateEmbedding(query, embedder);
+
+  const scored = index.chunks.map(({ embedding, terms, ...chunk }) => ({
+    chunk: { ...chunk, similarity: cosineSimilarity(queryEmbedding, embedding) },
+    terms,
+  }));
+
+  const vectorResults = settings.vectorWeight > 0
+    ? scored
+        .filter(({ chunk }) => chunk.similarity > settings.similarityThreshold)
+        .sort((a, b) => b.chunk.similarity - a.chunk.similarity)
+        .slice(0, candidates)
+        .map(({ chunk }) => chunk)
+    : [];
+
+  // Like websearch_to_tsquery, every query term has to occur
+  const queryTerms = [...new Set(lexicalTerms(query))];
+  const lexicalResults = settings.lexicalWeight > 0 && queryTerms.length > 0
+    ? scored
+        .map(({ chunk, terms }) => ({
+          chunk,
+          rank: queryTerms.every(term => terms.has(term))
+            ? queryTerms.reduce((total, term) => total + terms.get(term)!, 0)
+            : 0,
+        }))
+        .filter(({ rank }) => rank > 0)
+        .sort((a, b) => b.rank - a.rank)
+        .slice(0, candidates)
+        .map(({ chunk }) => chunk)
+    : [];
+
+  const fused = fuseRankings([
+    { weight: settings.vectorWeight, results: vectorResults },
+    { weight: settings.lexicalWeight, results: lexicalResults },
+  ], settings.rrfK, rerankCandidateCount(limit));
+  return rerankResults(query, fused, limit);
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function satisfies(result: DocumentChunk, expectation: EvalExpectation): boolean {
+  return normalizeText(result.title) === normalizeText(expectation.document)
+    && (!expectation.contains || normalizeText(result.content).includes(normalizeText(expectation.contains)))
+    && (expectation.page === undefined || result.pageNumber === expectation.page);
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// Scores one question's results. Each expectation counts once towards nDCG,
+// at the rank of the first chunk that satisfies it.
+export function scoreQuestion(
+  question: EvalDataset['questions'][number],
+  index: number,
+  results: DocumentChunk[],
+  k: number
+): EvalQuestionResult {
+  const satisfied = new Set<number>();
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  const retrieved = results.slice(0, k).map((result, position) => {
+    const matches = question.expected.flatMap((expectation, expectationIndex) =>
+      satisfies(result, expectation) ? [expectationIndex] : []);
+    if (matches.length > 0 && reciprocalRank === 0) reciprocalRank = 1 / (position + 1);
+
+    const gain = matches
+      .filter(match => !satisfied.has(match))
+      .reduce((best, match) => Math.max(best, question.expected[match].grade), 0);
+    dcg += gain / Math.log2(position + 2);
+    matches.forEach(match => satisfied.add(match));
+
+    return {
+      rank: position + 1,
+      documentTitle: result.title,
+      chunkId: result.id,
+      pageNumber: result.pageNumber ?? null,
+      sectionPath: result.sectionPath ?? [],
+      similarity: round(result.similarity),
+      score: round(result.score),
+      snippet: toSnippet(result.content),
+      matches,
+    };
+  });
+
+  const idealDcg = question.expected
+    .map(expectation => expectation.grade)
+    .sort((a, b) => b - a)
+    .slice(0, k)
+    .reduce((total, grade, position) => total + grade / Math.log2(position + 2), 0);
+
+  return {
+    id: question.id ?? `q${index + 1}`,
+    question: question.question,
+    recall: round(satisfied.size / question.expected.length),
+    reciprocalRank: round(reciprocalRank),
+    ndcg: round(idealDcg > 0 ? dcg / idealDcg : 0),
+    retrieved,
+    missed: question.expected.filter((_, expectationIndex) => !satisfied.has(expectationIndex)),
+  };
+}
+
+function averageMetrics(results: EvalQuestionResult[]): EvalMetrics {
+  const mean = (pick: (result: EvalQuestionResult) => number) =>
+    results.length > 0 ? round(results.reduce((total, result) => total + pick(result), 0) / results.length) : 0;
+  return {
+    questions: results.length,
+    recallAtK: mean(result => result.recall),
+    mrr: mean(result => result.reciprocalRank),
+    ndcgAtK: mean(result => result.ndcg),
+  };
+}
+
+export async function runEval(dataset: EvalDataset, options: EvalRunOptions): Promise<EvalRun> {
+  const k = options.k ?? DEFAULT_EVAL_K;
+  if (!Number.isInteger(k) || k < 1 || k > MAX_EVAL_K) {
+    throw new Error(`k must be an integer from 1 to ${MAX_EVAL_K}`);
+  }
+  const search = options.search ?? {};
+
+  let index: OfflineIndex | null = null;
+  if (options.mode === 'offline') {
+    if (dataset.documents.length === 0) {
+      throw new Error('Offline evaluation needs the dataset to list its corpus documents');
+    }
+    index = await buildOfflineIndex(dataset, options);
+    if (index.chunks.length === 0) {
+      throw new Error('None of the corpus documents could be indexed');
+    }
+  }
+
+  const embedder = index ? options.embeddingProvider : undefined;
+  const startTime = performance.now();
+  const results: EvalQuestionResult[] = [];
+  // One question at a time keeps embedding and reranking requests sequential
+  for (const [position, question] of dataset.questions.entries()) {
+    const found = index
+      ? await searchOfflineIndex(index, question.question, k, search, embedder)
+      : await searchDocumentsOptimized(question.question, k, options.userId, search);
+    results.push(scoreQuestion(question, position, found, k));
+  }
+
+  const metrics = averageMetrics(results);
+  console.log(`[RAG Eval] ${dataset.name} (${options.mode}): recall@${k} ${metrics.recallAtK}, MRR ${metrics.mrr}, nDCG@${k} ${metrics.ndcgAtK} over ${metrics.questions} questions in ${(performance.now() - startTime).toFixed(0)}ms`);
+
+  return {
+    dataset: dataset.name,
+    label: options.label ?? null,
+    mode: options.mode,
+    k,
+    config: {
+      embeddingModel: embedder?.id ?? (isEmbeddingConfigured() ? embeddingModelId() : null),
+      chunkTokens: index ? options.chunking?.chunkTokens ?? DEFAULT_CHUNK_TOKENS : null,
+      overlapTokens: index ? options.chunking?.overlapTokens ?? DEFAULT_OVERLAP_TOKENS : null,
+      search: hybridSearchSettings(search, embedder),
+      reranker: getReranker()?.name ?? 'none',
+      corpus: index ? { documents: index.documents, chunks: index.chunks.length, skipped: index.skipped } : undefined,
+    },
+    metrics,
+    results,
+  };
+}
+
+export interface EvalComparison {
+  baseline: { id?: number; label: string | null; createdAt?: Date };
+  metrics: Record<'recallAtK' | 'mrr' | 'ndcgAtK', { baseline: number; current: number; delta: number }>;
+  // Questions whose scores changed, by id
+  changed: Array<{
+    id: string;
+    question: string;
+    baseline: Pick<EvalQuestionResult, 'recall' | 'reciprocalRank' | 'ndcg'> | null;
+    current: Pick<EvalQuestionResult, 'recall' | 'reciprocalRank' | 'ndcg'> | null;
+  }>;
+}
+
+export function compareEvalRuns(
+  current: EvalRun,
+  baseline: EvalRun & { id?: number; createdAt?: Date }
+): EvalComparison {
+  const metric = (name: keyof EvalComparison['metrics']) => ({
+    baseline: baseline.metrics[name],
+    current: current.metrics[name],
+    delta: round(current.metrics[name] - baseline.metrics[name]),
+  });
+  const scores = (result?: EvalQuestionResult) =>
+    result ? { recall: result.recall, reciprocalRank: result.reciprocalRank, ndcg: result.ndcg } : null;
+
+  const before = new Map(baseline.results.map(result => [result.id, result]));
+  const after = new Map(current.results.map(result => [result.id, result]));
+  const changed = [...new Set([...after.keys(), ...before.keys()])].flatMap(id => {
+    const [old, now] = [before.get(id), after.get(id)];
+    if (old && now && old.recall === now.recall && old.reciprocalRank === now.reciprocalRank && old.ndcg === now.ndcg) {
+      return [];
+    }
+    return [{ id, question: (now ?? old)!.question, baseline: scores(old), current: scores(now) }];
+  });
+
+  return {
+    baseline: { id: baseline.id, label: baseline.label, createdAt: baseline.createdAt },
+    metrics: { recallAtK: metric('recallAtK'), mrr: metric('mrr'), ndcgAtK: metric('ndcgAtK') },
+    changed,
+  };
+}
+
+export type StoredEvalRun = typeof ragEvalRuns.$inferSelect;
+
+export async function saveEvalRun(run: EvalRun, userId?: string | null): Promise<StoredEvalRun> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [stored] = await db.insert(ragEvalRuns)
+    .values({ ...run, createdBy: userId ?? null })
+    .returning();
+  return stored;
+}
+
+// Latest runs first, without per-question results
+export async function listEvalRuns(dataset?: string | null, limit = 20) {
+  if (!db) throw new Error('Database is not initialized');
+
+  return db.select({
+    id: ragEvalRuns.id,
+    dataset: ragEvalRuns.dataset,
+    label: ragEvalRuns.label,
+    mode: ragEvalRuns.mode,
+    k: ragEvalRuns.k,
+    config: ragEvalRuns.config,
+    metrics: ragEvalRuns.metrics,
+    createdAt: ragEvalRuns.createdAt,
+  })
+    .from(ragEvalRuns)
+    .where(dataset ? eq(ragEvalRuns.dataset, dataset) : undefined)
+    .orderBy(desc(ragEvalRuns.id))
+    .limit(limit);
+}
+
+export async function getEvalRun(id: number): Promise<StoredEvalRun | null> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [run] = await db.select().from(ragEvalRuns).where(eq(ragEvalRuns.id, id)).limit(1);
+  return run ?? null;
+}
+
+// The most recent run of a dataset in the same mode, optionally before run `beforeId`
+export async function previousEvalRun(dataset: string, mode: EvalMode, beforeId?: number): Promise<StoredEvalRun | null> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const conditions: SQL[] = [eq(ragEvalRuns.dataset, dataset), eq(ragEvalRuns.mode, mode)];
+  if (beforeId !== undefined) conditions.push(lt(ragEvalRuns.id, beforeId));
+  const [run] = await db.select()
+    .from(ragEvalRuns)
+    .where(and(...conditions))
+    .orderBy(desc(ragEvalRuns.id))
+    .limit(1);
+  return run ?? null;
+}
@@ -0,0 +1,221 @@
+import { and, asc, eq, gt, inArray, isNull, or, sql, type SQL } from 'drizzle-orm';
+import type { BatchItem } from 'drizzle-orm/batch';
+import { db, chunks, documents } from '@/lib/db';
+import { chunkDocument, type DocumentChunkingOptions } from './chunking';
+import { chunkContentHash, embeddingModelId, embedChunksIncrementally } from './embedding';
+import { chunkInserts, contentHash, invalidateDocumentSearches, isLatestVersion } from './documents';
+
+// Re-chunks stored documents with the current chunker and re-embeds them with
+// the current embedding model, for after either changes. Chunks whose text
+// (hash) and model are unchanged keep their row, id and embedding; only new or
+// changed chunks are embedded. Superseded document versions have no chunks and
+// are left alone.
+
+export type ReindexStatus = 'unchanged' | 'reindexed' | 'not_found';
+
+export type ReindexResult = {
+  documentId: number;
+  status: ReindexStatus;
+  chunkCount: number;
+  // Chunks sent to the embedding model
+  embedded: number;
+  // Chunks kept as they were, apart from offsets and page numbers
+  kept: number;
+  removed: number;
+};
+
+const DEFAULT_BATCH_DOCUMENTS = 10;
+
+type StoredChunk = {
+  id: number;
+  contentHash: string | null;
+  embeddingModel: string | null;
+  pageNumber: number | null;
+  startOffset: number | null;
+  endOffset: number | null;
+  tokenCount: number | null;
+  ocrConfidence: number | null;
+};
+
+// Documents stored before chunking options were kept: page offsets and OCR
+// confidence are recovered from where their chunks start
+function legacyChunkingOptions(stored: StoredChunk[]): DocumentChunkingOptions {
+  const paged = stored.filter(chunk => chunk.pageNumber !== null && chunk.startOffset !== null);
+  if (paged.length === 0) return { headings: 'detect' };
+
+  const pageCount = Math.max(...paged.map(chunk => chunk.pageNumber!));
+  const starts: Array<number | null> = new Array(pageCount).fill(null);
+  const confidence: Array<number | null> = new Array(pageCount).fill(null);
+  for (const chunk of paged) {
+    const page = chunk.pageNumber! - 1;
+    starts[page] = Math.min(starts[page] ?? Infinity, chunk.startOffset!);
+    if (chunk.ocrConfidence !== null) {
+      confidence[page] = Math.min(confidence[page] ?? 1, chunk.ocrConfidence);
+    }
+  }
+
+  // Pages no chunk starts on begin where the next page does
+  const pageOffsets: number[] = new Array(pageCount);
+  let next = Infinity;
+  for (let page = pageCount - 1; page >= 0; page--) {
+    next = starts[page] ?? next;
+    pageOffsets[page] = page === 0 ? 0 : next;
+  }
+
+  return {
+    headings: 'detect',
+    pageOffsets,
+    pageOcrConfidence: confidence.some(value => value !== null) ? confidence : undefined,
+  };
+}
+
+export async function reindexDocument(documentId: number): Promise<ReindexResult> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const [document] = await db.select({
+    id: documents.id,
+    content: documents.content,
+    contentHash: documents.contentHash,
+    chunkingOptions: documents.chunkingOptions,
+  })
+    .from(documents)
+    .where(eq(documents.id, documentId))
+    .limit(1);
+  if (!document) {
+    return { documentId, status: 'not_found', chunkCount: 0, embedded: 0, kept: 0, removed: 0 };
+  }
+
+  const stored: StoredChunk[] = await db.select({
+    id: chunks.id,
+    contentHash: chunks.contentHash,
+    embeddingModel: chunks.embeddingModel,
+    pageNumber: chunks.pageNumber,
+    startOffset: chunks.startOffset,
+    endOffset: chunks.endOffset,
+    tokenCount: chunks.tokenCount,
+    ocrConfidence: chunks.ocrConfidence,
+  })
+    .from(chunks)
+    .where(eq(chunks.documentId, documentId))
+    .orderBy(asc(chunks.id));
+
+  const chunkingOptions = document.chunkingOptions ?? legacyChunkingOptions(stored);
+  const textChunks = chunkDocument(document.content, chunkingOptions);
+
+  // Stored chunks that are still current, by hash
+  const modelId = embeddingModelId();
+  const reusable = new Map<string, StoredChunk[]>();
+  for (const chunk of stored) {
+    if (!chunk.contentHash || chunk.embeddingModel !== modelId) continue;
+    reusable.set(chunk.contentHash, [...(reusable.get(chunk.contentHash) ?? []), chunk]);
+  }
+
+  const statements: BatchItem<'pg'>[] = [];
+  const keptIds = new Set<number>();
+  const changed = textChunks.filter(chunk => {
+    const match = reusable.get(chunkContentHash(chunk))?.shift();
+    if (!match) return true;
+
+    keptIds.add(match.id);
+    if (
+      match.startOffset !== chunk.startOffset || match.endOffset !== chunk.endOffset
+      || match.pageNumber !== chunk.pageNumber || match.tokenCount !== chunk.tokenCount
+      || match.ocrConfidence !== chunk.ocrConfidence
+    ) {
+      statements.push(db!.update(chunks)
+        .set({
+          pageNumber: chunk.pageNumber,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
+          tokenCount: chunk.tokenCount,
+          ocrConfidence: chunk.ocrConfidence,
+          updatedAt: new Date(),
+        })
+        .where(eq(chunks.id, match.id)));
+    }
+    return false;
+  });
+  const removedIds = stored.filter(chunk => !keptIds.has(chunk.id)).map(chunk => chunk.id);
+
+  const result: ReindexResult = {
+    documentId,
+    status: 'unchanged',
+    chunkCount: textChunks.length,
+    embedded: changed.length,
+    kept: keptIds.size,
+    removed: removedIds.length,
+  };
+  if (statements.length === 0 && changed.length === 0 && removedIds.length === 0 && document.contentHash && document.chunkingOptions) {
+    return result;
+  }
+
+  const { embeddedChunks } = await embedChunksIncrementally(changed);
+  if (removedIds.length > 0) {
+    statements.push(db.delete(chunks).where(inArray(chunks.id, removedIds)));
+  }
+  statements.push(...chunkInserts(documentId, embeddedChunks));
+
+  await db.batch([
+    db.update(documents)
+      .set({ contentHash: contentHash(document.content), chunkingOptions, updatedAt: new Date() })
+      .where(eq(documents.id, documentId)),
+    ...statements,
+  ]);
+  await invalidateDocumentSearches([documentId]);
+
+  return { ...result, status: 'reindexed' };
+}
+
+// Documents that need re-indexing: never hashed, or with chunks from another
+// embedding model or without a hash. Superseded versions are skipped.
+function staleDocumentCondition(): SQL {
+  return or(
+    isNull(documents.contentHash),
+    isNull(documents.chunkingOptions),
+    sql`exists (
+      select 1 from ${chunks}
+      where ${chunks.documentId} = ${documents.id}
+        and (${chunks.contentHash} is null or ${chunks.embeddingModel} is distinct from ${embeddingModelId()})
+    )`
+  )!;
+}
+
+// Re-indexes the next `limit` documents after `afterId`, in id order. Without
+// `all` only stale documents are visited; with it every document is re-chunked
+// (e.g. after changing RAG_CHUNK_SIZE), still skipping unchanged chunks. Call
+// again with the returned `nextAfterId` until it is null.
+export async function reindexDocuments(options: {
+  documentIds?: number[];
+  all?: boolean;
+  afterId?: number;
+  limit?: number;
+} = {}): Promise<{ results: ReindexResult[]; nextAfterId: number | null }> {
+  if (!db) throw new Error('Database is not initialized');
+
+  const limit = options.limit ?? DEFAULT_BATCH_DOCUMENTS;
+  const conditions: SQL[] = [
+    gt(documents.id, options.afterId ?? 0),
+    isLatestVersion(),
+  ];
+  if (options.documentIds) conditions.push(inArray(documents.id, options.documentIds));
+  else if (!options.all) conditions.push(staleDocumentCondition());
+
+  const batch = await db.select({ id: documents.id })
+    .from(documents)
+    .where(and(...conditions))
+    .orderBy(asc(documents.id))
+    .limit(limit);
+
+  const results: ReindexResult[] = [];
+  for (const { id } of batch) {
+    const startTime = performance.now();
+    const result = await reindexDocument(id);
+    results.push(result);
+    console.log(`[Reindex] Document ${id}: ${result.status}, ${result.embedded} embedded, ${result.kept} kept, ${result.removed} removed in ${(performance.now() - startTime).toFixed(0)}ms`);
+  }
+
+  return {
+    results,
+    nextAfterId: batch.length === limit ? batch[batch.length - 1].id : null,
+  };
+}
@@ -0,0 +1,226 @@
+import { generateText } from 'ai';
+import { getModelConfig } from './lazy-models';
+import { DEFAULT_MODEL_ID, isKnownModel } from './model-registry';
+import { recordUsage } from '@/lib/usage/cost-ledger';
+
+// Post-retrieval stage between hybrid search and the prompt: an optional
+// reranker reorders the top candidates, then near-duplicate chunks of the same
+// document are dropped and each document is capped to a few chunks so one long
+// upload can't fill the whole context. Configured per deployment with
+// RAG_RERANKER (none | lexical | llm).
+
+export interface RerankCandidate {
+  id: number;
+  document_id: number | null;
+  title: string;
+  content: string;
+  similarity: number;
+  score: number;
+}
+
+export interface RerankContext {
+  userId?: string | null;
+}
+
+export interface Reranker {
+  name: string;
+  // Returns the candidates best first, with `score` replaced by the reranker's
+  rerank<T extends RerankCandidate>(query: string, candidates: T[], context: RerankContext): Promise<T[]>;
+}
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const RERANK_CANDIDATES = readInt('RAG_RERANK_CANDIDATES', 20);
+const MAX_CHUNKS_PER_DOCUMENT = readInt('RAG_MAX_CHUNKS_PER_DOCUMENT', 2);
+// Word-shingle Jaccard similarity above which two chunks of one document count as duplicates
+const DUPLICATE_THRESHOLD = 0.8;
+// Characters of each passage shown to the LLM reranker
+const LLM_PASSAGE_CHARS = 1200;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'that', 'to', 'what', 'when', 'where', 'which', 'why', 'with',
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? ([] as string[])).filter(word => word.length > 1);
+}
+
+function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query).filter(word => !STOPWORDS.has(word)))];
+}
+
+// Cross-feature scoring without a model: query term coverage, matching
+// bigrams, title overlap, embedding similarity and the retrieval rank
+export const lexicalReranker: Reranker = {
+  name: 'lexical',
+  async rerank(query, candidates) {
+    const terms = queryTerms(query);
+    const queryWords = tokenize(query);
+    const bigrams = queryWords.slice(1).map((word, index) => `${queryWords[index]} ${word}`);
+
+    const scored = candidates.map((candidate, index) => {
+      const words = tokenize(candidate.content);
+      const wordSet = new Set(words);
+      const text = words.join(' ');
+      const titleWords = new Set(tokenize(candidate.title));
+
+      const coverage = terms.length > 0 ? terms.filter(term => wordSet.has(term)).length / terms.length : 0;
+      const bigramMatch = bigrams.length > 0 ? bigrams.filter(bigram => text.includes(bigram)).length / bigrams.length : 0;
+      const titleMatch = terms.length > 0 ? terms.filter(term => titleWords.has(term)).length / terms.length : 0;
+      const prior = 1 / (1 + index);
+
+      const score = 0.35 * coverage + 0.15 * bigramMatch + 0.1 * titleMatch
+        + 0.25 * Math.max(candidate.similarity, 0) + 0.15 * prior;
+      return { ...candidate, score };
+    });
+
+    return scored.sort((a, b) => b.score - a.score);
+  },
+};
+
+// Asks a chat model to grade each passage 0-10. Falls back to the retrieval
+// order when the answer can't be parsed.
+export const llmReranker: Reranker = {
+  name: 'llm',
+  async rerank(query, candidates, context) {
+    if (candidates.length === 0) return candidates;
+
+    const modelId = process.env.RAG_RERANK_MODEL && isKnownModel(process.env.RAG_RERANK_MODEL)
+      ? process.env.RAG_RERANK_MODEL
+      : DEFAULT_MODEL_ID;
+    const model = await getModelConfig(modelId);
+
+    const passages = candidates
+      .map((candidate, index) => `[${index}] (${candidate.title})\n${candidate.content.slice(0, LLM_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const { text, usage } = await generateText({
+      model,
+      system: 'You grade how useful passages are for answering a STEM question. Score each passage from 0 (irrelevant) to 10 (directly answers it). Output only a JSON array of numbers, one per passage, in the given order.',
+      prompt: `Question: ${query}\n\nPassages:\n\n${passages}\n\nScores:`,
+    });
+
+    await recordUsage({
+      userId: context.userId,
+      modelId,
+      kind: 'rerank',
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
+
+    const match = text.match(/\[[\s\S]*?\]/);
+    const grades = match ? JSON.parse(match[0]) : null;
+    if (!Array.isArray(grades) || grades.length !== candidates.length || grades.some(grade => typeof grade !== 'number')) {
+      console.warn('[Reranking] Could not parse LLM grades, keeping retrieval order');
+      return candidates;
+    }
+
+    // Ties keep the retrieval order
+    return candidates
+      .map((candidate, index) => ({ ...candidate, score: grades[index] / 10 + (candidates.length - index) * 1e-6 }))
+      .sort((a, b) => b.score - a.score);
+  },
+};
+
+const RERANKERS: Record<string, Reranker> = {
+  lexical: lexicalReranker,
+  llm: llmReranker,
+};
+
+export function getReranker(name = process.env.RAG_RERANKER): Reranker | null {
+  if (!name || name === 'none') return null;
+  const reranker = RERANKERS[name];
+  if (!reranker) {
+    console.warn(`[Reranking] Unknown RAG_RERANKER "${name}", reranking disabled`);
+    return null;
+  }
+  return reranker;
+}
+
+// How many fused candidates to hand to rerankResults for `limit` results
+export function rerankCandidateCount(limit: number): number {
+  return Math.max(limit, RERANK_CANDIDATES);
+}
+
+function shingles(text: string): Set<string> {
+  const words = tokenize(text);
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= words.length; i++) {
+    result.add(words.slice(i, i + 3).join(' '));
+  }
+  if (result.size === 0 && words.length > 0) result.add(words.join(' '));
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  const union = a.size + b.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+}
+
+// Drops chunks nearly identical to a better-ranked chunk of the same document
+export function dedupeCandidates<T extends RerankCandidate>(candidates: T[]): T[] {
+  const kept: Array<{ candidate: T; shingles: Set<string> }> = [];
+
+  for (const candidate of candidates) {
+    const candidateShingles = shingles(candidate.content);
+    const duplicate = kept.some(existing =>
+      existing.candidate.document_id === candidate.document_id
+      && jaccard(existing.shingles, candidateShingles) >= DUPLICATE_THRESHOLD
+    );
+    if (!duplicate) kept.push({ candidate, shingles: candidateShingles });
+  }
+
+  return kept.map(entry => entry.candidate);
+}
+
+// Takes at most `perDocument` chunks of each document in rank order. When that
+// leaves fewer than `limit` results (e.g. only one document matched), the
+// remaining slots are filled with the skipped chunks.
+export function diversifyCandidates<T extends RerankCandidate>(candidates: T[], limit: number, perDocument = MAX_CHUNKS_PER_DOCUMENT): T[] {
+  const selected: T[] = [];
+  const skipped: T[] = [];
+  const counts = new Map<number | null, number>();
+
+  for (const candidate of candidates) {
+    const count = counts.get(candidate.document_id) ?? 0;
+    if (count < perDocument) {
+      selected.push(candidate);
+      counts.set(candidate.document_id, count + 1);
+    } else {
+      skipped.push(candidate);
+    }
+    if (selected.length === limit) return selected;
+  }
+
+  return [...selected, ...skipped].slice(0, limit);
+}
+
+export async function rerankResults<T extends RerankCandidate>(
+  query: string,
+  candidates: T[],
+  limit: number,
+  context: RerankContext = {}
+): Promise<T[]> {
+  let ranked = candidates;
+  const reranker = getReranker();
+
+  if (reranker && candidates.length > 1) {
+    const startTime = performance.now();
+    try {
+      ranked = await reranker.rerank(query, candidates, context);
+      console.log(`[Reranking] ${reranker.name} reranked ${candidates.length} candidates in ${(performance.now() - startTime).toFixed(2)}ms`);
+    } catch (error) {
+      console.error(`[Reranking] ${reranker.name} reranker failed, keeping retrieval order:`, error);
+    }
+  }
+
+  return diversifyCandidates(dedupeCandidates(ranked), limit);
+}
@@ -1,5 +1,16 @@
 import { createHash } from 'crypto';
-import { generateEmbeddings } from './embedding';
+import { and, arrayOverlaps, desc, eq, gt, sql } from 'drizzle-orm';
+import { db, cachedResults } from '../db';
+import { embeddingModelId, isEmbeddingConfigured } from './embedding';
+
+// Caches search results per scope (user, collection selection, search tuning
+// and embedding model) and query. A query whose embedding is close to a cached
+// one reuses its results, but only within the same scope, so results are never
+// served to another user or collection selection. Entries are tagged with the
+// user and collections they were searched for and dropped when documents
+// there change. RAG_CACHE_BACKEND picks where entries live: memory (per
+// instance, the default) or postgres (the cached_results table, shared by all
+// instances).
 
 interface DocumentChunk {
   id: number;
@@ -8,143 +19,373 @@ interface DocumentChunk {
   title: string;
   userId: string | null;
   isPublic: boolean;
+  pageNumber: number | null;
+  sectionPath: string[] | null;
   similarity: number;
+  score: number;
+}
+
+export interface RAGCacheScope {
+  userId?: string | null;
+  collectionIds?: number[] | null;
+  // Anything else the results depend on, e.g. non-default search tuning
+  variant?: string;
 }
 
-interface QueryCacheEntry {
-  embedding: number[];
+// Entries to drop: all of them, or those searched by these users or limited to
+// these collections
+export type RAGCacheInvalidation = 'all' | { userIds?: string[]; collectionIds?: number[] };
+
+export interface RAGCacheEntry {
+  // Hash of scope and query
+  key: string;
+  // Hash of the scope; similar queries are only looked for in the same scope
+  scope: string;
+  tags: string[];
+  embedding: number[] | null;
   results: DocumentChunk[];
-  timestamp: number;
-  queryHash: string;
+  createdAt: number;
 }
 
-class SmartRAGCache {
-  private cache = new Map<string, QueryCacheEntry>();
-  private readonly SIMILARITY_THRESHOLD = 0.85;
-  private readonly CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+export interface RAGCacheBackend {
+  name: string;
+  get(key: string): Promise<RAGCacheEntry | null>;
+  // Unexpired entries of one scope, newest first
+  list(scope: string, limit: number): Promise<RAGCacheEntry[]>;
+  set(entry: RAGCacheEntry): Promise<void>;
+  // Drops entries carrying any of the tags, or every entry; returns how many
+  invalidate(tags: string[] | 'all'): Promise<number>;
+  size(): Promise<number>;
+}
+
+function readInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const CACHE_TTL = readInt('RAG_CACHE_TTL', 30 * 60) * 1000;
+const SIMILARITY_THRESHOLD = 0.85;
+// Most recent entries of a scope compared against a new query
+const SIMILARITY_CANDIDATES = 100;
+
+class MemoryCacheBackend implements RAGCacheBackend {
+  name = 'memory';
+  private cache = new Map<string, RAGCacheEntry>();
   private readonly MAX_CACHE_SIZE = 100;
 
-  private hashQuery(query: string): string {
-    return createHash('sha256').update(query.toLowerCase().trim()).digest('hex');
+  private isExpired(entry: RAGCacheEntry): boolean {
+    return Date.now() - entry.createdAt > CACHE_TTL;
+  }
+
+  private cleanupExpiredEntries(): void {
+    for (const [key, entry] of this.cache.entries()) {
+      if (this.isExpired(entry)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  private evictOldestEntry(): void {
+    let oldestKey = '';
+    let oldestTimestamp = Infinity;
+
+    for (const [key, entry] of this.cache.entries()) {
+      if (entry.createdAt < oldestTimestamp) {
+        oldestTimestamp = entry.createdAt;
+        oldestKey = key;
+      }
+    }
+
+    if (oldestKey) {
+      this.cache.delete(oldestKey);
+    }
+  }
+
+  async get(key: string) {
+    const entry = this.cache.get(key);
+    return entry && !this.isExpired(entry) ? entry : null;
+  }
+
+  async list(scope: string, limit: number) {
+    this.cleanupExpiredEntries();
+    return [...this.cache.values()]
+      .filter(entry => entry.scope === scope)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+  }
+
+  async set(entry: RAGCacheEntry) {
+    this.cache.delete(entry.key);
+    if (this.cache.size >= this.MAX_CACHE_SIZE) {
+      this.cleanupExpiredEntries();
+    }
+    if (this.cache.size >= this.MAX_CACHE_SIZE) {
+      this.evictOldestEntry();
+    }
+    this.cache.set(entry.key, entry);
+  }
+
+  async invalidate(tags: string[] | 'all') {
+    const before = this.cache.size;
+    if (tags === 'all') {
+      this.cache.clear();
+      return before;
+    }
+    for (const [key, entry] of this.cache.entries()) {
+      if (entry.tags.some(tag => tags.includes(tag))) {
+        this.cache.delete(key);
+      }
+    }
+    return before - this.cache.size;
+  }
+
+  async size() {
+    this.cleanupExpiredEntries();
+    return this.cache.size;
+  }
+}
+
+// Rows of cached_results with query_type 'rag_search'; result holds the
+// embedding and the results
+const RAG_QUERY_TYPE = 'rag_search';
+
+type StoredResult = { embedding: number[] | null; results: DocumentChunk[] };
+
+class PostgresCacheBackend implements RAGCacheBackend {
+  name = 'postgres';
+
+  private database() {
+    if (!db) throw new Error('Database is not initialized');
+    return db;
+  }
+
+  private fresh() {
+    return and(
+      eq(cachedResults.queryType, RAG_QUERY_TYPE),
+      gt(cachedResults.createdAt, new Date(Date.now() - CACHE_TTL))
+    );
+  }
+
+  private toEntry(row: typeof cachedResults.$inferSelect): RAGCacheEntry {
+    const stored = row.result as StoredResult;
+    return {
+      key: row.queryHash,
+      scope: row.scope ?? '',
+      tags: row.tags ?? [],
+      embedding: stored.embedding,
+      results: stored.results,
+      createdAt: row.createdAt.getTime(),
+    };
+  }
+
+  async get(key: string) {
+    const database = this.database();
+    const [row] = await database.select()
+      .from(cachedResults)
+      .where(and(eq(cachedResults.queryHash, key), this.fresh()))
+      .limit(1);
+    if (!row) return null;
+
+    database.update(cachedResults)
+      .set({ accessCount: sql`${cachedResults.accessCount} + 1`, lastAccessed: new Date() })
+      .where(eq(cachedResults.id, row.id))
+      .catch(error => console.error('[RAG Cache] Failed to record cache access:', error));
+    return this.toEntry(row);
+  }
+
+  async list(scope: string, limit: number) {
+    const rows = await this.database().select()
+      .from(cachedResults)
+      .where(and(eq(cachedResults.scope, scope), this.fresh()))
+      .orderBy(desc(cachedResults.createdAt))
+      .limit(limit);
+    return rows.map(row => this.toEntry(row));
+  }
+
+  async set(entry: RAGCacheEntry) {
+    const result: StoredResult = { embedding: entry.embedding, results: entry.results };
+    await this.database().insert(cachedResults)
+      .values({
+        queryHash: entry.key,
+        queryType: RAG_QUERY_TYPE,
+        scope: entry.scope,
+        tags: entry.tags,
+        result,
+        accessCount: 0,
+        createdAt: new Date(entry.createdAt),
+      })
+      .onConflictDoUpdate({
+        target: cachedResults.queryHash,
+        set: { result, tags: entry.tags, createdAt: new Date(entry.createdAt), lastAccessed: new Date() },
+      });
+  }
+
+  async invalidate(tags: string[] | 'all') {
+    const removed = await this.database().delete(cachedResults)
+      .where(tags === 'all'
+        ? eq(cachedResults.queryType, RAG_QUERY_TYPE)
+        : and(eq(cachedResults.queryType, RAG_QUERY_TYPE), arrayOverlaps(cachedResults.tags, tags)))
+      .returning({ id: cachedResults.id });
+    return removed.length;
+  }
+
+  async size() {
+    const [row] = await this.database().select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(cachedResults)
+      .where(this.fresh());
+    return row?.count ?? 0;
+  }
+}
+
+const BACKENDS: Record<string, () => RAGCacheBackend> = {
+  memory: () => new MemoryCacheBackend(),
+  postgres: () => new PostgresCacheBackend(),
+};
+
+function createBackend(name = process.env.RAG_CACHE_BACKEND || 'memory'): RAGCacheBackend {
+  const backend = BACKENDS[name];
+  if (!backend) {
+    console.warn(`[RAG Cache] Unknown RAG_CACHE_BACKEND "${name}", using memory`);
+    return new MemoryCacheBackend();
+  }
+  return backend();
+}
+
+function userTag(userId?: string | null): string {
+  return `user:${userId || 'anonymous'}`;
+}
+
+function collectionTag(collectionId: number): string {
+  return `collection:${collectionId}`;
+}
+
+class SmartRAGCache {
+  private backend: RAGCacheBackend;
+  private readonly enabled = process.env.RAG_ENABLE_CACHING !== 'false';
+
+  constructor(backend: RAGCacheBackend = createBackend()) {
+    this.backend = backend;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private scopeHash(scope: RAGCacheScope): string {
+    return this.hash(JSON.stringify([
+      scope.userId || 'anonymous',
+      [...new Set(scope.collectionIds ?? [])].sort((a, b) => a - b),
+      scope.variant ?? '',
+      // Without embeddings, search is full-text only
+      isEmbeddingConfigured() ? embeddingModelId() : null,
+    ]));
+  }
+
+  private entryKey(scope: RAGCacheScope, query: string): string {
+    return this.hash(`${this.scopeHash(scope)}:${query.toLowerCase().trim()}`);
   }
 
   private cosineSimilarity(a: number[], b: number[]): number {
     if (a.length !== b.length) return 0;
-    
+
     let dotProduct = 0;
     let normA = 0;
     let normB = 0;
-    
+
     for (let i = 0; i < a.length; i++) {
       dotProduct += a[i] * b[i];
       normA += a[i] * a[i];
       normB += b[i] * b[i];
     }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-  }
-
-  private async getQueryEmbedding(query: string): Promise<number[]> {
-    const [embedding] = await generateEmbeddings(query);
-    return embedding.embedding;
-  }
 
-  private cleanupExpiredEntries(): void {
-    const now = Date.now();
-    for (const [hash, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.CACHE_TTL) {
-        this.cache.delete(hash);
-      }
-    }
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
-  private evictOldestEntry(): void {
-    if (this.cache.size === 0) return;
-    
-    let oldestHash = '';
-    let oldestTimestamp = Date.now();
-    
-    for (const [hash, entry] of this.cache.entries()) {
-      if (entry.timestamp < oldestTimestamp) {
-        oldestTimestamp = entry.timestamp;
-        oldestHash = hash;
+  // Results cached for this exact query in this scope
+  async getCachedResults(scope: RAGCacheScope, query: string): Promise<DocumentChunk[] | null> {
+    if (!this.enabled) return null;
+    try {
+      const entry = await this.backend.get(this.entryKey(scope, query));
+      if (entry) {
+        console.log(`[RAG Cache] Direct hit for query: ${query.substring(0, 50)}...`);
+        return entry.results;
       }
+    } catch (error) {
+      console.error('[RAG Cache] Lookup failed:', error);
     }
-    
-    if (oldestHash) {
-      this.cache.delete(oldestHash);
-    }
+    return null;
   }
 
-  async getCachedResults(query: string): Promise<DocumentChunk[] | null> {
-    // Clean up expired entries first
-    this.cleanupExpiredEntries();
-    
-    const queryHash = this.hashQuery(query);
-    const cached = this.cache.get(queryHash);
-    
-    // Direct cache hit
-    if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
-      console.log(`[RAG Cache] Direct hit for query: ${query.substring(0, 50)}...`);
-      return cached.results;
-    }
-
-    // Check for similar queries using embedding similarity
+  // Results of a cached query in the same scope whose embedding is close to
+  // `embedding`, which the caller computed for its search anyway
+  async findSimilarResults(scope: RAGCacheScope, embedding: number[]): Promise<DocumentChunk[] | null> {
+    if (!this.enabled) return null;
     try {
-      const queryEmbedding = await this.getQueryEmbedding(query);
-      
-      for (const [hash, entry] of this.cache.entries()) {
-        if (Date.now() - entry.timestamp > this.CACHE_TTL) {
-          continue;
-        }
-
-        const similarity = this.cosineSimilarity(queryEmbedding, entry.embedding);
-        if (similarity > this.SIMILARITY_THRESHOLD) {
-          console.log(`[RAG Cache] Similar query found (${similarity.toFixed(3)} similarity): ${query.substring(0, 50)}...`);
+      const entries = await this.backend.list(this.scopeHash(scope), SIMILARITY_CANDIDATES);
+      for (const entry of entries) {
+        if (!entry.embedding) continue;
+        const similarity = this.cosineSimilarity(embedding, entry.embedding);
+        if (similarity > SIMILARITY_THRESHOLD) {
+          console.log(`[RAG Cache] Similar query found (${similarity.toFixed(3)} similarity)`);
           return entry.results;
         }
       }
     } catch (error) {
       console.error('[RAG Cache] Error checking similarity:', error);
-      // Fall through to return null if embedding fails
     }
-
     return null;
   }
 
-  cacheResults(query: string, embedding: number[], results: DocumentChunk[]): void {
-    // Ensure we don't exceed max cache size
-    if (this.cache.size >= this.MAX_CACHE_SIZE) {
-      this.evictOldestEntry();
+  async cacheResults(scope: RAGCacheScope, query: string, embedding: number[] | null, results: DocumentChunk[]): Promise<void> {
+    if (!this.enabled) return;
+    try {
+      await this.backend.set({
+        key: this.entryKey(scope, query),
+        scope: this.scopeHash(scope),
+        tags: [userTag(scope.userId), ...(scope.collectionIds ?? []).map(collectionTag)],
+        embedding,
+        results,
+        createdAt: Date.now(),
+      });
+      console.log(`[RAG Cache] Cached results for query: ${query.substring(0, 50)}... (${results.length} results)`);
+    } catch (error) {
+      console.error('[RAG Cache] Failed to cache results:', error);
     }
+  }
 
-    const queryHash = this.hashQuery(query);
-    this.cache.set(queryHash, {
-      embedding,
-      results,
-      timestamp: Date.now(),
-      queryHash,
-    });
+  // Drops cached searches that may be stale. Never throws: a failed
+  // invalidation only means stale results until the entries expire.
+  async invalidate(target: RAGCacheInvalidation): Promise<void> {
+    if (!this.enabled) return;
+    const tags = target === 'all'
+      ? 'all'
+      : [...(target.userIds ?? []).map(userTag), ...(target.collectionIds ?? []).map(collectionTag)];
+    if (tags !== 'all' && tags.length === 0) return;
 
-    console.log(`[RAG Cache] Cached results for query: ${query.substring(0, 50)}... (${results.length} results)`);
+    try {
+      const removed = await this.backend.invalidate(tags);
+      console.log(`[RAG Cache] Invalidated ${removed} entries (${tags === 'all' ? 'all' : tags.join(', ')})`);
+    } catch (error) {
+      console.error('[RAG Cache] Invalidation failed:', error);
+    }
   }
 
   // Get cache statistics for monitoring
-  getStats() {
-    this.cleanupExpiredEntries();
+  async getStats() {
     return {
-      size: this.cache.size,
-      maxSize: this.MAX_CACHE_SIZE,
-      ttl: this.CACHE_TTL,
+      backend: this.backend.name,
+      enabled: this.enabled,
+      size: this.enabled ? await this.backend.size() : 0,
+      ttl: CACHE_TTL,
     };
   }
 
   // Clear all cache entries (useful for testing)
-  clear(): void {
-    this.cache.clear();
+  async clear(): Promise<void> {
+    await this.backend.invalidate('all');
     console.log('[RAG Cache] Cache cleared');
   }
 }
 
 // Export a singleton instance
-export const ragCache = new SmartRAGCache(); 
\ No newline at end of file
+export const ragCache = new SmartRAGCache();
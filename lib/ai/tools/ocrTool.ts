@@ -40,7 +40,7 @@ const ocrCache = new Map<string, { result: OCRResult; timestamp: number }>();
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
 
 // Enhanced image preprocessing function with actual resizing
-async function preprocessImageForOCR(base64Data: string, mimeType: string): Promise<{ 
+async function preprocessImageForOCR(base64Data: string, mimeType: string, maxDimension = 1024): Promise<{ 
   dataUrl: string; 
   originalSize: string; 
   optimizedSize: string; 
@@ -60,9 +60,9 @@ async function preprocessImageForOCR(base64Data: string, mimeType: string): Prom
       
       console.log('[ocrTool] Using Sharp for image optimization');
       
-      // Optimize image: resize to max 1024x1024, convert to JPEG with 85% quality
+      // Optimize image: resize to fit maxDimension (1024 by default), convert to JPEG with 85% quality
       optimizedBuffer = await sharp.default(inputBuffer)
-        .resize(1024, 1024, { 
+        .resize(maxDimension, maxDimension, { 
           fit: 'inside', 
           withoutEnlargement: true 
         })
@@ -118,13 +118,17 @@ function cleanCache() {
   }
 }
 
-// OCR execution function
-async function executeOCR(params: z.infer<typeof ocrToolSchema>): Promise<OCRResult> {
+// OCR execution function. Full pages (scanned PDFs) pass a larger maxDimension
+// so small print stays legible.
+async function executeOCR(
+  params: z.infer<typeof ocrToolSchema>,
+  options: { maxDimension?: number } = {}
+): Promise<OCRResult> {
   const startTime = Date.now();
   
   try {
-    // Create cache key
-    const cacheKey = simpleHash(`${params.imageData.substring(0, 100)}:${params.prompt}:${params.mathFormat}`);
+    // Create cache key from the whole image: scans of one document share their first bytes
+    const cacheKey = simpleHash(`${params.imageData}:${params.prompt}:${params.mathFormat}:${options.maxDimension ?? ''}`);
     
     // Clean old cache entries periodically
     if (Math.random() < 0.1) { // 10% chance to clean cache
@@ -142,7 +146,7 @@ async function executeOCR(params: z.infer<typeof ocrToolSchema>): Promise<OCRRes
     }
 
     // Preprocess and optimize image
-    const { dataUrl: imageUrl, originalSize, optimizedSize } = await preprocessImageForOCR(params.imageData, params.mimeType);
+    const { dataUrl: imageUrl, originalSize, optimizedSize } = await preprocessImageForOCR(params.imageData, params.mimeType, options.maxDimension);
 
     // Enhanced prompt based on parameters
     let enhancedPrompt = params.prompt;
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { tool } from 'ai';
+import { searchDocumentsOptimized, toDocumentSource } from '../optimized-documents';
+import { recordChunkRetrievals } from '../documents';
+import { listCollections } from '../collections';
+import type { DocumentSource } from '../citations';
+import type { ToolPromptFragment } from '../prompt-builder';
+
+// Lets the model search the knowledge base itself, as often as it needs and
+// with its own queries, instead of relying on the single pre-flight search of
+// the last user message. Passages are numbered after the sources already in
+// the prompt so they can be cited as [n] the same way.
+
+const MAX_RESULTS = 10;
+// Passage text returned to the model; the UI only shows the snippet
+const MAX_CONTENT_CHARS = 2000;
+
+export const searchDocumentsToolSchema = z.object({
+  query: z.string().min(1)
+    .describe('What to look for, as a self-contained question or keywords. For multi-part questions, search once per part.'),
+  collections: z.array(z.string()).optional()
+    .describe('Names of the document collections to search. Omit to search all available documents.'),
+  k: z.number().int().min(1).max(MAX_RESULTS).optional().default(5)
+    .describe(`Number of passages to return (1-${MAX_RESULTS})`),
+});
+
+export type SearchDocumentsHit = DocumentSource & { content: string };
+
+export type SearchDocumentsResult = {
+  query: string;
+  collections?: string[];
+  results: SearchDocumentsHit[];
+  error?: boolean;
+  errorMessage?: string;
+};
+
+export interface SearchDocumentsContext {
+  userId?: string | null;
+  // Collections the conversation is limited to; searches stay within them
+  collectionIds?: number[] | null;
+  // Collections the model can name
+  collections: Array<{ id: number; name: string }>;
+  // Sources of the answer so far, from the pre-flight search and earlier
+  // calls. New passages are appended, so the list ends up numbered as cited.
+  sources: DocumentSource[];
+}
+
+export function isSearchDocumentsToolEnabled(): boolean {
+  return process.env.RAG_ENABLED === 'true' && process.env.RAG_SEARCH_TOOL !== 'false';
+}
+
+// Collections the model can name: the conversation's selection, or every
+// collection the user can read. Searching still works without them.
+export async function listSearchableCollections(
+  userId: string | null | undefined,
+  collectionIds: number[] | null | undefined
+): Promise<SearchDocumentsContext['collections']> {
+  try {
+    const collections = await listCollections(userId);
+    return collections
+      .filter(collection => !collectionIds?.length || collectionIds.includes(collection.id))
+      .map(({ id, name }) => ({ id, name }));
+  } catch (error) {
+    console.error('[searchDocuments] Failed to list collections:', error);
+    return [];
+  }
+}
+
+// Resolves collection names case-insensitively, then by unique partial match
+function resolveCollections(
+  names: string[],
+  available: SearchDocumentsContext['collections']
+): { ids: number[] } | { unknown: string } {
+  const ids: number[] = [];
+  for (const name of names) {
+    const wanted = name.trim().toLowerCase();
+    const exact = available.find(collection => collection.name.toLowerCase() === wanted);
+    const partial = available.filter(collection => collection.name.toLowerCase().includes(wanted));
+    const match = exact ?? (partial.length === 1 ? partial[0] : undefined);
+    if (!match) return { unknown: name };
+    ids.push(match.id);
+  }
+  return { ids };
+}
+
+export function createSearchDocumentsTool(context: SearchDocumentsContext) {
+  return tool({
+    description: "Search the user's uploaded documents (lecture notes, textbooks, papers) for passages relevant to a query. Call it again with different queries to gather everything a question needs.",
+    parameters: searchDocumentsToolSchema,
+    execute: async ({ query, collections, k }): Promise<SearchDocumentsResult> => {
+      let collectionIds = context.collectionIds?.length ? context.collectionIds : null;
+      if (collections?.length) {
+        const resolved = resolveCollections(collections, context.collections);
+        if ('unknown' in resolved) {
+          return {
+            query,
+            collections,
+            results: [],
+            error: true,
+            errorMessage: `Unknown collection "${resolved.unknown}". Available collections: ${context.collections.map(collection => `"${collection.name}"`).join(', ') || 'none'}.`,
+          };
+        }
+        collectionIds = resolved.ids;
+      }
+
+      try {
+        const chunks = await searchDocumentsOptimized(query, k, context.userId, {}, collectionIds);
+        const results = chunks.map(chunk => {
+          // A passage found before keeps its citation number
+          let source = context.sources.find(existing => existing.chunkId === chunk.id);
+          if (!source) {
+            source = toDocumentSource(chunk, context.sources.length + 1);
+            context.sources.push(source);
+          }
+          return { ...source, content: chunk.content.slice(0, MAX_CONTENT_CHARS) };
+        });
+
+        recordChunkRetrievals(results.map(result => result.chunkId)).catch(error => {
+          console.error('[searchDocuments] Failed to record chunk retrievals:', error);
+        });
+
+        return { query, collections, results };
+      } catch (e: any) {
+        console.error('[searchDocuments] Search failed:', e);
+        return { query, collections, results: [], error: true, errorMessage: `Document search failed: ${e.message}` };
+      }
+    },
+  });
+}
+
+// System prompt guidance, listing the collections the model can name
+export function searchDocumentsToolPrompt(collections: SearchDocumentsContext['collections']): ToolPromptFragment {
+  const available = collections.length > 0
+    ? `Available collections: ${collections.map(collection => `"${collection.name}"`).join(', ')}.`
+    : 'The user has no document collections; search without the collections parameter.';
+
+  return {
+    native: `When a question may depend on the user's uploaded documents, use the 'searchDocuments' tool to find the relevant passages before answering.
+- Write your own focused queries rather than repeating the user's message. For comparisons or multi-part questions, search once per source or part (e.g. one query for the lecture, one for the textbook).
+- Use the 'collections' parameter to search specific collections by name. ${available}
+- Each result has an 'id': cite it in square brackets right after the statement it supports, e.g. [3]. These numbers continue from any sources already given above.
+- If nothing relevant is found, say so instead of guessing.`,
+  };
+}
@@ -0,0 +1,226 @@
+import { generateId, type StreamTextTransform, type TextStreamPart, type ToolSet } from 'ai';
+
+// Models without native tool calling (see `capabilities.toolCalling` in the model
+// registry) are prompted to emit `[NEEDS_VISUALIZATION:{...}]` text tokens instead.
+// This module turns those tokens into real tool-call/tool-result stream parts so
+// the client renders them exactly like native tool invocations.
+
+export const VISUALIZATION_TOKEN_PREFIX = '[NEEDS_VISUALIZATION:';
+
+// Give up on a token (and emit it as plain text) once it grows beyond this size
+const MAX_TOKEN_LENGTH = 20000;
+
+const TOKEN_TYPE_TO_TOOL: Record<string, string> = {
+  molecule3D: 'displayMolecule3D',
+  plot2D: 'plotFunction2D',
+  plot3D: 'plotFunction3D',
+  physics: 'displayPhysicsSimulation',
+  plotly: 'displayPlotlyChart',
+};
+
+export type TokenScan =
+  // No token in the buffer; the first `safeLength` characters can be emitted as text
+  | { status: 'none'; safeLength: number }
+  // A token starts at `start` but has not been fully received yet
+  | { status: 'partial'; start: number }
+  // A complete token spans [start, end); `json` is its object payload
+  | { status: 'complete'; start: number; end: number; json: string }
+  // The prefix at `start` is not followed by a well-formed token
+  | { status: 'invalid'; start: number };
+
+// Find the first visualization token in `buffer`. Braces are matched with
+// awareness of JSON strings, so nested objects and `}` inside strings are handled.
+export function scanForVisualizationToken(buffer: string): TokenScan {
+  const start = buffer.indexOf(VISUALIZATION_TOKEN_PREFIX);
+
+  if (start === -1) {
+    // Hold back a trailing fragment that could be the beginning of the prefix
+    for (let k = Math.min(VISUALIZATION_TOKEN_PREFIX.length - 1, buffer.length); k > 0; k--) {
+      if (VISUALIZATION_TOKEN_PREFIX.startsWith(buffer.slice(-k))) {
+        return { status: 'none', safeLength: buffer.length - k };
+      }
+    }
+    return { status: 'none', safeLength: buffer.length };
+  }
+
+  let i = start + VISUALIZATION_TOKEN_PREFIX.length;
+  while (i < buffer.length && /\s/.test(buffer[i])) i++;
+  if (i >= buffer.length) return { status: 'partial', start };
+  if (buffer[i] !== '{') return { status: 'invalid', start };
+
+  const objectStart = i;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}') {
+      depth--;
+      if (depth === 0) break;
+    }
+  }
+
+  if (i >= buffer.length) {
+    return buffer.length - start > MAX_TOKEN_LENGTH ? { status: 'invalid', start } : { status: 'partial', start };
+  }
+
+  const objectEnd = i + 1;
+  let j = objectEnd;
+  while (j < buffer.length && /\s/.test(buffer[j])) j++;
+  if (j >= buffer.length) return { status: 'partial', start };
+  if (buffer[j] !== ']') return { status: 'invalid', start };
+
+  return { status: 'complete', start, end: j + 1, json: buffer.slice(objectStart, objectEnd) };
+}
+
+// Map a token payload onto the tool name and arguments expected by `visualizationTools`.
+export function resolveVisualizationToken(payload: Record<string, any>): { toolName: string; args: Record<string, any> } | null {
+  if (!payload || typeof payload.type !== 'string') return null;
+
+  const { type, ...rest } = payload;
+  const toolName = TOKEN_TYPE_TO_TOOL[type] ?? type;
+
+  switch (toolName) {
+    case 'displayMolecule3D': {
+      const identifierType = ['pdb', 'smiles', 'cid', 'name'].includes(rest.identifierType)
+        ? rest.identifierType
+        : /^[0-9][A-Za-z0-9]{3}$/.test(String(rest.identifier ?? '')) ? 'pdb' : 'smiles';
+      return {
+        toolName,
+        args: {
+          ...rest,
+          identifierType,
+          representationStyle: rest.representationStyle ?? (identifierType === 'pdb' ? 'cartoon' : 'stick'),
+        },
+      };
+    }
+    case 'displayPlotlyChart':
+      return {
+        toolName,
+        args: {
+          data: rest.data,
+          layout: rest.layout ?? (rest.title ? { title: rest.title } : undefined),
+          description: rest.description ?? rest.title,
+        },
+      };
+    default:
+      return { toolName, args: rest };
+  }
+}
+
+type Controller = TransformStreamDefaultController<TextStreamPart<any>>;
+
+async function emitToolInvocation(json: string, tools: ToolSet, controller: Controller): Promise<boolean> {
+  let payload: Record<string, any>;
+  try {
+    payload = JSON.parse(json);
+  } catch (error) {
+    console.warn('[Visualization Tokens] Failed to parse token payload:', error);
+    return false;
+  }
+
+  const resolved = resolveVisualizationToken(payload);
+  const tool = resolved ? tools[resolved.toolName] : undefined;
+  if (!resolved || !tool) {
+    console.warn('[Visualization Tokens] Unknown visualization type:', payload?.type);
+    return false;
+  }
+
+  const { toolName } = resolved;
+  const toolCallId = `viz-${generateId()}`;
+  const parameters = tool.parameters as { safeParse?: (value: unknown) => any };
+  const parsed = parameters.safeParse ? parameters.safeParse(resolved.args) : { success: true, data: resolved.args };
+  const args = parsed.success ? parsed.data : resolved.args;
+
+  controller.enqueue({ type: 'tool-call', toolCallType: 'function', toolCallId, toolName, args } as TextStreamPart<any>);
+
+  let result: unknown;
+  if (!parsed.success) {
+    result = {
+      error: true,
+      errorMessage: `Invalid ${toolName} parameters: ${parsed.error.message}`,
+      details: resolved.args,
+    };
+  } else {
+    try {
+      result = await tool.execute?.(args, { toolCallId, messages: [] });
+    } catch (e: any) {
+      console.error(`[Visualization Tokens] Error executing ${toolName}:`, e);
+      result = { error: true, errorMessage: `Failed to execute ${toolName}: ${e.message}` };
+    }
+  }
+
+  controller.enqueue({ type: 'tool-result', toolCallId, toolName, args, result } as TextStreamPart<any>);
+  return true;
+}
+
+// Stream transform for `streamText({ experimental_transform })`. Text is buffered
+// only while a (possible) token is in flight, so normal prose streams unchanged.
+export function createVisualizationTokenTransform(tools: ToolSet): StreamTextTransform<any> {
+  return () => {
+    let buffer = '';
+
+    const emitText = (controller: Controller, text: string) => {
+      if (text) controller.enqueue({ type: 'text-delta', textDelta: text });
+    };
+
+    // Emit everything that is known not to be part of an unfinished token.
+    // With `final` set, unfinished tokens are released as plain text.
+    const drain = async (controller: Controller, final: boolean) => {
+      while (buffer.length > 0) {
+        const scan = scanForVisualizationToken(buffer);
+
+        if (scan.status === 'none') {
+          const length = final ? buffer.length : scan.safeLength;
+          emitText(controller, buffer.slice(0, length));
+          buffer = buffer.slice(length);
+          return;
+        }
+
+        emitText(controller, buffer.slice(0, scan.start));
+
+        if (scan.status === 'partial' && !final) {
+          buffer = buffer.slice(scan.start);
+          return;
+        }
+
+        if (scan.status === 'complete') {
+          const handled = await emitToolInvocation(scan.json, tools, controller);
+          if (!handled) emitText(controller, buffer.slice(scan.start, scan.end));
+          buffer = buffer.slice(scan.end);
+          continue;
+        }
+
+        // Invalid token (or one cut off at the end of the step): keep the prefix as text
+        const prefixEnd = scan.start + VISUALIZATION_TOKEN_PREFIX.length;
+        emitText(controller, buffer.slice(scan.start, prefixEnd));
+        buffer = buffer.slice(prefixEnd);
+      }
+    };
+
+    return new TransformStream<TextStreamPart<any>, TextStreamPart<any>>({
+      async transform(part, controller) {
+        if (part.type === 'text-delta') {
+          buffer += part.textDelta;
+          await drain(controller, false);
+          return;
+        }
+        // Flush pending text first so parts stay in order
+        await drain(controller, true);
+        controller.enqueue(part);
+      },
+      async flush(controller) {
+        await drain(controller, true);
+      },
+    });
+  };
+}
@@ -1,17 +1,26 @@
 import { db } from '@/lib/db'
 import { conversations, messages, toolInvocations } from '@/lib/db/schema'
-import { eq, desc, and, ilike, or } from 'drizzle-orm'
-import type { Message } from 'ai'
+import { eq, desc, and, ilike, or, isNull, isNotNull, inArray, gte, lte, exists, sql, type SQL } from 'drizzle-orm'
+import type { Message, ToolInvocation } from 'ai'
+import { generateEmbedding, isEmbeddingConfigured } from '@/lib/ai/embedding'
 
 export interface ConversationData {
   userId?: string
   title: string
   model: string
   isArchived?: boolean
+  summary?: string | null
+  summaryMessageCount?: number
+  summaryUpdatedAt?: Date | null
+  activeLeafId?: string | null
+  collectionIds?: number[] | null
 }
 
 export interface MessageData {
+  id?: string
   conversationId: string
+  // Omitted: continue the conversation's active branch. null starts a new root.
+  parentId?: string | null
   role: 'user' | 'assistant' | 'system'
   content: string
   parts?: any[]
@@ -21,12 +30,36 @@ export interface MessageData {
 
 export interface ToolInvocationData {
   messageId: string
+  toolCallId?: string
+  step?: number
   toolName: string
   parameters?: any
   result?: any
   executionTime?: number
 }
 
+// Everything but the embedding, which only semantic search needs
+const messageColumns = {
+  id: messages.id,
+  conversationId: messages.conversationId,
+  parentId: messages.parentId,
+  role: messages.role,
+  content: messages.content,
+  parts: messages.parts,
+  tokenUsage: messages.tokenUsage,
+  metadata: messages.metadata,
+  createdAt: messages.createdAt,
+}
+
+type StoredMessage = Omit<typeof messages.$inferSelect, 'embedding'>
+
+// A message on the active path, with the ids of every alternative at its
+// position (itself included, oldest first) for the branch switcher
+export type PathMessage = StoredMessage & { siblingIds: string[] }
+
+// A loaded message with its tool calls restored in the shape useChat produces
+export type ConversationMessage = PathMessage & { toolInvocations?: ToolInvocation[] }
+
 // Conversation Operations
 export async function createConversation(data: ConversationData) {
   try {
@@ -73,11 +106,15 @@ export async function getConversationById(conversationId: string, userId?: strin
   }
 }
 
-export async function updateConversation(conversationId: string, data: Partial<ConversationData>) {
+export async function updateConversation(conversationId: string, data: Partial<ConversationData>, userId?: string) {
   try {
+    const whereCondition = userId
+      ? and(eq(conversations.id, conversationId), eq(conversations.userId, userId))
+      : eq(conversations.id, conversationId)
+
     const [updatedConversation] = await db.update(conversations)
       .set({ ...data, updatedAt: new Date() })
-      .where(eq(conversations.id, conversationId))
+      .where(whereCondition)
       .returning()
     
     return updatedConversation
@@ -87,6 +124,21 @@ export async function updateConversation(conversationId: string, data: Partial<C
   }
 }
 
+export async function updateConversationSummary(conversationId: string, summary: string | null, summaryMessageCount: number) {
+  try {
+    // Leaves updatedAt alone so summarization doesn't reorder the sidebar
+    const [updatedConversation] = await db.update(conversations)
+      .set({ summary, summaryMessageCount, summaryUpdatedAt: new Date() })
+      .where(eq(conversations.id, conversationId))
+      .returning()
+
+    return updatedConversation
+  } catch (error) {
+    console.error('Error updating conversation summary:', error)
+    throw new Error('Failed to update conversation summary')
+  }
+}
+
 export async function archiveConversation(conversationId: string) {
   try {
     return await updateConversation(conversationId, { isArchived: true })
@@ -106,8 +158,41 @@ export async function deleteConversation(conversationId: string) {
   }
 }
 
+// Matches the expression behind idx_messages_content_fts so the GIN index is used
+const messageTsVector = sql`to_tsvector('english', ${messages.content})`
+
+const SEMANTIC_SEARCH_ENABLED = process.env.CONVERSATION_SEMANTIC_SEARCH === 'true'
+const SEMANTIC_SIMILARITY_THRESHOLD = 0.3
+const SEMANTIC_SNIPPET_CHARS = 200
+
+export interface MessageSearchOptions {
+  query: string
+  // 'semantic' needs CONVERSATION_SEMANTIC_SEARCH and falls back to 'text' without it
+  mode?: 'text' | 'semantic'
+  model?: string
+  from?: Date
+  to?: Date
+  // Only messages with a stored tool result (molecules, plots, simulations...)
+  hasToolResults?: boolean
+  limit?: number
+}
+
+export interface MessageSearchResult {
+  conversationId: string
+  conversationTitle: string
+  model: string
+  messageId: string
+  role: string
+  // Excerpt of the raw message text; full-text matches are wrapped in <mark></mark>
+  snippet: string
+  score: number
+  createdAt: Date
+}
+
 export async function searchConversations(userId: string, searchTerm: string) {
   try {
+    const query = sql`websearch_to_tsquery('english', ${searchTerm})`
+
     return await db.select()
       .from(conversations)
       .where(and(
@@ -115,12 +200,14 @@ export async function searchConversations(userId: string, searchTerm: string) {
         eq(conversations.isArchived, false),
         or(
           ilike(conversations.title, `%${searchTerm}%`),
-          // Search in message content as well
-          eq(conversations.id, 
-            db.select({ id: messages.conversationId })
+          // Any message of the conversation, not just the first one found
+          exists(
+            db.select({ id: messages.id })
               .from(messages)
-              .where(ilike(messages.content, `%${searchTerm}%`))
-              .limit(1)
+              .where(and(
+                eq(messages.conversationId, conversations.id),
+                sql`${messageTsVector} @@ ${query}`
+              ))
           )
         )
       ))
@@ -131,16 +218,120 @@ export async function searchConversations(userId: string, searchTerm: string) {
   }
 }
 
+// Message-level search across a user's conversations, best matches first.
+// Covers every branch, not only the active one.
+export async function searchMessages(
+  userId: string,
+  options: MessageSearchOptions
+): Promise<{ mode: 'text' | 'semantic'; results: MessageSearchResult[] }> {
+  try {
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 50)
+    const filters: (SQL | undefined)[] = [
+      eq(conversations.userId, userId),
+      eq(conversations.isArchived, false),
+      options.model ? eq(conversations.model, options.model) : undefined,
+      options.from ? gte(messages.createdAt, options.from) : undefined,
+      options.to ? lte(messages.createdAt, options.to) : undefined,
+      options.hasToolResults
+        ? exists(
+            db.select({ id: toolInvocations.id })
+              .from(toolInvocations)
+              .where(and(eq(toolInvocations.messageId, messages.id), isNotNull(toolInvocations.result)))
+          )
+        : undefined,
+    ]
+    const resultColumns = {
+      conversationId: messages.conversationId,
+      conversationTitle: conversations.title,
+      model: conversations.model,
+      messageId: messages.id,
+      role: messages.role,
+      createdAt: messages.createdAt,
+    }
+
+    // Falls back to full-text search without an embedding provider
+    if (options.mode === 'semantic' && SEMANTIC_SEARCH_ENABLED && isEmbeddingConfigured()) {
+      const embedding = await generateEmbedding(options.query)
+      const similarity = sql<number>`1 - (${messages.embedding} <=> ${`[${embedding.join(',')}]`}::vector)`
+      const results = await db.select({
+        ...resultColumns,
+        snippet: sql<string>`left(${messages.content}, ${SEMANTIC_SNIPPET_CHARS})`,
+        score: similarity.mapWith(Number),
+      })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(and(...filters, isNotNull(messages.embedding), sql`${similarity} > ${SEMANTIC_SIMILARITY_THRESHOLD}`))
+        .orderBy(desc(similarity))
+        .limit(limit)
+
+      return { mode: 'semantic', results }
+    }
+
+    const query = sql`websearch_to_tsquery('english', ${options.query})`
+    const rank = sql<number>`ts_rank(${messageTsVector}, ${query})`
+    const results = await db.select({
+      ...resultColumns,
+      snippet: sql<string>`ts_headline('english', ${messages.content}, ${query}, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "')`,
+      score: rank.mapWith(Number),
+    })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(...filters, sql`${messageTsVector} @@ ${query}`))
+      .orderBy(desc(rank), desc(messages.createdAt))
+      .limit(limit)
+
+    return { mode: 'text', results }
+  } catch (error) {
+    console.error('Error searching messages:', error)
+    throw new Error('Failed to search messages')
+  }
+}
+
+// Stores a message embedding for semantic search. Best effort: on failure the
+// message is still found by full-text search.
+export async function embedMessage(messageId: string, content: string) {
+  if (!SEMANTIC_SEARCH_ENABLED || !content.trim() || !isEmbeddingConfigured()) return
+
+  try {
+    const embedding = await generateEmbedding(content)
+    await db.update(messages)
+      .set({ embedding })
+      .where(eq(messages.id, messageId))
+  } catch (error) {
+    console.error('Error embedding message:', error)
+  }
+}
+
 // Message Operations
+async function getActiveLeafId(conversationId: string): Promise<string | null> {
+  const [conversation] = await db.select({ activeLeafId: conversations.activeLeafId })
+    .from(conversations)
+    .where(eq(conversations.id, conversationId))
+  if (conversation?.activeLeafId) return conversation.activeLeafId
+
+  // Conversations saved before branching existed have no active leaf
+  const [latest] = await db.select({ id: messages.id })
+    .from(messages)
+    .where(eq(messages.conversationId, conversationId))
+    .orderBy(desc(messages.createdAt))
+    .limit(1)
+  return latest?.id ?? null
+}
+
 export async function saveMessage(data: MessageData) {
   try {
+    const parentId = data.parentId === undefined
+      ? await getActiveLeafId(data.conversationId)
+      : data.parentId
+
     const [message] = await db.insert(messages)
-      .values(data)
+      .values({ ...data, parentId })
       .returning()
     
-    // Update conversation's updatedAt timestamp
+    // Update conversation's updatedAt timestamp; the new message is now the
+    // tip of the branch being shown
     await db.update(conversations)
-      .set({ updatedAt: new Date() })
+      .set({ updatedAt: new Date(), activeLeafId: message.id })
       .where(eq(conversations.id, data.conversationId))
     
     return message
@@ -150,9 +341,25 @@ export async function saveMessage(data: MessageData) {
   }
 }
 
+export async function getConversationMessage(conversationId: string, messageId: string) {
+  try {
+    const [message] = await db.select(messageColumns)
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.id, messageId)
+      ))
+
+    return message
+  } catch (error) {
+    console.error('Error fetching message:', error)
+    throw new Error('Failed to fetch message')
+  }
+}
+
 export async function getConversationMessages(conversationId: string) {
   try {
-    return await db.select()
+    return await db.select(messageColumns)
       .from(messages)
       .where(eq(messages.conversationId, conversationId))
       .orderBy(messages.createdAt)
@@ -172,6 +379,103 @@ export async function deleteMessage(messageId: string) {
   }
 }
 
+// Branch Operations
+// Walks from the leaf up to the root. `allMessages` must be ordered by createdAt.
+function buildPath(allMessages: StoredMessage[], leafId: string | null): PathMessage[] {
+  if (allMessages.length === 0) return []
+
+  const byId = new Map(allMessages.map(message => [message.id, message]))
+  const children = new Map<string | null, string[]>()
+  for (const message of allMessages) {
+    const siblings = children.get(message.parentId) ?? []
+    siblings.push(message.id)
+    children.set(message.parentId, siblings)
+  }
+
+  const path: PathMessage[] = []
+  let current: StoredMessage | undefined = (leafId && byId.get(leafId)) || allMessages[allMessages.length - 1]
+  while (current) {
+    path.unshift({ ...current, siblingIds: children.get(current.parentId) ?? [current.id] })
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+// Messages from the root to `leafId` (default: the newest message)
+export async function getActivePath(conversationId: string, leafId?: string | null) {
+  try {
+    const allMessages = await getConversationMessages(conversationId)
+    return buildPath(allMessages, leafId ?? null)
+  } catch (error) {
+    console.error('Error fetching active path:', error)
+    throw new Error('Failed to fetch active path')
+  }
+}
+
+// All alternatives for a message: the message itself plus every edit or
+// regeneration that shares its parent, oldest first
+export async function listBranches(conversationId: string, messageId: string) {
+  try {
+    const message = await getConversationMessage(conversationId, messageId)
+    if (!message) return []
+
+    return await db.select(messageColumns)
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        message.parentId ? eq(messages.parentId, message.parentId) : isNull(messages.parentId)
+      ))
+      .orderBy(messages.createdAt)
+  } catch (error) {
+    console.error('Error listing branches:', error)
+    throw new Error('Failed to list branches')
+  }
+}
+
+// Show the branch containing `messageId`. Below that message the most recently
+// written branch wins, so switching back resumes where the user left off.
+// Returns the new active path, or null if the message isn't in the conversation.
+export async function switchBranch(conversationId: string, messageId: string) {
+  try {
+    const allMessages = await getConversationMessages(conversationId)
+    if (!allMessages.some(message => message.id === messageId)) return null
+
+    // Parents are always created before their children, so one pass in
+    // createdAt order collects the subtree and ends on its newest leaf
+    const subtree = new Set([messageId])
+    let leafId = messageId
+    for (const message of allMessages) {
+      if (message.parentId && subtree.has(message.parentId)) {
+        subtree.add(message.id)
+        leafId = message.id
+      }
+    }
+
+    const path = buildPath(allMessages, leafId)
+    const forkIndex = path.findIndex(message => message.id === messageId)
+
+    const [conversation] = await db.select({ summaryMessageCount: conversations.summaryMessageCount })
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+
+    // The rolling summary describes the first summaryMessageCount messages of
+    // the previous path; drop it if the paths diverge inside that range.
+    // Like summary updates, this leaves updatedAt alone.
+    const summaryStale = (conversation?.summaryMessageCount ?? 0) > forkIndex
+    await db.update(conversations)
+      .set({
+        activeLeafId: leafId,
+        ...(summaryStale && { summary: null, summaryMessageCount: 0, summaryUpdatedAt: new Date() }),
+      })
+      .where(eq(conversations.id, conversationId))
+
+    return path
+  } catch (error) {
+    console.error('Error switching branch:', error)
+    throw new Error('Failed to switch branch')
+  }
+}
+
 // Tool Invocation Operations
 export async function saveToolInvocation(data: ToolInvocationData) {
   try {
@@ -198,6 +502,51 @@ export async function getMessageToolInvocations(messageId: string) {
   }
 }
 
+// Attaches saved tool calls to their messages as AI SDK toolInvocations and
+// tool-invocation parts, so ToolResultRenderer shows them again on reload.
+// Calls without a stored result are left out: useChat can't send an
+// unfinished call back to the model.
+async function withToolInvocations(pathMessages: PathMessage[]): Promise<ConversationMessage[]> {
+  const assistantIds = pathMessages.filter(message => message.role === 'assistant').map(message => message.id)
+  if (assistantIds.length === 0) return pathMessages
+
+  const rows = await db.select()
+    .from(toolInvocations)
+    .where(inArray(toolInvocations.messageId, assistantIds))
+    .orderBy(toolInvocations.createdAt)
+
+  const byMessage = new Map<string, ToolInvocation[]>()
+  for (const row of rows) {
+    if (row.result == null) continue
+    const invocations = byMessage.get(row.messageId) ?? []
+    invocations.push({
+      state: 'result',
+      // Rows saved before call ids were stored fall back to their own id
+      toolCallId: row.toolCallId ?? row.id,
+      toolName: row.toolName,
+      args: row.parameters ?? {},
+      result: row.result,
+      step: row.step ?? undefined,
+    })
+    byMessage.set(row.messageId, invocations)
+  }
+
+  return pathMessages.map(message => {
+    const invocations = byMessage.get(message.id)
+    if (!invocations) return message
+
+    return {
+      ...message,
+      toolInvocations: invocations,
+      // Tools run before the explanation that follows them
+      parts: [
+        ...invocations.map(toolInvocation => ({ type: 'tool-invocation', toolInvocation })),
+        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+      ],
+    }
+  })
+}
+
 // Utility Functions
 export function generateConversationTitle(messages: Message[]): string {
   const firstUserMessage = messages.find(m => m.role === 'user')
@@ -212,7 +561,9 @@ export async function getConversationWithMessages(conversationId: string, userId
     const conversation = await getConversationById(conversationId, userId)
     if (!conversation) return null
     
-    const conversationMessages = await getConversationMessages(conversationId)
+    const conversationMessages = await withToolInvocations(
+      await getActivePath(conversationId, conversation.activeLeafId)
+    )
     
     return {
       ...conversation,
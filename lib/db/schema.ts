@@ -1,5 +1,12 @@
-import { pgTable, serial, text, timestamp, varchar, integer, real, jsonb, boolean, uuid, primaryKey, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, timestamp, varchar, integer, real, jsonb, boolean, uuid, primaryKey, decimal, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { vector } from 'drizzle-orm/pg-core';
+import type { DocumentChunkingOptions } from '../ai/chunking';
+import type { EvalConfig, EvalMetrics, EvalQuestionResult } from '../ai/rag-eval';
+
+// Size of the embedding columns. Changing it needs the migration in
+// docs/production-deployment-guide.md (section 6.1); smaller embeddings are
+// zero-padded to fit, which leaves cosine similarity unchanged.
+export const VECTOR_DIMENSIONS = parseInt(process.env.RAG_VECTOR_DIMENSIONS || '', 10) || 1536;
 
 // Authentication Tables (NextAuth.js)
 export const users = pgTable('users', {
@@ -50,6 +57,14 @@ export const conversations = pgTable('conversations', {
   title: varchar('title', { length: 255 }).notNull(),
   model: varchar('model', { length: 50 }).notNull(),
   isArchived: boolean('isArchived').default(false),
+  // Rolling summary of turns that no longer fit in the model's context budget
+  summary: text('summary'),
+  summaryMessageCount: integer('summary_message_count').default(0).notNull(),
+  summaryUpdatedAt: timestamp('summary_updated_at'),
+  // Last message of the branch currently shown; null falls back to the newest message
+  activeLeafId: uuid('active_leaf_id').references((): AnyPgColumn => messages.id, { onDelete: 'set null' }),
+  // Document collections retrieval is limited to; null searches every accessible document
+  collectionIds: integer('collection_ids').array(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -57,17 +72,27 @@ export const conversations = pgTable('conversations', {
 export const messages = pgTable('messages', {
   id: uuid('id').primaryKey().defaultRandom(),
   conversationId: uuid('conversationId').notNull().references(() => conversations.id, { onDelete: 'cascade' }),
+  // Messages form a tree: edits and regenerations add a sibling under the same
+  // parent instead of replacing the original. null marks a root message.
+  parentId: uuid('parent_id').references((): AnyPgColumn => messages.id, { onDelete: 'cascade' }),
   role: varchar('role', { length: 20 }).notNull(),
   content: text('content').notNull(),
   parts: jsonb('parts'),
   tokenUsage: jsonb('tokenUsage'),
   metadata: jsonb('metadata'),
+  // For semantic conversation search; only set when CONVERSATION_SEMANTIC_SEARCH is on
+  embedding: vector('embedding', { dimensions: VECTOR_DIMENSIONS }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
 export const toolInvocations = pgTable('tool_invocations', {
   id: uuid('id').primaryKey().defaultRandom(),
   messageId: uuid('messageId').notNull().references(() => messages.id, { onDelete: 'cascade' }),
+  // The SDK's id for the call, used to pair it with its result and to rebuild
+  // toolInvocations when a conversation is reloaded
+  toolCallId: varchar('tool_call_id', { length: 100 }),
+  // Index of the generation step that made the call
+  step: integer('step'),
   toolName: varchar('toolName', { length: 100 }).notNull(),
   parameters: jsonb('parameters'),
   result: jsonb('result'),
@@ -81,6 +106,14 @@ export const documents = pgTable('documents', {
   title: varchar('title', { length: 255 }).notNull(),
   content: text('content').notNull(),
   isPublic: boolean('isPublic').default(false),
+  // SHA-256 of content, for duplicate detection
+  contentHash: varchar('content_hash', { length: 64 }),
+  // Uploading a changed file under the same name stores a new version; only
+  // the latest version keeps its chunks
+  version: integer('version').notNull().default(1),
+  previousVersionId: integer('previous_version_id').references((): AnyPgColumn => documents.id, { onDelete: 'set null' }),
+  // Page offsets and heading style from extraction, so content can be re-chunked
+  chunkingOptions: jsonb('chunking_options').$type<DocumentChunkingOptions>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -89,11 +122,99 @@ export const chunks = pgTable('chunks', {
   id: serial('id').primaryKey(),
   documentId: integer('document_id').references(() => documents.id, { onDelete: 'cascade' }),
   content: text('content').notNull(),
-  embedding: vector('embedding', { dimensions: 1536 }),
+  embedding: vector('embedding', { dimensions: VECTOR_DIMENSIONS }),
+  // Enclosing headings, outermost first
+  sectionPath: text('section_path').array(),
+  pageNumber: integer('page_number'),
+  // Character range of the chunk in documents.content
+  startOffset: integer('start_offset'),
+  endOffset: integer('end_offset'),
+  tokenCount: integer('token_count'),
+  // Confidence of the OCR the chunk's text came from; null for text-layer content
+  ocrConfidence: real('ocr_confidence'),
+  // SHA-256 of the embedded text (section path and content)
+  contentHash: varchar('content_hash', { length: 64 }),
+  // Model that produced the embedding; chunks from another model are re-embedded
+  embeddingModel: varchar('embedding_model', { length: 100 }),
+  // Times the chunk was put into a chat prompt as a source
+  retrievalCount: integer('retrieval_count').default(0).notNull(),
+  lastRetrievedAt: timestamp('last_retrieved_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Named groups of documents (a course, a textbook). Retrieval can be limited to
+// selected collections; members and, for public collections, everyone can
+// search the documents in them, including the owner's private ones.
+export const collections = pgTable('collections', {
+  id: serial('id').primaryKey(),
+  ownerId: uuid('owner_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  isPublic: boolean('is_public').default(false).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+export const collectionDocuments = pgTable('collection_documents', {
+  collectionId: integer('collection_id').notNull().references(() => collections.id, { onDelete: 'cascade' }),
+  documentId: integer('document_id').notNull().references(() => documents.id, { onDelete: 'cascade' }),
+  addedAt: timestamp('added_at').defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.collectionId, table.documentId] }),
+}));
+
+// Users a collection is shared with
+export const collectionMembers = pgTable('collection_members', {
+  collectionId: integer('collection_id').notNull().references(() => collections.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  addedAt: timestamp('added_at').defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.collectionId, table.userId] }),
+}));
+
+// Document uploads waiting for or going through extraction, chunking and
+// embedding (see lib/ai/ingestion.ts)
+export const ingestionJobs = pgTable('ingestion_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  // Set once the document is stored
+  documentId: integer('document_id').references(() => documents.id, { onDelete: 'set null' }),
+  fileName: varchar('file_name', { length: 255 }).notNull(),
+  fileType: varchar('file_type', { length: 100 }),
+  fileSize: integer('file_size').notNull(),
+  // Base64 upload, kept until the job completes so failed jobs can be retried
+  fileData: text('file_data'),
+  // SHA-256 of the upload, to recognize files that were already ingested
+  fileHash: varchar('file_hash', { length: 64 }),
+  status: varchar('status', { length: 20 }).notNull().default('queued'), // 'queued', 'processing', 'completed', 'failed'
+  stage: varchar('stage', { length: 20 }), // 'extracting', 'chunking', 'embedding', 'storing'
+  progress: integer('progress').notNull().default(0),
+  chunkCount: integer('chunk_count'),
+  outcome: varchar('outcome', { length: 20 }), // 'created', 'duplicate', 'version'
+  attempts: integer('attempts').notNull().default(0),
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+});
+
+// Retrieval evaluation runs over a golden question set (see lib/ai/rag-eval.ts),
+// kept to compare settings over time
+export const ragEvalRuns = pgTable('rag_eval_runs', {
+  id: serial('id').primaryKey(),
+  dataset: varchar('dataset', { length: 255 }).notNull(),
+  label: varchar('label', { length: 255 }),
+  mode: varchar('mode', { length: 20 }).notNull(), // 'offline', 'database'
+  k: integer('k').notNull(),
+  config: jsonb('config').$type<EvalConfig>().notNull(),
+  metrics: jsonb('metrics').$type<EvalMetrics>().notNull(),
+  results: jsonb('results').$type<EvalQuestionResult[]>().notNull(),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Analytics Tables for Real Data Collection
 export const analyticsEvents = pgTable('analytics_events', {
   id: serial('id').primaryKey(),
@@ -154,7 +275,7 @@ export const molecules = pgTable('molecules', {
   structureType: varchar('structure_type', { length: 20 }).default('small_molecule'),
   
   // Search and indexing
-  embedding: vector('embedding', { dimensions: 1536 }),
+  embedding: vector('embedding', { dimensions: VECTOR_DIMENSIONS }),
   
   // Metadata
   source: varchar('source', { length: 50 }),
@@ -169,16 +290,55 @@ export const cachedResults = pgTable('cached_results', {
   queryHash: varchar('query_hash', { length: 64 }).notNull().unique(),
   result: jsonb('result').notNull(),
   queryType: varchar('query_type', { length: 20 }).default('search'),
+  // Document search entries: hash of the user, collections and settings searched
+  // with, and the user:/collection: tags they are invalidated by
+  scope: varchar('scope', { length: 64 }),
+  tags: text('tags').array(),
   accessCount: integer('access_count').default(0),
   lastAccessed: timestamp('last_accessed').defaultNow(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Monthly counters reset when last_reset falls before the current month, daily
+// counters when daily_reset falls before today (see lib/usage/quotas.ts)
 export const userUsage = pgTable('user_usage', {
   userId: uuid('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
   queriesCount: integer('queries_count').default(0),
   uploadsCount: integer('uploads_count').default(0),
+  ocrCount: integer('ocr_count').default(0),
   moleculeLookupsCount: integer('molecule_lookups_count').default(0),
   storageMb: integer('storage_mb').default(0),
   lastReset: timestamp('last_reset').defaultNow(),
-}); 
\ No newline at end of file
+  dailyQueriesCount: integer('daily_queries_count').default(0),
+  dailyUploadsCount: integer('daily_uploads_count').default(0),
+  dailyOcrCount: integer('daily_ocr_count').default(0),
+  dailyReset: timestamp('daily_reset').defaultNow(),
+});
+
+// Same counters for signed-out clients, keyed by a hash of the client IP
+export const anonymousUsage = pgTable('anonymous_usage', {
+  clientKey: varchar('client_key', { length: 64 }).primaryKey(),
+  queriesCount: integer('queries_count').default(0),
+  uploadsCount: integer('uploads_count').default(0),
+  ocrCount: integer('ocr_count').default(0),
+  lastReset: timestamp('last_reset').defaultNow(),
+  dailyQueriesCount: integer('daily_queries_count').default(0),
+  dailyUploadsCount: integer('daily_uploads_count').default(0),
+  dailyOcrCount: integer('daily_ocr_count').default(0),
+  dailyReset: timestamp('daily_reset').defaultNow(),
+}); 
+
+// One row per billable model call (chat turns, conversation summaries), priced
+// at the time of the call
+export const usageLedger = pgTable('usage_ledger', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+  conversationId: uuid('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+  messageId: uuid('message_id').references(() => messages.id, { onDelete: 'set null' }),
+  model: varchar('model', { length: 100 }).notNull(),
+  kind: varchar('kind', { length: 20 }).notNull().default('chat'), // 'chat', 'summary', 'rerank', 'rewrite'
+  promptTokens: integer('prompt_tokens').notNull().default(0),
+  completionTokens: integer('completion_tokens').notNull().default(0),
+  costUsd: decimal('cost_usd', { precision: 12, scale: 6 }).notNull().default('0'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
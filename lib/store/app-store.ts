@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
+import { DEFAULT_MODEL_ID } from '../ai/model-registry';
 
 // Types
 interface Conversation {
@@ -80,7 +81,7 @@ const initialState = {
   conversations: [],
   currentConversation: null,
   messages: {},
-  selectedModel: 'deepseek-chat',
+  selectedModel: DEFAULT_MODEL_ID,
   isStreaming: false,
   documents: [],
   uploadProgress: {},
@@ -243,7 +244,7 @@ export const useAppStore = create<AppState>()(
           
         resetToDefaults: () =>
           set({
-            selectedModel: 'deepseek-chat',
+            selectedModel: DEFAULT_MODEL_ID,
             sidebarOpen: true,
             theme: 'dark',
             currentConversation: null
@@ -0,0 +1,172 @@
+import { and, desc, eq, gte, sql, type SQL } from 'drizzle-orm';
+import { db, usageLedger, conversations, users } from '@/lib/db';
+import { getModelDefinition, type ModelPricing } from '@/lib/ai/model-registry';
+
+// Token usage and cost accounting. Every billable model call is written to
+// usage_ledger with its price at the time, and rolled up on read per day,
+// model, conversation and (for admins) user.
+
+export type UsageKind = 'chat' | 'summary' | 'rerank' | 'rewrite';
+
+export interface UsageEntry {
+  userId?: string | null;
+  conversationId?: string | null;
+  messageId?: string | null;
+  modelId: string;
+  kind: UsageKind;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface CostBreakdown {
+  key: string;
+  label: string;
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+}
+
+export interface CostSummary {
+  days: number;
+  totalCostUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  requests: number;
+  byDay: CostBreakdown[];
+  byModel: CostBreakdown[];
+  byConversation: CostBreakdown[];
+  // Only for team-wide summaries
+  byUser?: CostBreakdown[];
+}
+
+const TOP_ROWS = 10;
+
+// JSON object keyed by model id, e.g.
+// MODEL_PRICING='{"deepseek-chat":{"inputPerMillion":0.27,"outputPerMillion":1.1}}'
+function loadPricingOverrides(): Record<string, ModelPricing> {
+  if (!process.env.MODEL_PRICING) return {};
+  try {
+    return JSON.parse(process.env.MODEL_PRICING);
+  } catch (error) {
+    console.error('[Cost Ledger] Ignoring invalid MODEL_PRICING:', error);
+    return {};
+  }
+}
+
+const PRICING_OVERRIDES = loadPricingOverrides();
+
+export function getModelPricing(modelId: string): ModelPricing | undefined {
+  return PRICING_OVERRIDES[modelId] ?? getModelDefinition(modelId)?.pricing;
+}
+
+export function calculateCost(modelId: string, promptTokens: number, completionTokens: number): number {
+  const pricing = getModelPricing(modelId);
+  if (!pricing) return 0;
+  return (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1_000_000;
+}
+
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  if (!db) return;
+
+  const promptTokens = Number.isFinite(entry.promptTokens) ? entry.promptTokens! : 0;
+  const completionTokens = Number.isFinite(entry.completionTokens) ? entry.completionTokens! : 0;
+
+  try {
+    await db.insert(usageLedger).values({
+      userId: entry.userId ?? null,
+      conversationId: entry.conversationId ?? null,
+      messageId: entry.messageId ?? null,
+      model: entry.modelId,
+      kind: entry.kind,
+      promptTokens,
+      completionTokens,
+      costUsd: calculateCost(entry.modelId, promptTokens, completionTokens).toFixed(6),
+    });
+  } catch (error) {
+    console.error('[Cost Ledger] Failed to record usage:', error);
+  }
+}
+
+const aggregates = {
+  costUsd: sql<number>`coalesce(sum(${usageLedger.costUsd}), 0)`.mapWith(Number),
+  promptTokens: sql<number>`coalesce(sum(${usageLedger.promptTokens}), 0)`.mapWith(Number),
+  completionTokens: sql<number>`coalesce(sum(${usageLedger.completionTokens}), 0)`.mapWith(Number),
+  requests: sql<number>`count(*)`.mapWith(Number),
+};
+
+// Cost rollups over the last `days` days, for one user or (without userId) the
+// whole deployment
+export async function getCostSummary({ userId, days = 30 }: { userId?: string; days?: number }): Promise<CostSummary> {
+  const empty: CostSummary = {
+    days,
+    totalCostUsd: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    requests: 0,
+    byDay: [],
+    byModel: [],
+    byConversation: [],
+    byUser: userId ? undefined : [],
+  };
+  if (!db) return empty;
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const where: SQL | undefined = userId
+    ? and(gte(usageLedger.createdAt, since), eq(usageLedger.userId, userId))
+    : gte(usageLedger.createdAt, since);
+
+  const day = sql<string>`to_char(date_trunc('day', ${usageLedger.createdAt}), 'YYYY-MM-DD')`;
+
+  const [totals, byDay, byModel, byConversation, byUser] = await Promise.all([
+    db.select(aggregates).from(usageLedger).where(where),
+    db.select({ key: day, ...aggregates })
+      .from(usageLedger)
+      .where(where)
+      .groupBy(day)
+      .orderBy(day),
+    db.select({ key: usageLedger.model, ...aggregates })
+      .from(usageLedger)
+      .where(where)
+      .groupBy(usageLedger.model)
+      .orderBy(desc(aggregates.costUsd)),
+    db.select({ key: usageLedger.conversationId, label: conversations.title, ...aggregates })
+      .from(usageLedger)
+      .leftJoin(conversations, eq(usageLedger.conversationId, conversations.id))
+      .where(where)
+      .groupBy(usageLedger.conversationId, conversations.title)
+      .orderBy(desc(aggregates.costUsd))
+      .limit(TOP_ROWS),
+    userId
+      ? Promise.resolve(undefined)
+      : db.select({ key: usageLedger.userId, label: users.email, ...aggregates })
+          .from(usageLedger)
+          .leftJoin(users, eq(usageLedger.userId, users.id))
+          .where(where)
+          .groupBy(usageLedger.userId, users.email)
+          .orderBy(desc(aggregates.costUsd))
+          .limit(TOP_ROWS),
+  ]);
+
+  const total = totals[0] ?? { costUsd: 0, promptTokens: 0, completionTokens: 0, requests: 0 };
+
+  return {
+    days,
+    totalCostUsd: total.costUsd,
+    promptTokens: total.promptTokens,
+    completionTokens: total.completionTokens,
+    requests: total.requests,
+    byDay: byDay.map(row => ({ ...row, label: row.key })),
+    byModel: byModel.map(row => ({ ...row, label: getModelDefinition(row.key)?.name ?? row.key })),
+    byConversation: byConversation.map(row => ({
+      ...row,
+      key: row.key ?? 'none',
+      label: row.label ?? (row.key ? 'Deleted conversation' : 'Unsaved chats'),
+    })),
+    byUser: byUser?.map(row => ({
+      ...row,
+      key: row.key ?? 'anonymous',
+      label: row.label ?? (row.key ? 'Deleted user' : 'Anonymous'),
+    })),
+  };
+}
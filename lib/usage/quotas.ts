@@ -0,0 +1,303 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { eq, sql, type Column, type SQL } from 'drizzle-orm';
+import { db, userUsage, anonymousUsage } from '@/lib/db';
+
+// Per-tier daily and monthly quotas for chat queries, document uploads and OCR.
+// Signed-in users are counted in user_usage, anonymous clients in
+// anonymous_usage (keyed by a hash of their IP). Counters reset lazily: the
+// first increment after a UTC day/month boundary starts the window over.
+
+export type QuotaTier = 'anonymous' | 'user' | 'admin';
+export type QuotaMetric = 'queries' | 'uploads' | 'ocr';
+export type QuotaPeriod = 'daily' | 'monthly';
+
+// null means unlimited
+export type QuotaLimits = Record<QuotaPeriod, number | null>;
+
+export interface QuotaWindow {
+  used: number;
+  limit: number | null;
+  resetAt: Date;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  tier: QuotaTier;
+  metric: QuotaMetric;
+  // The window that decided the outcome: the exceeded one, otherwise the one
+  // with the fewest remaining requests (null when nothing is limited)
+  window: (QuotaWindow & { period: QuotaPeriod; remaining: number }) | null;
+}
+
+export interface UsageSnapshot {
+  tier: QuotaTier;
+  metrics: Record<QuotaMetric, Record<QuotaPeriod, QuotaWindow>>;
+  storageMb: number;
+  moleculeLookups: number;
+}
+
+const DEFAULT_LIMITS: Record<QuotaTier, Record<QuotaMetric, QuotaLimits>> = {
+  anonymous: {
+    queries: { daily: 20, monthly: 200 },
+    uploads: { daily: 3, monthly: 20 },
+    ocr: { daily: 5, monthly: 30 },
+  },
+  user: {
+    queries: { daily: 200, monthly: 3000 },
+    uploads: { daily: 30, monthly: 300 },
+    ocr: { daily: 50, monthly: 500 },
+  },
+  admin: {
+    queries: { daily: null, monthly: null },
+    uploads: { daily: null, monthly: null },
+    ocr: { daily: null, monthly: null },
+  },
+};
+
+const METRICS: QuotaMetric[] = ['queries', 'uploads', 'ocr'];
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+// Counter columns present in both user_usage and anonymous_usage
+type CounterColumn = 'queriesCount' | 'uploadsCount' | 'ocrCount' | 'dailyQueriesCount' | 'dailyUploadsCount' | 'dailyOcrCount';
+
+const COUNTER_COLUMNS: Record<QuotaMetric, Record<QuotaPeriod, CounterColumn>> = {
+  queries: { daily: 'dailyQueriesCount', monthly: 'queriesCount' },
+  uploads: { daily: 'dailyUploadsCount', monthly: 'uploadsCount' },
+  ocr: { daily: 'dailyOcrCount', monthly: 'ocrCount' },
+};
+
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+// Limits can be overridden per tier, metric and period, e.g.
+// QUOTA_ANONYMOUS_QUERIES_DAILY=10. A negative value means unlimited.
+function readLimit(tier: QuotaTier, metric: QuotaMetric, period: QuotaPeriod): number | null {
+  const fallback = DEFAULT_LIMITS[tier][metric][period];
+  const raw = process.env[`QUOTA_${tier.toUpperCase()}_${metric.toUpperCase()}_${period.toUpperCase()}`];
+  if (!raw || raw.trim() === '') return fallback;
+
+  const value = parseInt(raw, 10);
+  if (Number.isNaN(value)) return fallback;
+  return value < 0 ? null : value;
+}
+
+export function getQuotaLimits(tier: QuotaTier, metric: QuotaMetric): QuotaLimits {
+  return {
+    daily: readLimit(tier, metric, 'daily'),
+    monthly: readLimit(tier, metric, 'monthly'),
+  };
+}
+
+export function getQuotaTier(user?: { id?: string; email?: string | null } | null): QuotaTier {
+  if (!user?.id) return 'anonymous';
+  if (user.email && ADMIN_EMAILS.includes(user.email.toLowerCase())) return 'admin';
+  return 'user';
+}
+
+// Proxies in front of the app that append to X-Forwarded-For. Without one,
+// the header comes straight from the client and can't identify it.
+const TRUSTED_PROXY_HOPS = Math.max(parseInt(process.env.TRUSTED_PROXY_HOPS || '', 10) || 0, 0);
+
+// The client's IP as reported by the platform or a trusted proxy. Vercel sets
+// X-Real-IP and overwrites X-Forwarded-For; behind other proxies the client
+// address is the entry the outermost trusted proxy appended. Both headers
+// come straight from the client when nothing trusted sits in front.
+function clientIp(req: Request): string | null {
+  if (!process.env.VERCEL && TRUSTED_PROXY_HOPS === 0) return null;
+
+  const realIp = req.headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+
+  const forwardedFor = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  if (process.env.VERCEL) return forwardedFor[0] ?? null;
+  if (TRUSTED_PROXY_HOPS > 0 && forwardedFor.length >= TRUSTED_PROXY_HOPS) {
+    return forwardedFor[forwardedFor.length - TRUSTED_PROXY_HOPS];
+  }
+  return null;
+}
+
+// Stable, non-reversible key for an anonymous client. Clients whose IP can't
+// be trusted share one key, so spoofed headers can't reset their quota.
+export function getClientKey(req: Request): string {
+  return createHash('sha256').update(clientIp(req) ?? 'unknown').digest('hex');
+}
+
+function periodResetAt(period: QuotaPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+function periodStart(period: QuotaPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+type UsageTable = typeof userUsage | typeof anonymousUsage;
+
+// SET clause for the upsert: bump `metric`, and zero every counter of a window
+// whose period has rolled over. All expressions see the row as it was before the
+// update, so the rollover checks agree with each other.
+function buildIncrement(table: UsageTable, metric: QuotaMetric): Record<string, SQL> {
+  const set: Record<string, SQL> = {};
+
+  for (const period of PERIODS) {
+    const resetColumn = period === 'daily' ? table.dailyReset : table.lastReset;
+    const rolledOver = sql`(${resetColumn} IS NULL OR ${resetColumn} < date_trunc('${sql.raw(period === 'daily' ? 'day' : 'month')}', now()))`;
+
+    const counters: Array<{ column: CounterColumn | 'moleculeLookupsCount'; current: Column }> = METRICS.map(m => {
+      const column = COUNTER_COLUMNS[m][period];
+      return { column, current: table[column] };
+    });
+    // Molecule lookups are only tracked for signed-in users and reset monthly
+    if (period === 'monthly' && table === userUsage) {
+      counters.push({ column: 'moleculeLookupsCount', current: userUsage.moleculeLookupsCount });
+    }
+
+    for (const { column, current } of counters) {
+      const increment = sql.raw(column === COUNTER_COLUMNS[metric][period] ? '1' : '0');
+      set[column] = sql`CASE WHEN ${rolledOver} THEN ${increment} ELSE coalesce(${current}, 0) + ${increment} END`;
+    }
+    set[period === 'daily' ? 'dailyReset' : 'lastReset'] = sql`CASE WHEN ${rolledOver} THEN now() ELSE ${resetColumn} END`;
+  }
+
+  return set;
+}
+
+function evaluate(tier: QuotaTier, metric: QuotaMetric, counts: Record<QuotaPeriod, number>): QuotaCheck {
+  const limits = getQuotaLimits(tier, metric);
+  let exceeded: QuotaCheck['window'] = null;
+  let tightest: QuotaCheck['window'] = null;
+
+  for (const period of PERIODS) {
+    const limit = limits[period];
+    if (limit === null) continue;
+
+    const window = {
+      period,
+      used: counts[period],
+      limit,
+      remaining: Math.max(limit - counts[period], 0),
+      resetAt: periodResetAt(period),
+    };
+    // Retry-After must cover the longest exceeded window
+    if (counts[period] > limit && (!exceeded || window.resetAt > exceeded.resetAt)) {
+      exceeded = window;
+    }
+    if (!tightest || window.remaining < tightest.remaining) {
+      tightest = window;
+    }
+  }
+
+  return { allowed: !exceeded, tier, metric, window: exceeded ?? tightest };
+}
+
+// Count one use of `metric` and report whether it was within quota. The counter
+// is incremented before checking, so concurrent requests can't overshoot the
+// limit; rejected requests therefore still count. Fails open when the database
+// is unavailable.
+export async function consumeQuota(
+  req: Request,
+  user: { id?: string; email?: string | null } | null | undefined,
+  metric: QuotaMetric
+): Promise<QuotaCheck> {
+  const tier = getQuotaTier(user);
+  if (!db) {
+    return { allowed: true, tier, metric, window: null };
+  }
+
+  const dailyColumn = COUNTER_COLUMNS[metric].daily;
+  const monthlyColumn = COUNTER_COLUMNS[metric].monthly;
+
+  try {
+    const [row] = user?.id
+      ? await db.insert(userUsage)
+          .values({ userId: user.id, [dailyColumn]: 1, [monthlyColumn]: 1 })
+          .onConflictDoUpdate({ target: userUsage.userId, set: buildIncrement(userUsage, metric) })
+          .returning()
+      : await db.insert(anonymousUsage)
+          .values({ clientKey: getClientKey(req), [dailyColumn]: 1, [monthlyColumn]: 1 })
+          .onConflictDoUpdate({ target: anonymousUsage.clientKey, set: buildIncrement(anonymousUsage, metric) })
+          .returning();
+
+    return evaluate(tier, metric, {
+      daily: row?.[dailyColumn] ?? 0,
+      monthly: row?.[monthlyColumn] ?? 0,
+    });
+  } catch (error) {
+    console.error(`[Quotas] Failed to record ${metric} usage:`, error);
+    return { allowed: true, tier, metric, window: null };
+  }
+}
+
+export function quotaHeaders(check: QuotaCheck): Record<string, string> {
+  if (!check.window) return {};
+  return {
+    'X-RateLimit-Limit': String(check.window.limit),
+    'X-RateLimit-Remaining': String(check.window.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(check.window.resetAt.getTime() / 1000)),
+  };
+}
+
+export function quotaExceededResponse(check: QuotaCheck): NextResponse {
+  const resetAt = check.window?.resetAt ?? periodResetAt('daily');
+  const retryAfter = Math.max(Math.ceil((resetAt.getTime() - Date.now()) / 1000), 1);
+
+  return NextResponse.json(
+    {
+      error: `${check.window?.period === 'monthly' ? 'Monthly' : 'Daily'} ${check.metric} quota exceeded`,
+      details: check.tier === 'anonymous'
+        ? 'Sign in to get higher limits.'
+        : `Your quota resets at ${resetAt.toISOString()}.`,
+      tier: check.tier,
+      metric: check.metric,
+      limit: check.window?.limit ?? null,
+      resetAt: resetAt.toISOString(),
+    },
+    {
+      status: 429,
+      headers: { ...quotaHeaders(check), 'Retry-After': String(retryAfter) },
+    }
+  );
+}
+
+// Current usage for display; applies pending resets without writing them.
+export async function getUsageSnapshot(user: { id?: string; email?: string | null }): Promise<UsageSnapshot> {
+  const tier = getQuotaTier(user);
+  const row = db && user.id
+    ? (await db.select().from(userUsage).where(eq(userUsage.userId, user.id)).limit(1))[0]
+    : undefined;
+
+  const resetColumns = { daily: row?.dailyReset, monthly: row?.lastReset };
+  const metrics = {} as UsageSnapshot['metrics'];
+
+  for (const metric of METRICS) {
+    const limits = getQuotaLimits(tier, metric);
+    metrics[metric] = {} as Record<QuotaPeriod, QuotaWindow>;
+
+    for (const period of PERIODS) {
+      const lastReset = resetColumns[period];
+      const current = lastReset ? lastReset >= periodStart(period) : false;
+      metrics[metric][period] = {
+        used: current ? row?.[COUNTER_COLUMNS[metric][period]] ?? 0 : 0,
+        limit: limits[period],
+        resetAt: periodResetAt(period),
+      };
+    }
+  }
+
+  const monthCurrent = row?.lastReset ? row.lastReset >= periodStart('monthly') : false;
+  return {
+    tier,
+    metrics,
+    storageMb: row?.storageMb ?? 0,
+    moleculeLookups: monthCurrent ? row?.moleculeLookupsCount ?? 0 : 0,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * STEM AI Assistant - Retrieval Evaluation
+ *
+ * Runs a golden question set (see docs/api-reference.md, "Retrieval
+ * Evaluation") and prints recall@k, MRR and nDCG@k per question and overall.
+ *
+ * Offline (default): indexes the dataset's corpus in memory with the local
+ * embedding provider. Needs no database, API keys or network.
+ *   npx tsx scripts/rag-eval.ts test/eval/stem-basics.json --k 5
+ *
+ * Database: searches the stored documents with the configured provider.
+ *   npx tsx --env-file=.env.local scripts/rag-eval.ts test/eval/stem-basics.json --database --user <id> --save
+ *
+ * Options:
+ *   --k <n>              results scored per question (default 5)
+ *   --label <text>       name for the run, e.g. the setting being tried
+ *   --chunk-tokens <n>   offline chunk size    --overlap-tokens <n>  offline overlap
+ *   --vector-weight <n>  --lexical-weight <n>  --similarity-threshold <n>  --rrf-k <n>
+ *   --user <id>          database mode: search the documents this user can see
+ *   --out <file>         write the run as JSON
+ *   --baseline <file>    compare with a run written by --out
+ *   --save               store the run in rag_eval_runs and compare with the previous one
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+const FLAGS = new Set(['database', 'save']);
+
+function parseArgs(argv: string[]): { file?: string; flags: Set<string>; values: Map<string, string> } {
+  const flags = new Set<string>();
+  const values = new Map<string, string>();
+  let file: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      file = arg;
+      continue;
+    }
+    const name = arg.slice(2);
+    if (FLAGS.has(name)) {
+      flags.add(name);
+    } else if (i + 1 < argv.length) {
+      values.set(name, argv[++i]);
+    } else {
+      throw new Error(`Missing value for ${arg}`);
+    }
+  }
+  return { file, flags, values };
+}
+
+function numberOption(values: Map<string, string>, name: string): number | undefined {
+  const value = values.get(name);
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new Error(`--${name} must be a number`);
+  return parsed;
+}
+
+// Options left out on the command line keep their configured defaults
+function defined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+
+async function main() {
+  const { file, flags, values } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error('Usage: npx tsx scripts/rag-eval.ts <dataset.json> [--k 5] [--database] [--save] [--out run.json] [--baseline run.json]');
+    process.exit(1);
+  }
+  const mode = flags.has('database') ? 'database' : 'offline';
+
+  if (mode === 'offline') {
+    // Must be set before the RAG modules load and read their configuration
+    process.env.RAG_ENABLED = 'true';
+    process.env.RAG_EMBEDDING_PROVIDER = 'local';
+    process.env.RAG_PDF_OCR = 'false';
+    if (process.env.RAG_RERANKER === 'llm') {
+      console.log('ℹ️  The llm reranker needs a model API, using the lexical reranker offline\n');
+      process.env.RAG_RERANKER = 'lexical';
+    }
+  }
+
+  const { compareEvalRuns, previousEvalRun, readEvalDataset, runEval, saveEvalRun } = await import('../lib/ai/rag-eval');
+
+  const datasetFile = path.resolve(file);
+  const dataset = await readEvalDataset(datasetFile);
+  const run = await runEval(dataset, {
+    mode,
+    k: numberOption(values, 'k'),
+    label: values.get('label'),
+    search: defined({
+      vectorWeight: numberOption(values, 'vector-weight'),
+      lexicalWeight: numberOption(values, 'lexical-weight'),
+      similarityThreshold: numberOption(values, 'similarity-threshold'),
+      rrfK: numberOption(values, 'rrf-k'),
+    }),
+    chunking: defined({
+      chunkTokens: numberOption(values, 'chunk-tokens'),
+      overlapTokens: numberOption(values, 'overlap-tokens'),
+    }),
+    userId: values.get('user'),
+    baseDir: path.dirname(datasetFile),
+  });
+
+  console.log(`\n📊 ${run.dataset} (${run.mode}, k=${run.k}${run.label ? `, ${run.label}` : ''})`);
+  if (run.config.corpus) {
+    console.log(`   Corpus: ${run.config.corpus.documents} documents, ${run.config.corpus.chunks} chunks (${run.config.chunkTokens} tokens, ${run.config.overlapTokens} overlap)`);
+    for (const skipped of run.config.corpus.skipped) {
+      console.log(`   ⚠️  Skipped ${skipped.title}: ${skipped.error}`);
+    }
+  }
+  console.log(`   Embeddings: ${run.config.embeddingModel ?? 'none'}, reranker: ${run.config.reranker}\n`);
+
+  for (const result of run.results) {
+    const status = result.recall === 1 ? '✅' : result.recall > 0 ? '🟡' : '❌';
+    console.log(`${status} ${result.id}: recall ${percent(result.recall)}, RR ${result.reciprocalRank.toFixed(2)}, nDCG ${result.ndcg.toFixed(2)} - ${result.question}`);
+    for (const missed of result.missed) {
+      console.log(`     missed: ${missed.document}${missed.page ? `, page ${missed.page}` : ''}${missed.contains ? ` ("${missed.contains}")` : ''}`);
+    }
+  }
+
+  console.log(`\nrecall@${run.k}: ${percent(run.metrics.recallAtK)}   MRR: ${run.metrics.mrr.toFixed(3)}   nDCG@${run.k}: ${run.metrics.ndcgAtK.toFixed(3)}`);
+
+  let baseline = values.has('baseline')
+    ? JSON.parse(await readFile(values.get('baseline')!, 'utf8'))
+    : null;
+
+  if (flags.has('save')) {
+    const stored = await saveEvalRun(run);
+    console.log(`\n💾 Saved as run ${stored.id}`);
+    const previous = await previousEvalRun(stored.dataset, mode, stored.id);
+    baseline ??= previous ? { ...previous, mode: previous.mode as typeof mode } : null;
+  }
+
+  if (baseline) {
+    const comparison = compareEvalRuns(run, baseline);
+    console.log(`\nCompared with ${comparison.baseline.id !== undefined ? `run ${comparison.baseline.id}` : 'the baseline'}${comparison.baseline.label ? ` (${comparison.baseline.label})` : ''}:`);
+    console.log(`   recall@${run.k} ${signed(comparison.metrics.recallAtK.delta)}   MRR ${signed(comparison.metrics.mrr.delta)}   nDCG@${run.k} ${signed(comparison.metrics.ndcgAtK.delta)} (points)`);
+    for (const change of comparison.changed) {
+      console.log(`   ${change.id}: nDCG ${change.baseline?.ndcg.toFixed(2) ?? '-'} → ${change.current?.ndcg.toFixed(2) ?? '-'}`);
+    }
+  }
+
+  if (values.has('out')) {
+    await writeFile(values.get('out')!, JSON.stringify(run, null, 2));
+    console.log(`\n📝 Run written to ${values.get('out')}`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});